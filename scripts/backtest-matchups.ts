@@ -0,0 +1,284 @@
+// scripts/backtest-matchups.ts
+/**
+ * @file backtest-matchups.ts
+ * @description Scores matchup predictions against what actually happened (matchup_outcomes,
+ *              filled by record-matchup-outcomes.ts) over a range of dates: calibration buckets
+ *              and Spearman rank correlation for avg_xwoba, avg_hr_per_pa and avg_k_percent,
+ *              top-N hit rates, and a Brier score for HR probability. Writes a JSON report and
+ *              an HTML summary.
+ *
+ * --source stored (default) scores the rows ingest stored on each date: true forecasts, made
+ * before the games. --source replay reruns each date through /api/ingest as a dry run (the app
+ * must be running) with the given --model / --no-context, for comparing model or season-weight
+ * changes. Replays use that date's rosters and form windows ending before it, with the
+ * batter-vs-pitcher blend off (the stored history is refreshed through today and includes the
+ * scored games) and without recording ingest_runs. Everything else comes from today's tables
+ * and season lines: weighted, home/road and day/night splits, league averages, bullpen usage and
+ * opener detection can all include the games being scored, and weather is looked up after
+ * the fact rather than forecast. So replay numbers run optimistic: compare replays with each other over
+ * the same dates, never with stored forecasts or with replays run after a later data refresh.
+ *
+ * Usage:
+ *   tsx scripts/backtest-matchups.ts --start 2025-05-01 --end 2025-06-27
+ *     [--source stored|replay] [--model log5] [--no-context]
+ *     [--scope starter|bulk] [--top 5,10,25] [--buckets 10] [--out scripts/backtest_output]
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+import { parseDateRangeQuery } from '../src/lib/dateRange';
+import {
+  BacktestMetrics,
+  BacktestPrediction,
+  computeBacktestMetrics,
+  DEFAULT_CALIBRATION_BUCKETS,
+  DEFAULT_TOP_N,
+  RateBacktest,
+} from '../src/lib/backtest';
+import type { MatchupOutcome } from '../src/lib/matchupOutcomes';
+import type { Database } from '../src/types/database.types';
+
+type MatchupInsert = Database['public']['Tables']['daily_matchups']['Insert'];
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+const API_BASE_URL = 'http://localhost:3000/api'; // Same default as orchestrate-data-pipeline.ts
+const DEFAULT_OUTPUT_DIR = path.join(__dirname, 'backtest_output');
+const PAGE_SIZE = 1000;
+const PREDICTION_COLUMNS = 'game_date, game_pk, batter_id, pitcher_id, avg_xwoba, avg_hr_per_pa, avg_k_percent';
+
+interface BacktestReport {
+  generatedAt: string;
+  start: string;
+  end: string;
+  source: 'stored' | 'replay';
+  scope: string;
+  replay: { model: string | null; contextSplits: boolean } | null;
+  predictions: number;
+  metrics: BacktestMetrics;
+}
+
+function getArg(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index > -1 && process.argv[index + 1] ? process.argv[index + 1] : null;
+}
+
+const parseNumberList = (value: string | null): number[] | null => {
+  const list = (value || '').split(',').map(s => parseInt(s.trim(), 10)).filter(n => !isNaN(n) && n > 0);
+  return list.length ? list : null;
+};
+
+// --- Loading ---
+
+async function fetchStoredPredictions(client: SupabaseClient, dates: string[], scope: string): Promise<BacktestPrediction[]> {
+  let rows: BacktestPrediction[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await client
+      .from('daily_matchups')
+      .select(PREDICTION_COLUMNS)
+      .gte('game_date', dates[0])
+      .lte('game_date', dates[dates.length - 1])
+      .eq('matchup_scope', scope)
+      .is('superseded_at', null)
+      .order('game_date')
+      .order('game_pk')
+      .order('batter_id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load daily_matchups: ${error.message}`);
+    rows = rows.concat((data || []) as BacktestPrediction[]);
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function fetchReplayPredictions(dates: string[], scope: string, params: URLSearchParams): Promise<BacktestPrediction[]> {
+  const predictions: BacktestPrediction[] = [];
+  for (const date of dates) {
+    const query = new URLSearchParams(params);
+    query.set('date', date);
+    query.set('dryRun', 'true');
+    query.set('rows', 'true');
+    // No ingest_runs rows, and no head-to-head blend: batter_vs_pitcher includes the scored games
+    query.set('record', 'false');
+    query.set('bvpWeight', '0');
+    const response = await fetch(`${API_BASE_URL}/ingest?${query.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Replay of ${date} failed: ${response.status} ${(await response.text()).slice(0, 300)}`);
+    }
+    const body: { rows?: MatchupInsert[] } = await response.json();
+    const rows = (body.rows || []).filter(r => r.matchup_scope === scope);
+    console.log(`  🔁 ${date}: ${rows.length} ${scope} rows replayed`);
+    rows.forEach(r => predictions.push({
+      game_date: r.game_date,
+      game_pk: r.game_pk,
+      batter_id: r.batter_id,
+      pitcher_id: r.pitcher_id,
+      avg_xwoba: r.avg_xwoba ?? null,
+      avg_hr_per_pa: r.avg_hr_per_pa ?? null,
+      avg_k_percent: r.avg_k_percent ?? null,
+    }));
+  }
+  return predictions;
+}
+
+async function fetchOutcomes(client: SupabaseClient, dates: string[]): Promise<MatchupOutcome[]> {
+  let rows: MatchupOutcome[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await client
+      .from('matchup_outcomes')
+      .select('*')
+      .gte('game_date', dates[0])
+      .lte('game_date', dates[dates.length - 1])
+      .order('game_pk')
+      .order('batter_id')
+      .order('pitcher_id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load matchup_outcomes: ${error.message}`);
+    rows = rows.concat((data || []) as MatchupOutcome[]);
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// --- HTML Summary ---
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const fmt = (value: number | null | undefined, digits = 3) => (value == null || isNaN(value) ? '—' : value.toFixed(digits));
+const pct = (value: number | null | undefined) => (value == null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+function rateSection(title: string, rate: RateBacktest, digits: number, extra = ''): string {
+  const rows = rate.buckets.map((b, i) => `
+        <tr><td>${i + 1}</td><td>${b.count}</td><td>${b.pa}</td><td>${fmt(b.minPredicted, digits)} – ${fmt(b.maxPredicted, digits)}</td>
+        <td>${fmt(b.meanPredicted, digits)}</td><td>${fmt(b.actual, digits)}</td><td>${fmt(b.actual != null ? b.actual - b.meanPredicted : null, digits)}</td></tr>`).join('');
+  return `
+    <h2>${escapeHtml(title)}</h2>
+    <p>${rate.samples} pairs · predicted ${fmt(rate.meanPredicted, digits)} vs actual ${fmt(rate.actual, digits)} ·
+      calibration error ${fmt(rate.calibrationError, digits)} · Spearman ${fmt(rate.spearman)}${extra}</p>
+    <table>
+      <thead><tr><th>Bucket</th><th>Pairs</th><th>PA</th><th>Predicted range</th><th>Mean predicted</th><th>Actual</th><th>Actual − predicted</th></tr></thead>
+      <tbody>${rows}
+      </tbody>
+    </table>`;
+}
+
+function renderHtml(report: BacktestReport): string {
+  const { metrics } = report;
+  const topRows = metrics.topN.map(t => `
+        <tr><td>Top ${t.n}</td><td>${t.rankedBy}</td><td>${t.pairs}</td><td>${pct(t.hitRate)}</td><td>${pct(t.homeRunRate)}</td><td>${fmt(t.xwoba)}</td></tr>`).join('');
+  const replay = report.replay
+    ? ` · replay: model ${escapeHtml(report.replay.model ?? 'default')}, context splits ${report.replay.contextSplits ? 'on' : 'off'}`
+    : '';
+  const hr = metrics.hrPerPa;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Matchup backtest ${report.start} – ${report.end}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #e5e7eb; background: #111827; }
+    table { border-collapse: collapse; margin-bottom: 1.5rem; }
+    th, td { border: 1px solid #374151; padding: 0.25rem 0.6rem; text-align: right; }
+    th { background: #1f2937; }
+    h2 { margin-top: 2rem; }
+    p { color: #9ca3af; }
+  </style>
+</head>
+<body>
+  <h1>Matchup backtest: ${report.start} – ${report.end}</h1>
+  <p>${report.source} ${escapeHtml(report.scope)} predictions${replay} · ${report.predictions} predictions, ${metrics.samples} scored pairs
+    (${metrics.didNotFace} never faced each other, ${metrics.unmatched} without outcomes) over ${metrics.baseline.dates} dates ·
+    generated ${report.generatedAt}</p>
+  ${rateSection('xwOBA (avg_xwoba vs PA-level xwOBA)', metrics.xwoba, 3)}
+  ${rateSection('HR per PA (avg_hr_per_pa)', hr, 4, ` · Brier ${fmt(hr.brier, 4)} (constant rate ${fmt(hr.baselineBrier, 4)}, skill ${fmt(hr.brierSkill)})`)}
+  ${rateSection('K% (avg_k_percent)', metrics.kPercent, 3)}
+  <h2>Top-N hit rates</h2>
+  <p>Each date's top N pairs by the prediction, pooled. All pairs: hit ${pct(metrics.baseline.hitRate)}, HR ${pct(metrics.baseline.homeRunRate)}, xwOBA ${fmt(metrics.baseline.xwoba)}.</p>
+  <table>
+    <thead><tr><th>N</th><th>Ranked by</th><th>Pairs</th><th>≥1 hit</th><th>≥1 HR</th><th>xwOBA</th></tr></thead>
+    <tbody>${topRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+// --- Main Execution ---
+
+async function main() {
+  const range = parseDateRangeQuery(getArg('--start') ?? undefined, getArg('--end') ?? undefined);
+  if (!range || 'error' in range) {
+    console.error(`🔴 ${range ? range.error : 'Pass --start and --end (YYYY-MM-DD).'}`);
+    process.exit(1);
+  }
+  const { dates } = range;
+  const source = getArg('--source') || 'stored';
+  if (source !== 'stored' && source !== 'replay') {
+    console.error(`🔴 Unknown --source "${source}". Expected stored or replay.`);
+    process.exit(1);
+  }
+  const scope = getArg('--scope') || 'starter';
+  const topN = parseNumberList(getArg('--top')) ?? DEFAULT_TOP_N;
+  const bucketCount = parseNumberList(getArg('--buckets'))?.[0] ?? DEFAULT_CALIBRATION_BUCKETS;
+  const outputDir = path.resolve(getArg('--out') || DEFAULT_OUTPUT_DIR);
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('🔴 Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in the environment variables.');
+    process.exit(1);
+  }
+  const supabase: SupabaseClient = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+  const replay = source === 'replay'
+    ? { model: getArg('--model'), contextSplits: !process.argv.includes('--no-context') }
+    : null;
+  console.log(`📊 Backtesting ${source} ${scope} predictions for ${dates[0]} → ${dates[dates.length - 1]} (${dates.length} dates)`);
+
+  let predictions: BacktestPrediction[];
+  if (replay) {
+    const params = new URLSearchParams();
+    if (replay.model) params.set('model', replay.model);
+    if (!replay.contextSplits) params.set('contextSplits', 'false');
+    predictions = await fetchReplayPredictions(dates, scope, params);
+  } else {
+    predictions = await fetchStoredPredictions(supabase, dates, scope);
+  }
+  const outcomes = await fetchOutcomes(supabase, dates);
+  console.log(`  ${predictions.length} predictions, ${outcomes.length} outcomes`);
+  if (!outcomes.length) {
+    console.warn('⚠️ No matchup_outcomes in this range; run record-matchup-outcomes.ts for these dates first.');
+  }
+
+  const report: BacktestReport = {
+    generatedAt: new Date().toISOString(),
+    start: dates[0],
+    end: dates[dates.length - 1],
+    source,
+    scope,
+    replay,
+    predictions: predictions.length,
+    metrics: computeBacktestMetrics(predictions, outcomes, { bucketCount, topN }),
+  };
+
+  const label = replay ? `replay-${replay.model ?? 'default'}${replay.contextSplits ? '' : '-nocontext'}` : 'stored';
+  const baseName = `backtest_${report.start}_${report.end}_${scope}_${label}`;
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(path.join(outputDir, `${baseName}.json`), JSON.stringify(report, null, 2));
+  await fs.writeFile(path.join(outputDir, `${baseName}.html`), renderHtml(report));
+
+  const { metrics } = report;
+  console.log(`✅ ${metrics.samples} scored pairs: xwOBA Spearman ${fmt(metrics.xwoba.spearman)}, calibration error ${fmt(metrics.xwoba.calibrationError)}; HR Brier ${fmt(metrics.hrPerPa.brier, 4)} (skill ${fmt(metrics.hrPerPa.brierSkill)})`);
+  console.log(`📝 Wrote ${path.join(outputDir, `${baseName}.json`)} and .html`);
+}
+
+main().catch(error => {
+  console.error('🔴 Backtest failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,132 @@
+// scripts/check-fixture-day.ts
+/**
+ * @file check-fixture-day.ts
+ * @description Replays the committed fixture day (fixtures/days/2025-06-15) through the MLB
+ *              Stats API client with HTTP_FIXTURE_MODE=replay and checks what ingest reads from
+ *              it: the schedule and probables, batting orders, handedness, season pitching lines
+ *              and opener detection. Needs no network or database; prints ✅ or 🔴 per check and
+ *              exits 1 on any failure.
+ *
+ * Only the MLB Stats API calls are replayed. Splits, league averages and the other Supabase
+ * reads ingest makes are not recorded, so the matchup model itself is covered by
+ * check-matchup-logic.ts, not here.
+ *
+ * The fixture day is hand-built: a synthetic game (gamePk 900001) with trimmed response bodies,
+ * written in the recorder's file format through withFixtures rather than captured from the live
+ * API. A real recording (HTTP_FIXTURE_MODE=record) can replace it as long as the checks' IDs hold.
+ *
+ * Usage:
+ *   tsx scripts/check-fixture-day.ts
+ */
+
+import assert from 'assert/strict';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { estimateStarterShare, parsePitcherUsage, PITCHING_STATS_HYDRATE } from '../src/lib/bullpen';
+import { createMlbStatsApiClient, MlbPerson } from '../src/lib/mlbStatsApi';
+import { detectOpener, parseRecentAppearances } from '../src/lib/openers';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FIXTURE_DATE = '2025-06-15';
+const GAME_PK = 900001;
+const HOME_STARTER_ID = 9101;
+const AWAY_OPENER_ID = 9201;
+const HOME_ORDER = [9111, 9112, 9113, 9114, 9115, 9116, 9117, 9118, 9119];
+const AWAY_ORDER = [9211, 9212, 9213, 9214, 9215, 9216, 9217, 9218, 9219];
+
+// Mode and directory are read on every fetch, so setting them here covers the client below
+process.env.HTTP_FIXTURE_MODE = 'replay';
+process.env.HTTP_FIXTURE_DIR = path.resolve(__dirname, '../fixtures/days', FIXTURE_DATE);
+
+// No retries or cache: a missing fixture should fail the check at once
+const api = createMlbStatsApiClient({ retries: 0, cacheTtlMs: 0, log: () => {} });
+
+// The same requests ingest sends for the date (src/lib/ingestMatchups.ts)
+const getSchedule = () => api.getSchedule({ date: FIXTURE_DATE, hydrate: 'probablePitcher' });
+const getPeople = () => api.getPeople([HOME_STARTER_ID, AWAY_OPENER_ID, ...HOME_ORDER, ...AWAY_ORDER], { hydrate: PITCHING_STATS_HYDRATE });
+
+const checks: { name: string; run: () => Promise<void> }[] = [];
+const check = (name: string, run: () => Promise<void>) => checks.push({ name, run });
+
+const close = (actual: number, expected: number, what: string) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${what}: expected ${expected}, got ${actual}`);
+
+const personById = (people: MlbPerson[], id: number) => {
+  const person = people.find(p => p.id === id);
+  assert.ok(person, `person ${id} missing from the people fixture`);
+  return person;
+};
+
+check('schedule: one game with both probables', async () => {
+  const schedule = await getSchedule();
+  const games = schedule.dates.flatMap(d => d.games);
+  assert.equal(games.length, 1);
+  const [game] = games;
+  assert.equal(game.gamePk, GAME_PK);
+  assert.equal(game.officialDate, FIXTURE_DATE);
+  assert.equal(game.teams.home.probablePitcher?.id, HOME_STARTER_ID);
+  assert.equal(game.teams.away.probablePitcher?.id, AWAY_OPENER_ID);
+});
+
+check('boxscore: posted batting orders for both sides', async () => {
+  const boxscore = await api.getBoxscore(GAME_PK);
+  assert.deepEqual(boxscore.teams.home.battingOrder, HOME_ORDER);
+  assert.deepEqual(boxscore.teams.away.battingOrder, AWAY_ORDER);
+});
+
+check('people: handedness for every lineup batter and both probables', async () => {
+  const people = await getPeople();
+  [...HOME_ORDER, ...AWAY_ORDER].forEach(id => assert.ok(personById(people, id).batSide?.code, `batter ${id} has no batSide`));
+  assert.equal(personById(people, 9113).batSide?.code, 'S');
+  assert.equal(personById(people, HOME_STARTER_ID).pitchHand?.code, 'R');
+  assert.equal(personById(people, AWAY_OPENER_ID).pitchHand?.code, 'L');
+});
+
+check('bullpen: season lines give the starter share of the game', async () => {
+  const people = await getPeople();
+  const usage = parsePitcherUsage(personById(people, HOME_STARTER_ID));
+  assert.ok(usage, 'no season pitching line for the home starter');
+  assert.equal(usage.gamesPitched, 14);
+  assert.equal(usage.gamesStarted, 14);
+  close(usage.inningsPitched, 84 + 1 / 3, 'innings pitched');
+  close(estimateStarterShare(usage), (84 + 1 / 3) / 14 / 9, 'starter share');
+  assert.equal(parsePitcherUsage(personById(people, 9111)), null);
+});
+
+check('openers: the short-start probable is an opener, the starter is not', async () => {
+  const people = await getPeople();
+  const starter = personById(people, HOME_STARTER_ID);
+  const opener = personById(people, AWAY_OPENER_ID);
+
+  const starterAppearances = parseRecentAppearances(starter, FIXTURE_DATE);
+  assert.deepEqual(starterAppearances.map(a => a.date), ['2025-06-09', '2025-06-03', '2025-05-28']);
+  assert.equal(detectOpener(parsePitcherUsage(starter), starterAppearances).isOpener, false);
+
+  const openerAppearances = parseRecentAppearances(opener, FIXTURE_DATE);
+  const assessment = detectOpener(parsePitcherUsage(opener), openerAppearances);
+  assert.equal(assessment.isOpener, true);
+  close(assessment.expectedInnings, 1, 'opener expected innings');
+  assert.equal(assessment.reason, '1.0 IP per start over the last 3 starts');
+});
+
+check('replay: a request with no recorded fixture fails without touching the network', async () => {
+  await assert.rejects(api.getBoxscore(GAME_PK + 1), /HTTP 404 Fixture Not Recorded/);
+});
+
+// --- Main Execution ---
+
+let failed = 0;
+for (const { name, run } of checks) {
+  try {
+    await run();
+    console.log(`✅ ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`🔴 ${name}\n   ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+console.log(`${checks.length - failed}/${checks.length} checks passed`);
+if (failed) process.exit(1);
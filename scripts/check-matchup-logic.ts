@@ -0,0 +1,181 @@
+// scripts/check-matchup-logic.ts
+/**
+ * @file check-matchup-logic.ts
+ * @description Sanity checks for the pure matchup logic that needs no database or network:
+ *              the dry-run diff (src/lib/matchupDiff.ts) and the backtest metrics
+ *              (src/lib/backtest.ts). Each check builds a small fixture,
+ *              asserts on the result and prints ✅ or 🔴; any failure exits 1.
+ *
+ * Usage:
+ *   tsx scripts/check-matchup-logic.ts
+ */
+
+import assert from 'assert/strict';
+
+import {
+  backtestRate,
+  BacktestPrediction,
+  BacktestSample,
+  computeBacktestMetrics,
+  homeRunBrier,
+  spearman,
+  topNHitRates,
+} from '../src/lib/backtest';
+import { diffMatchups, DiffableMatchup } from '../src/lib/matchupDiff';
+import type { MatchupOutcome } from '../src/lib/matchupOutcomes';
+
+const checks: { name: string; run: () => void }[] = [];
+const check = (name: string, run: () => void) => checks.push({ name, run });
+
+// --- matchupDiff ---
+
+const matchup = (gamePk: number, batterId: number, pitcherId: number, avgXwoba: number): DiffableMatchup => ({
+  game_pk: gamePk,
+  batter_id: batterId,
+  pitcher_id: pitcherId,
+  batter_name: `Batter ${batterId}`,
+  pitcher_name: `Pitcher ${pitcherId}`,
+  matchup_scope: 'starter',
+  avg_xwoba: avgXwoba,
+});
+
+check('diffMatchups: added, removed, moved and unchanged pairs', () => {
+  const existing = [matchup(1, 10, 100, 0.320), matchup(1, 11, 100, 0.300), matchup(1, 12, 100, 0.350)];
+  const proposed = [matchup(1, 10, 100, 0.325), matchup(1, 12, 100, 0.330), matchup(1, 13, 100, 0.310)];
+  const diff = diffMatchups(existing, proposed, 0.010);
+  assert.deepEqual(diff.added.map(m => m.batter_id), [13]);
+  assert.deepEqual(diff.removed.map(m => m.batter_id), [11]);
+  assert.deepEqual(diff.moved.map(m => m.batter_id), [12]);
+  assert.ok(Math.abs(diff.moved[0].delta + 0.020) < 1e-9);
+  assert.equal(diff.unchangedCount, 1);
+  assert.equal(diff.existingCount, 3);
+  assert.equal(diff.proposedCount, 3);
+});
+
+check('diffMatchups: doubleheader games are separate pairs', () => {
+  const existing = [matchup(1, 10, 100, 0.320), matchup(2, 10, 100, 0.320)];
+  const proposed = [matchup(2, 10, 100, 0.320)];
+  const diff = diffMatchups(existing, proposed);
+  assert.deepEqual(diff.removed.map(m => m.game_pk), [1]);
+  assert.equal(diff.unchangedCount, 1);
+});
+
+check('diffMatchups: moved rows sort by the size of the move', () => {
+  const existing = [matchup(1, 10, 100, 0.300), matchup(1, 11, 100, 0.300), matchup(1, 12, 100, 0.300)];
+  const proposed = [matchup(1, 10, 100, 0.320), matchup(1, 11, 100, 0.250), matchup(1, 12, 100, 0.330)];
+  assert.deepEqual(diffMatchups(existing, proposed).moved.map(m => m.batter_id), [11, 12, 10]);
+});
+
+// --- backtest ---
+
+const close = (actual: number | null, expected: number, what: string) =>
+  assert.ok(actual != null && Math.abs(actual - expected) < 1e-9, `${what}: expected ${expected}, got ${actual}`);
+
+const prediction = (gameDate: string, batterId: number, avgXwoba: number, avgHrPerPa: number): BacktestPrediction => ({
+  game_date: gameDate,
+  game_pk: Number(gameDate.slice(-2)),
+  batter_id: batterId,
+  pitcher_id: 100,
+  avg_xwoba: avgXwoba,
+  avg_hr_per_pa: avgHrPerPa,
+  avg_k_percent: 0.2,
+});
+
+const outcome = (p: BacktestPrediction, pa: number, hits: number, homeRuns: number, xwobaSum: number): MatchupOutcome => ({
+  game_pk: p.game_pk,
+  batter_id: p.batter_id,
+  pitcher_id: p.pitcher_id,
+  game_date: p.game_date,
+  pa,
+  ab: pa,
+  hits,
+  home_runs: homeRuns,
+  strikeouts: 0,
+  walks: 0,
+  xwoba_sum: xwobaSum,
+  xwoba_denom: pa,
+  xwoba: pa ? xwobaSum / pa : null,
+  game_pa: pa,
+  recorded_at: '2025-06-02T00:00:00Z',
+});
+
+const sample = (p: BacktestPrediction, pa: number, hits: number, homeRuns: number, xwobaSum: number): BacktestSample =>
+  ({ prediction: p, outcome: outcome(p, pa, hits, homeRuns, xwobaSum) });
+
+check('spearman: perfect, reversed, tied and degenerate orderings', () => {
+  close(spearman([1, 2, 3, 4], [10, 20, 30, 40]), 1, 'same order');
+  close(spearman([1, 2, 3], [3, 2, 1]), -1, 'reversed');
+  close(spearman([1, 2, 3, 4], [10, 20, 20, 40]), 0.9486832980505138, 'ties share their average rank');
+  assert.equal(spearman([1, 2], [1, 2]), null);
+  assert.equal(spearman([1, 2, 3], [5, 5, 5]), null);
+});
+
+check('backtestRate: equal-count buckets, PA-weighted', () => {
+  const samples = [0.1, 0.2, 0.3, 0.4].map((rate, i) => sample(prediction('2025-06-01', i, rate, 0.03), i + 1, 0, 0, 0));
+  const result = backtestRate(samples, {
+    predicted: s => s.prediction.avg_xwoba,
+    events: s => s.prediction.batter_id, // 0..3 events over 1..4 PA
+    pa: s => s.outcome.pa,
+  }, 2);
+  assert.equal(result.samples, 4);
+  assert.deepEqual(result.buckets.map(b => [b.count, b.pa]), [[2, 3], [2, 7]]);
+  close(result.buckets[0].meanPredicted, (0.1 * 1 + 0.2 * 2) / 3, 'bucket 1 mean prediction');
+  close(result.buckets[0].actual, 1 / 3, 'bucket 1 actual');
+  close(result.buckets[1].actual, 5 / 7, 'bucket 2 actual');
+  close(result.actual, 6 / 10, 'overall actual');
+});
+
+check('homeRunBrier: P(at least one HR) over the actual PA, against a constant rate', () => {
+  const homered = sample(prediction('2025-06-01', 1, 0.3, 0.5), 2, 1, 1, 1);
+  const didNot = sample(prediction('2025-06-01', 2, 0.3, 0), 2, 0, 0, 0.5);
+  const { brier, baselineBrier, brierSkill } = homeRunBrier([homered, didNot]);
+  // Predicted 1 - 0.5² = 0.75 and 0; the constant rate is 1 HR in 4 PA → 1 - 0.75² = 0.4375
+  close(brier, (0.25 ** 2 + 0) / 2, 'brier');
+  close(baselineBrier, (0.5625 ** 2 + 0.4375 ** 2) / 2, 'baseline brier');
+  close(brierSkill, 1 - brier! / baselineBrier!, 'skill');
+  assert.deepEqual(homeRunBrier([]), { brier: null, baselineBrier: null, brierSkill: null });
+});
+
+check('topNHitRates: each date ranked on its own, then pooled', () => {
+  const samples = [
+    sample(prediction('2025-06-01', 1, 0.400, 0.05), 4, 1, 1, 2),
+    sample(prediction('2025-06-01', 2, 0.300, 0.02), 4, 0, 0, 1),
+    sample(prediction('2025-06-02', 3, 0.250, 0.01), 4, 0, 0, 0),
+    sample(prediction('2025-06-02', 4, 0.200, 0.04), 4, 1, 0, 1),
+  ];
+  const byXwoba = topNHitRates(samples, 1, 'avg_xwoba');
+  assert.equal(byXwoba.dates, 2);
+  assert.equal(byXwoba.pairs, 2);
+  close(byXwoba.hitRate, 0.5, 'top xwOBA hit rate');
+  close(byXwoba.xwoba, 2 / 8, 'top xwOBA realized xwOBA');
+  const byHr = topNHitRates(samples, 1, 'avg_hr_per_pa');
+  close(byHr.hitRate, 1, 'top HR/PA hit rate');
+  close(byHr.homeRunRate, 0.5, 'top HR/PA HR rate');
+});
+
+check('computeBacktestMetrics: unmatched and never-faced pairs are counted, not scored', () => {
+  const faced = prediction('2025-06-01', 1, 0.35, 0.04);
+  const benched = prediction('2025-06-01', 2, 0.30, 0.03);
+  const unrecorded = prediction('2025-06-01', 3, 0.30, 0.03);
+  const metrics = computeBacktestMetrics([faced, benched, unrecorded], [outcome(faced, 3, 1, 0, 1.2), outcome(benched, 0, 0, 0, 0)]);
+  assert.equal(metrics.samples, 1);
+  assert.equal(metrics.didNotFace, 1);
+  assert.equal(metrics.unmatched, 1);
+  assert.equal(metrics.baseline.dates, 1);
+  close(metrics.xwoba.actual, 0.4, 'realized xwOBA');
+});
+
+// --- Main Execution ---
+
+let failed = 0;
+for (const { name, run } of checks) {
+  try {
+    run();
+    console.log(`✅ ${name}`);
+  } catch (err) {
+    failed++;
+    console.error(`🔴 ${name}\n   ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+console.log(`${checks.length - failed}/${checks.length} checks passed`);
+if (failed) process.exit(1);
@@ -0,0 +1,57 @@
+// scripts/compute-league-distributions.ts
+/**
+ * @file compute-league-distributions.ts
+ * @description Recomputes league means and percentile distributions per season, player type,
+ *              opponent hand and stat from player_splits, and stores them in league_distributions.
+ *              /api/matchups and the UI color scales index matchup stats against season 0.
+ *
+ * Run after uploading splits (update-savant-csvs-to-supabase.ts, with and without --weighted).
+ *
+ * Usage:
+ *   tsx scripts/compute-league-distributions.ts [--season 0,2025] [--min-pa 50]
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+import { DEFAULT_DISTRIBUTION_MIN_PA, refreshLeagueDistributions } from '../src/lib/normalization';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+function getArg(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index > -1 && process.argv[index + 1] ? process.argv[index + 1] : null;
+}
+
+async function main() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('🔴 Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in the environment variables.');
+    process.exit(1);
+  }
+  const supabase: SupabaseClient = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+  // Default: the weighted splits plus the current season
+  const seasonArg = getArg('--season');
+  const seasons = seasonArg
+    ? seasonArg.split(',').map(s => parseInt(s.trim(), 10)).filter(s => !isNaN(s))
+    : [0, new Date().getFullYear()];
+  const minPa = parseInt(getArg('--min-pa') || '', 10) || DEFAULT_DISTRIBUTION_MIN_PA;
+
+  for (const season of seasons) {
+    const written = await refreshLeagueDistributions(supabase, season, minPa);
+    if (written) {
+      console.log(`✅ Season ${season}: stored ${written} distributions (min ${minPa} PA)`);
+    } else {
+      console.warn(`⚠️ Season ${season}: no player_splits rows with PA; nothing stored.`);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('🔴 Failed to compute league distributions:', error);
+  process.exit(1);
+});
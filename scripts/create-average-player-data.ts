@@ -36,6 +36,32 @@ const SEASON_WEIGHTS: Record<number, number> = {
 
 const SEASONS_TO_CONSIDER = Object.keys(SEASON_WEIGHTS).map(Number);
 
+// Stabilization constants, in PA, for regressing each weighted rate toward the league
+// average of its player_type/vs_handedness group: regressed = (PA·x + K·league) / (PA + K).
+// A stat's constant is roughly the PA at which it is half signal, half noise, so K% and
+// batted-ball quality are trusted quickly while ISO, the wOBA family and BABIP need far more.
+// Counting stats (weightedBarrels, weightedHrs) are not regressed; HR/PA is, as weightedHrPerPa.
+const STABILIZATION_PA: Partial<Record<keyof ComputedWeightedStats, number>> = {
+  weightedKPercent: 60,
+  weightedSwingMissPercent: 60,
+  weightedAvgExitVelocity: 70,
+  weightedAvgLaunchAngle: 70,
+  weightedHyperSpeed: 70,
+  weightedHardHitPct: 80,
+  weightedBbPercent: 120,
+  weightedBarrelsPerPa: 120,
+  weightedHrPerPa: 170,
+  weightedIso: 180,
+  weightedXwoba: 200,
+  weightedXslg: 250,
+  weightedXba: 300,
+  weightedXobp: 300,
+  weightedSlg: 360,
+  weightedWoba: 450,
+  weightedObp: 460,
+  weightedBabip: 800,
+};
+
 // Define the keys from PlayerSplit that are needed for weighted calculation
 type WeightedStatCalculationKeys =
   | 'season'
@@ -86,17 +112,22 @@ interface ComputedWeightedStats {
   weightedHyperSpeed: number;
   weightedBarrelsPerPa: number;
   weightedHrs: number; // Weighted count
+  weightedHrPerPa: number; // Recency-weighted HR / PA
   weightedKPercent: number;
   weightedBbPercent: number;
   totalPA: number; // Adding this to capture sumWeight
 }
 
+// Per-stat shrinkage factors (K / (PA + K)) applied by regressToLeagueMean
+type ShrinkageFactors = Partial<Record<keyof ComputedWeightedStats, number>>;
+
 // Interface for the rows to be written to the CSV
 interface WeightedCsvRow {
   player_id: number;
   player_name: string | null;
   player_type: 'batter' | 'pitcher';
   vs_handedness: 'L' | 'R';
+  split_context: PlayerSplit['split_context']; // 'all', or home/road/day/night
   season: 0; // to represent weighted data
   season_descriptor: string;
   weighted_obp: number | null;
@@ -118,7 +149,10 @@ interface WeightedCsvRow {
   weighted_hrs: number | null;
   weighted_k_percent: number | null;
   weighted_bb_percent: number | null;
+  weighted_hr_per_pa: number | null;
   total_pa: number | null;
+  xwoba_shrinkage: number | null; // Share of weighted_xwoba that comes from the league mean
+  hr_per_pa_shrinkage: number | null; // Same for weighted_hr_per_pa
   contributing_seasons: string; // e.g., "2024,2023"
   last_updated: string;
 }
@@ -152,6 +186,7 @@ function computeWeightedStats(
   let sumHyperSpeed = 0;
   let sumBarrelsPPA = 0;
   let sumHrs = 0;
+  let sumHrPerPa = 0;
   let sumKPercent = 0;
   let sumBbPercent = 0;
 
@@ -177,6 +212,7 @@ function computeWeightedStats(
     sumHyperSpeed += w * stat.hyper_speed;
     sumBarrelsPPA += w * stat.barrels_per_pa;
     sumHrs += w * stat.hrs;
+    if (stat.pa > 0) sumHrPerPa += w * (stat.hrs / stat.pa);
     sumKPercent += w * stat.k_percent;
     sumBbPercent += w * stat.bb_percent;
 
@@ -202,6 +238,7 @@ function computeWeightedStats(
         weightedHyperSpeed: NaN,
         weightedBarrelsPerPa: NaN,
         weightedHrs: NaN,
+        weightedHrPerPa: NaN,
         weightedKPercent: NaN,
         weightedBbPercent: NaN,
         totalPA: 0,
@@ -226,12 +263,37 @@ function computeWeightedStats(
     weightedHyperSpeed: sumHyperSpeed / sumWeight,
     weightedBarrelsPerPa: sumBarrelsPPA / sumWeight,
     weightedHrs: sumHrs / sumWeight,
+    weightedHrPerPa: sumHrPerPa / sumWeight,
     weightedKPercent: sumKPercent / sumWeight,
     weightedBbPercent: sumBbPercent / sumWeight,
     totalPA: sumPA, // Total plate appearances across all seasons
   };
 }
 
+/**
+ * Regress each rate stat toward the league mean using STABILIZATION_PA.
+ * Returns the regressed stats and the shrinkage factor used for each stat.
+ * @param computed Weighted stats for one player/type/hand
+ * @param league Weighted stats for the whole player_type/vs_handedness group
+ */
+function regressToLeagueMean(
+  computed: ComputedWeightedStats,
+  league: ComputedWeightedStats
+): { regressed: ComputedWeightedStats; shrinkage: ShrinkageFactors } {
+  const regressed = { ...computed };
+  const shrinkage: ShrinkageFactors = {};
+
+  for (const [stat, k] of Object.entries(STABILIZATION_PA) as [keyof ComputedWeightedStats, number][]) {
+    const leagueValue = league[stat];
+    if (isNaN(computed[stat]) || isNaN(leagueValue)) continue;
+    const factor = k / (computed.totalPA + k);
+    regressed[stat] = computed[stat] * (1 - factor) + leagueValue * factor;
+    shrinkage[stat] = factor;
+  }
+
+  return { regressed, shrinkage };
+}
+
 function getSeasonDescriptor(): string {
   return "WEIGHTED_AVG_" + Object.entries(SEASON_WEIGHTS)
     .map(([s, w]) => `${s}_${Math.round(w * 100)}`)
@@ -290,21 +352,33 @@ async function main() {
 
   const groupedSplits = new Map<string, PlayerSplit[]>();
   for (const split of allSplitsData) {
-    const key = `${split.player_id}-${split.player_type}-${split.vs_handedness}`;
+    const key = `${split.player_id}-${split.player_type}-${split.vs_handedness}-${split.split_context}`;
     if (!groupedSplits.has(key)) {
       groupedSplits.set(key, []);
     }
     groupedSplits.get(key)!.push(split);
   }
-  console.log(`Grouped splits into ${groupedSplits.size} unique player-type-handedness combinations.`);
+  console.log(`Grouped splits into ${groupedSplits.size} unique player-type-handedness-context combinations.`);
 
   const weightedCsvRows: WeightedCsvRow[] = [];
   const seasonDescriptor = getSeasonDescriptor();
 
+  // First pass: collect the valid season inputs for every player-type-handedness group
+  type PreparedGroup = {
+    player_id: number;
+    player_type: PlayerSplit['player_type'];
+    vs_handedness: PlayerSplit['vs_handedness'];
+    split_context: PlayerSplit['split_context'];
+    playerName: string | null;
+    seasonStatsForCalc: SeasonStatInput[];
+    contributingSeasonsSet: Set<number>;
+  };
+  const preparedGroups: PreparedGroup[] = [];
+
   for (const [_groupKey, splitsInGroup] of groupedSplits.entries()) {
     if (splitsInGroup.length === 0) continue;
 
-    const { player_id, player_type, vs_handedness } = splitsInGroup[0];
+    const { player_id, player_type, vs_handedness, split_context } = splitsInGroup[0];
     const playerName = splitsInGroup.sort((a,b) => b.season - a.season).find(s => s.player_name)?.player_name || null;
 
     const seasonStatsForCalc: SeasonStatInput[] = []; // Now uses the new SeasonStatInput type
@@ -362,42 +436,71 @@ async function main() {
     }
 
     if (seasonStatsForCalc.length > 0) {
-      const computed = computeWeightedStats(seasonStatsForCalc, SEASON_WEIGHTS);
-
-      if (computed.totalPA > 0 && !isNaN(computed.weightedXwoba)) { // Check if computation was valid
-        weightedCsvRows.push({
-          player_id,
-          player_name: playerName,
-          player_type,
-          vs_handedness,
-          season: 0, // This is a weighted average, so we use 0 to indicate that
-          season_descriptor: seasonDescriptor,
-          weighted_obp: computed.weightedObp,
-          weighted_slg: computed.weightedSlg,
-          weighted_woba: computed.weightedWoba,
-          weighted_xwoba: computed.weightedXwoba,
-          weighted_xba: computed.weightedXba,
-          weighted_xobp: computed.weightedXobp,
-          weighted_xslg: computed.weightedXslg,
-          weighted_iso: computed.weightedIso,
-          weighted_babip: computed.weightedBabip,
-          weighted_barrels: computed.weightedBarrels,
-          weighted_hard_hit_pct: computed.weightedHardHitPct,
-          weighted_avg_launch_angle: computed.weightedAvgLaunchAngle,
-          weighted_avg_exit_velocity: computed.weightedAvgExitVelocity,
-          weighted_swing_miss_percent: computed.weightedSwingMissPercent,
-          weighted_hyper_speed: computed.weightedHyperSpeed,
-          weighted_barrels_per_pa: computed.weightedBarrelsPerPa,
-          weighted_hrs: computed.weightedHrs,
-          weighted_k_percent: computed.weightedKPercent,
-          weighted_bb_percent: computed.weightedBbPercent,
-          total_pa: computed.totalPA,
-          contributing_seasons: Array.from(contributingSeasonsSet).sort((a,b) => b-a).join(','),
-          last_updated: new Date().toISOString(),
-        });
-      } else {
-        console.warn(`Skipping player ${player_id} (${player_type} vs ${vs_handedness}) due to zero total weight or invalid computed stats.`);
-      }
+      preparedGroups.push({ player_id, player_type, vs_handedness, split_context, playerName, seasonStatsForCalc, contributingSeasonsSet });
+    }
+  }
+
+  // League means per player_type/vs_handedness, weighted exactly like the players themselves
+  const leagueMeans = new Map<string, ComputedWeightedStats>();
+  for (const playerType of ['batter', 'pitcher'] as const) {
+    for (const hand of ['L', 'R'] as const) {
+      const leagueInputs = preparedGroups
+        .filter(g => g.player_type === playerType && g.vs_handedness === hand && g.split_context === 'all')
+        .flatMap(g => g.seasonStatsForCalc);
+      if (leagueInputs.length === 0) continue;
+      const leagueMean = computeWeightedStats(leagueInputs, SEASON_WEIGHTS);
+      leagueMeans.set(`${playerType}-${hand}`, leagueMean);
+      console.log(`League mean (${playerType} vs ${hand}): xwOBA ${leagueMean.weightedXwoba.toFixed(3)}, K% ${(leagueMean.weightedKPercent * 100).toFixed(1)} over ${leagueMean.totalPA} PA`);
+    }
+  }
+
+  // Second pass: weight, regress toward the league mean, and build the CSV rows.
+  // Home/road and day/night splits stay unregressed: ingest regresses them toward the
+  // player's own regular split instead (gameContext.ts), which is the better prior.
+  for (const { player_id, player_type, vs_handedness, split_context, playerName, seasonStatsForCalc, contributingSeasonsSet } of preparedGroups) {
+    const weighted = computeWeightedStats(seasonStatsForCalc, SEASON_WEIGHTS);
+    const leagueMean = split_context === 'all' ? leagueMeans.get(`${player_type}-${vs_handedness}`) : undefined;
+    const { regressed: computed, shrinkage } = leagueMean
+      ? regressToLeagueMean(weighted, leagueMean)
+      : { regressed: weighted, shrinkage: {} as ShrinkageFactors };
+
+    if (computed.totalPA > 0 && !isNaN(computed.weightedXwoba)) { // Check if computation was valid
+      weightedCsvRows.push({
+        player_id,
+        player_name: playerName,
+        player_type,
+        vs_handedness,
+        split_context,
+        season: 0, // This is a weighted average, so we use 0 to indicate that
+        season_descriptor: seasonDescriptor,
+        weighted_obp: computed.weightedObp,
+        weighted_slg: computed.weightedSlg,
+        weighted_woba: computed.weightedWoba,
+        weighted_xwoba: computed.weightedXwoba,
+        weighted_xba: computed.weightedXba,
+        weighted_xobp: computed.weightedXobp,
+        weighted_xslg: computed.weightedXslg,
+        weighted_iso: computed.weightedIso,
+        weighted_babip: computed.weightedBabip,
+        weighted_barrels: computed.weightedBarrels,
+        weighted_hard_hit_pct: computed.weightedHardHitPct,
+        weighted_avg_launch_angle: computed.weightedAvgLaunchAngle,
+        weighted_avg_exit_velocity: computed.weightedAvgExitVelocity,
+        weighted_swing_miss_percent: computed.weightedSwingMissPercent,
+        weighted_hyper_speed: computed.weightedHyperSpeed,
+        weighted_barrels_per_pa: computed.weightedBarrelsPerPa,
+        weighted_hrs: computed.weightedHrs,
+        weighted_hr_per_pa: computed.weightedHrPerPa,
+        weighted_k_percent: computed.weightedKPercent,
+        weighted_bb_percent: computed.weightedBbPercent,
+        total_pa: computed.totalPA,
+        xwoba_shrinkage: shrinkage.weightedXwoba ?? null,
+        hr_per_pa_shrinkage: shrinkage.weightedHrPerPa ?? null,
+        contributing_seasons: Array.from(contributingSeasonsSet).sort((a,b) => b-a).join(','),
+        last_updated: new Date().toISOString(),
+      });
+    } else {
+      console.warn(`Skipping player ${player_id} (${player_type} vs ${vs_handedness}, ${split_context}) due to zero total weight or invalid computed stats.`);
     }
   }
 
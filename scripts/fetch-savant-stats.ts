@@ -7,10 +7,22 @@
  *              The downloaded CSVs are saved to an output directory.
  *
  * Usage:
- *   tsx scripts/fetch-savant-stats.ts
+ *   tsx scripts/fetch-savant-stats.ts [--season 2025] [--as-of 2025-06-27] [--no-form] [--no-context]
  *
  * This script will download CSV files containing Statcast data for specified seasons,
  * player types (batter/pitcher), and handedness matchups.
+ *
+ * It also downloads rolling recent-form windows (last 14 and 30 days through --as-of,
+ * default yesterday) as savant_form_<N>d_<end date>_<type>_vs_<hand>H.csv, which
+ * update-savant-csvs-to-supabase.ts loads into player_form_splits. --no-form skips them.
+ *
+ * For each season it also downloads the context splits: home and road files
+ * (savant_stats_<season>_<home|road>_<type>_vs_<hand>H.csv, Savant's home_road filter) and
+ * per-game rows by month (savant_games_<season>_m<MM>_<type>_vs_<hand>H.csv), which the
+ * upload script classifies into day and night splits. --no-context skips them.
+ *
+ * HTTP_FIXTURE_MODE=record saves each Savant response under HTTP_FIXTURE_DIR;
+ * HTTP_FIXTURE_MODE=replay rebuilds the CSVs from those fixtures without network access.
  */
 
 import fs from 'fs/promises';
@@ -19,6 +31,10 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 
+import { addDays } from '../src/lib/dateRange';
+import { fixtureFetch, getFixtureMode } from '../src/lib/httpFixtures';
+import { FORM_WINDOWS } from '../src/lib/recentForm';
+
 // --- File Path Setup ---
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -97,6 +113,73 @@ const SAVANT_CSV_OUTPUT_DIR = path.join(__dirname, 'savant_csv_output'); // Outp
 
 const DOWNLOAD_DELAY_MS = 15000; // 15 seconds delay between downloads
 
+// Savant's home_road values, by the split_context they feed
+const HOME_ROAD_CONTEXTS: { context: 'home' | 'road'; homeRoad: string }[] = [
+  { context: 'home', homeRoad: 'Home' },
+  { context: 'road', homeRoad: 'Road' },
+];
+
+// Months the per-game downloads are split into (March openers through October);
+// one season of per-game rows in a single request is too large for the CSV export
+const SEASON_MONTHS = [3, 4, 5, 6, 7, 8, 9, 10];
+
+// --- Download Helpers ---
+
+let firstDownload = true;
+
+// Waits between Savant requests (except before the first one, and never in replay mode)
+async function politePause(): Promise<void> {
+  // Replays don't hit Savant, so there's nothing to be polite about
+  if (!firstDownload && getFixtureMode() !== 'replay') {
+    console.log(`⏳ Waiting for ${DOWNLOAD_DELAY_MS / 1000} seconds before next download...`);
+    await new Promise(resolve => setTimeout(resolve, DOWNLOAD_DELAY_MS));
+  } else {
+    firstDownload = false;
+  }
+}
+
+// Query parameters for one player type against one opponent hand
+function buildSplitParams(playerType: 'batter' | 'pitcher', opponentHand: 'R' | 'L'): URLSearchParams {
+  const params = new URLSearchParams(COMMON_PARAMS);
+  params.set('player_type', playerType);
+
+  if (playerType === 'batter') {
+    // For batters, specify the pitcher's throwing hand
+    params.set('pitcher_throws', opponentHand);
+    params.set('batter_stands', ''); // Batter's own stance is not filtered here
+  } else { // playerType === 'pitcher'
+    // For pitchers, specify the batter's standing side
+    params.set('batter_stands', opponentHand);
+    params.set('pitcher_throws', ''); // Pitcher's own throwing hand is not filtered here
+  }
+  return params;
+}
+
+async function downloadCsv(url: string, description: string, filePath: string): Promise<void> {
+  await politePause();
+
+  console.log(`Attempting to download: ${description}`);
+  console.log(`  URL: ${url}`);
+
+  try {
+    const response = await fixtureFetch(url);
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => 'Could not read error body');
+      console.error(`  ❌ Error fetching CSV for ${description}: ${response.status} ${response.statusText}`);
+      console.error(`     Response body: ${errorBody.substring(0, 500)}${errorBody.length > 500 ? '...' : ''}`);
+      console.log('---');
+      return; // Skip to the next URL
+    }
+
+    const csvData = await response.text();
+    await fs.writeFile(filePath, csvData);
+    console.log(`  ✅ Successfully downloaded and saved to: ${filePath}`);
+  } catch (error) {
+    console.error(`  ❌ Failed to download or save CSV for ${description}:`, error instanceof Error ? error.message : error);
+  }
+  console.log('---');
+}
+
 // --- Function to Construct URLs and Download CSVs ---
 
 async function constructAndDownloadSavantCsvs(targetSeasons: number[]): Promise<void> {
@@ -104,63 +187,93 @@ async function constructAndDownloadSavantCsvs(targetSeasons: number[]): Promise<
   await fs.mkdir(SAVANT_CSV_OUTPUT_DIR, { recursive: true });
   console.log(`📂 CSVs will be saved to: ${SAVANT_CSV_OUTPUT_DIR}\n`);
 
-  let firstDownload = true;
-
   for (const season of targetSeasons) {
     for (const playerType of PLAYER_TYPES) {
       for (const opponentHand of HANDEDNESS_OPPONENT) {
-
-        const params = new URLSearchParams(COMMON_PARAMS);
-
+        const params = buildSplitParams(playerType, opponentHand);
         params.set('hfSea', `${season}|`); // Set season (e.g., "2024|")
-        params.set('player_type', playerType);
-
-        if (playerType === 'batter') {
-          // For batters, specify the pitcher's throwing hand
-          params.set('pitcher_throws', opponentHand);
-          params.set('batter_stands', ''); // Batter's own stance is not filtered here
-        } else { // playerType === 'pitcher'
-          // For pitchers, specify the batter's standing side
-          params.set('batter_stands', opponentHand);
-          params.set('pitcher_throws', ''); // Pitcher's own throwing hand is not filtered here
-        }
 
         const url = `${BASE_SAVANT_URL}?${params.toString()}`;
         const description = `Season: ${season}, Type: ${playerType}, vs ${opponentHand}H Opponent`;
         const fileName = `savant_stats_${season}_${playerType}_vs_${opponentHand}H.csv`;
-        const filePath = path.join(SAVANT_CSV_OUTPUT_DIR, fileName);
+        await downloadCsv(url, description, path.join(SAVANT_CSV_OUTPUT_DIR, fileName));
+      }
+    }
+  }
+  console.log('All downloads attempted.');
+}
 
-        if (!firstDownload) {
-          console.log(`⏳ Waiting for ${DOWNLOAD_DELAY_MS / 1000} seconds before next download...`);
-          await new Promise(resolve => setTimeout(resolve, DOWNLOAD_DELAY_MS));
-        } else {
-          firstDownload = false;
+// --- Home/Road and Day/Night Context Splits ---
+
+/** Home and road splits, plus per-game rows by month for the day/night classification. */
+async function downloadContextCsvs(targetSeasons: number[]): Promise<void> {
+  console.log('\nDownloading home/road splits and per-game rows for day/night...\n');
+  await fs.mkdir(SAVANT_CSV_OUTPUT_DIR, { recursive: true });
+
+  for (const season of targetSeasons) {
+    for (const playerType of PLAYER_TYPES) {
+      for (const opponentHand of HANDEDNESS_OPPONENT) {
+        for (const { context, homeRoad } of HOME_ROAD_CONTEXTS) {
+          const params = buildSplitParams(playerType, opponentHand);
+          params.set('hfSea', `${season}|`);
+          params.set('home_road', homeRoad);
+
+          const url = `${BASE_SAVANT_URL}?${params.toString()}`;
+          const description = `Season: ${season} (${context}), Type: ${playerType}, vs ${opponentHand}H Opponent`;
+          const fileName = `savant_stats_${season}_${context}_${playerType}_vs_${opponentHand}H.csv`;
+          await downloadCsv(url, description, path.join(SAVANT_CSV_OUTPUT_DIR, fileName));
         }
 
-        console.log(`Attempting to download: ${description}`);
-        console.log(`  URL: ${url}`);
-
-        try {
-          const response = await fetch(url);
-          if (!response.ok) {
-            const errorBody = await response.text().catch(() => 'Could not read error body');
-            console.error(`  ❌ Error fetching CSV for ${description}: ${response.status} ${response.statusText}`);
-            console.error(`     Response body: ${errorBody.substring(0, 500)}${errorBody.length > 500 ? '...' : ''}`);
-            console.log('---');
-            continue; // Skip to the next URL
-          }
-
-          const csvData = await response.text();
-          await fs.writeFile(filePath, csvData);
-          console.log(`  ✅ Successfully downloaded and saved to: ${filePath}`);
-        } catch (error) {
-          console.error(`  ❌ Failed to download or save CSV for ${description}:`, error instanceof Error ? error.message : error);
+        // Day/night has no Savant filter: one row per player and game date, classified on upload
+        for (const month of SEASON_MONTHS) {
+          const params = buildSplitParams(playerType, opponentHand);
+          params.set('hfSea', `${season}|`);
+          params.set('hfMo', `${month}|`);
+          params.set('group_by', 'name-date');
+          params.set('min_pas', '1'); // A single game rarely reaches the season minimum
+
+          const url = `${BASE_SAVANT_URL}?${params.toString()}`;
+          const monthLabel = String(month).padStart(2, '0');
+          const description = `Season: ${season}, month ${monthLabel} per game, Type: ${playerType}, vs ${opponentHand}H Opponent`;
+          const fileName = `savant_games_${season}_m${monthLabel}_${playerType}_vs_${opponentHand}H.csv`;
+          await downloadCsv(url, description, path.join(SAVANT_CSV_OUTPUT_DIR, fileName));
         }
-        console.log('---');
       }
     }
   }
-  console.log('All downloads attempted.');
+  console.log('All context downloads attempted.');
+}
+
+// --- Recent-Form Windows ---
+
+/** Rolling windows ending on `asOfDate` (inclusive), one CSV per window, player type and opponent hand. */
+async function downloadFormWindowCsvs(asOfDate: string): Promise<void> {
+  console.log(`\nDownloading recent-form windows (${FORM_WINDOWS.join('/')} days) through ${asOfDate}...\n`);
+  await fs.mkdir(SAVANT_CSV_OUTPUT_DIR, { recursive: true });
+
+  for (const windowDays of FORM_WINDOWS) {
+    const startDate = addDays(asOfDate, -(windowDays - 1));
+    // Every season the window touches (only matters for windows crossing New Year)
+    const firstSeason = parseInt(startDate.slice(0, 4), 10);
+    const lastSeason = parseInt(asOfDate.slice(0, 4), 10);
+    const seasons = Array.from({ length: lastSeason - firstSeason + 1 }, (_, i) => `${lastSeason - i}|`).join('');
+
+    for (const playerType of PLAYER_TYPES) {
+      for (const opponentHand of HANDEDNESS_OPPONENT) {
+        const params = buildSplitParams(playerType, opponentHand);
+        params.set('hfSea', seasons);
+        params.set('game_date_gt', startDate);
+        params.set('game_date_lt', asOfDate);
+        params.set('min_pas', '1'); // Short windows are regressed at ingest, so keep small samples
+
+        const url = `${BASE_SAVANT_URL}?${params.toString()}`;
+        const description = `Last ${windowDays} days (${startDate} → ${asOfDate}), Type: ${playerType}, vs ${opponentHand}H Opponent`;
+        const fileName = `savant_form_${windowDays}d_${asOfDate}_${playerType}_vs_${opponentHand}H.csv`;
+        await downloadCsv(url, description, path.join(SAVANT_CSV_OUTPUT_DIR, fileName));
+      }
+    }
+  }
+  console.log('All form-window downloads attempted.');
 }
 
 // --- Main Execution ---
@@ -184,8 +297,20 @@ async function main() {
     console.log('Fetching all historical seasons.');
   }
 
+  // Form windows end yesterday (the last complete day) unless --as-of says otherwise
+  const asOfIndex = process.argv.indexOf('--as-of');
+  const asOfDate = asOfIndex > -1 && process.argv[asOfIndex + 1]
+    ? process.argv[asOfIndex + 1]
+    : addDays(new Date().toISOString().slice(0, 10), -1);
+
   try {
     await constructAndDownloadSavantCsvs(targetSeasons);
+    if (!process.argv.includes('--no-context')) {
+      await downloadContextCsvs(targetSeasons);
+    }
+    if (!process.argv.includes('--no-form')) {
+      await downloadFormWindowCsvs(asOfDate);
+    }
     console.log('\n🎉 Script finished.');
   } catch (error) {
     console.error('🔴 An unexpected error occurred during script execution:', error);
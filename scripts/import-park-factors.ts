@@ -0,0 +1,112 @@
+// scripts/import-park-factors.ts
+/**
+ * @file import-park-factors.ts
+ * @description Imports per-venue, per-batter-hand park factors from a CSV file into the
+ *              park_factors table. Ingest prefers these rows and only estimates a factor
+ *              from venue dimensions/elevation when a venue has no imported row.
+ *
+ * Expected CSV headers:
+ *   venue_id, batter_hand, hr_factor, doubles_triples_factor, xwobacon_factor
+ *
+ * Factors may be ratios (1.15) or Savant-style indexes (115); anything above 3 is
+ * treated as an index and divided by 100. Empty cells are stored as NULL (neutral).
+ *
+ * Usage:
+ *   tsx scripts/import-park-factors.ts --file path/to/park_factors.csv [--source savant_2022_2024]
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import Papa from 'papaparse';
+import dotenv from 'dotenv';
+
+import { Database } from '../src/types/database.types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+type ParkFactorInsert = Database['public']['Tables']['park_factors']['Insert'];
+
+const DEFAULT_CSV_PATH = path.join(__dirname, 'park_factors.csv');
+
+function getArg(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index > -1 && process.argv[index + 1] ? process.argv[index + 1] : null;
+}
+
+function parseFactor(value: string | undefined | null): number | null {
+  if (value === null || value === undefined || value.trim() === '' || value.trim() === '--') {
+    return null;
+  }
+  const num = parseFloat(value);
+  if (isNaN(num) || num <= 0) return null;
+  const ratio = num > 3 ? num / 100 : num;
+  return Math.round(ratio * 1000) / 1000;
+}
+
+async function main() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('🔴 Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in the environment variables.');
+    process.exit(1);
+  }
+  const supabase: SupabaseClient = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+  const filePath = path.resolve(getArg('--file') || DEFAULT_CSV_PATH);
+  const source = getArg('--source') || path.basename(filePath, '.csv');
+  console.log(`Reading park factors from: ${filePath} (source: ${source})`);
+
+  const csvData = await fs.readFile(filePath, 'utf-8');
+  const parseResult = Papa.parse<Record<string, string>>(csvData, {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: false,
+  });
+
+  if (parseResult.errors.length > 0) {
+    console.error('❌ Error parsing park factors CSV:', parseResult.errors);
+    process.exit(1);
+  }
+
+  const records: ParkFactorInsert[] = [];
+  for (const row of parseResult.data) {
+    const venueId = parseInt(row.venue_id, 10);
+    const batterHand = row.batter_hand?.trim().toUpperCase();
+    if (isNaN(venueId) || (batterHand !== 'L' && batterHand !== 'R')) {
+      console.warn(`  ⚠️ Skipping row with invalid venue_id/batter_hand: ${JSON.stringify(row)}`);
+      continue;
+    }
+    records.push({
+      venue_id: venueId,
+      batter_hand: batterHand,
+      hr_factor: parseFactor(row.hr_factor),
+      doubles_triples_factor: parseFactor(row.doubles_triples_factor),
+      xwobacon_factor: parseFactor(row.xwobacon_factor),
+      source,
+      last_updated: new Date().toISOString(),
+    });
+  }
+
+  if (!records.length) {
+    console.log('ℹ️ No valid park factor rows to import.');
+    return;
+  }
+
+  console.log(`⏳ Upserting ${records.length} park factor rows...`);
+  const { error } = await supabase
+    .from('park_factors')
+    .upsert(records, { onConflict: 'venue_id,batter_hand' });
+
+  if (error) {
+    console.error('❌ Supabase upsert error for park_factors:', error.message);
+    process.exit(1);
+  }
+  console.log(`✅ Imported ${records.length} park factor rows.`);
+}
+
+main().catch(error => {
+  console.error('🔴 An unexpected error occurred during script execution:', error);
+  process.exit(1);
+});
@@ -54,11 +54,11 @@ async function main() {
   // 1. Populate static data (teams, venues, players) - run less frequently
   await runScript('populate-static-data.ts');
 
-  // 2. Fetch raw Savant stats CSVs
+  // 2. Fetch raw Savant stats CSVs (plus home/road and per-game files, and the 14/30-day recent-form windows)
   const currentYear = new Date().getFullYear();
   await runScript('fetch-savant-stats.ts', ['--season', currentYear.toString()]);
 
-  // 3. Upload raw Savant CSVs to Supabase
+  // 3. Upload raw Savant CSVs to Supabase (per-game files become day/night splits; form windows go to player_form_splits)
   await runScript('update-savant-csvs-to-supabase.ts');
 
   // 4. Create weighted average player data CSV
@@ -67,12 +67,21 @@ async function main() {
   // 5. Upload weighted average player data CSV to Supabase
   await runScript('update-savant-csvs-to-supabase.ts', ['--weighted']);
 
+  // 5.5 Recompute league distributions (indexes and percentiles) from the new splits
+  await runScript('compute-league-distributions.ts');
+
   // 6. Call API to add games (updates game schedule and probable pitchers)
   await callApiEndpoint('add-games');
 
   // 7. Call API to ingest data (calculates and upserts daily matchups)
   await callApiEndpoint('ingest');
 
+  // 8. Refresh career batter-vs-pitcher history for today's pairs (read by the next ingest and /api/matchups)
+  await runScript('refresh-batter-vs-pitcher.ts');
+
+  // 9. Record yesterday's actual results for its final games (matchup_outcomes)
+  await runScript('record-matchup-outcomes.ts');
+
   console.log('\n🎉 Data pipeline orchestration completed successfully!');
 }
 
@@ -6,6 +6,9 @@ type Player = Database['public']['Tables']['players']['Row'];
 type Team = Database['public']['Tables']['teams']['Row'];
 type Venue = Database['public']['Tables']['venues']['Row']; 
 
+import { mlbStatsApi, MlbRosterEntry, MlbTeam } from '../src/lib/mlbStatsApi';
+import { getFixtureMode } from '../src/lib/httpFixtures';
+
 import * as dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -28,59 +31,22 @@ if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
 const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 console.log('Supabase client initialized.');
 
-const MLB_API_BASE_URL = 'https://statsapi.mlb.com/api/v1';
 const API_CALL_DELAY_MS = 2000; // 2 second delay between roster fetches
 
 /**
  * Fetches all MLB teams (sportId=1).
  * API Endpoint: https://statsapi.mlb.com/api/v1/teams?sportId=1
  */
-async function fetchAllMLBTeams(): Promise<any[]> {
-  const url = `${MLB_API_BASE_URL}/teams?sportId=1`;
-  console.log(`Fetching teams from: ${url}`);
+async function fetchAllMLBTeams(): Promise<MlbTeam[]> {
+  console.log('Fetching MLB teams...');
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status} - ${await response.text()}`);
-    }
-    const data = await response.json();
-    if (!data.teams || !Array.isArray(data.teams)) {
-      console.error('Unexpected API response structure for teams:', data);
-      throw new Error('API did not return a teams array.');
-    }
-    return data.teams;
+    return await mlbStatsApi.getTeams();
   } catch (error) {
     console.error('Failed to fetch MLB teams:', error);
     throw error;
   }
 }
 
-/**
- * Fetches all MLB venues.
- * API Endpoint: https://statsapi.mlb.com/api/v1/venues
- * Note: This endpoint might require specific sportId or other params if it returns too much data.
- * For now, we'll assume it returns MLB venues or we filter them.
- * A more robust approach might be to get venue IDs from the teams endpoint first.
- */
-async function fetchAllMLBVenues(): Promise<any[]> {
-  const url = `${MLB_API_BASE_URL}/venues?sportId=1`;
-  console.log(`Fetching venues from: ${url}`);
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status} - ${await response.text()}`);
-    }
-    const data = await response.json();
-    if (!data.venues || !Array.isArray(data.venues)) {
-      console.error('Unexpected API response structure for venues:', data);
-      throw new Error('API did not return a venues array.');
-    }
-    return data.venues;
-  } catch (error) {
-    console.error('Failed to fetch MLB venues:', error);
-    throw error;
-  }
-}
 /**
  * Populates the 'teams' table in Supabase with the fetched MLB team data.
  */
@@ -92,20 +58,20 @@ async function populateTeamsTable() {
       return;
     }
 
-    const teamsToInsert: Omit<Team, 'last_updated'>[] = apiTeams.map((apiTeam: any) => ({
+    const teamsToInsert: Omit<Team, 'last_updated'>[] = apiTeams.map(apiTeam => ({
       id: apiTeam.id,
       name: apiTeam.name,
       venue_id: apiTeam.venue.id,
       abbreviation: apiTeam.abbreviation,
-      nickname: apiTeam.teamName, // teamName is commonly used as the nickname
-      location_name: apiTeam.locationName,
+      nickname: apiTeam.teamName ?? null, // teamName is commonly used as the nickname
+      location_name: apiTeam.locationName ?? null,
       league_id: apiTeam.league.id,
-      league_name: apiTeam.league.name,
+      league_name: apiTeam.league.name ?? null,
       division_id: apiTeam.division.id,
-      division_name: apiTeam.division.name,
-      short_name: apiTeam.shortName,
+      division_name: apiTeam.division.name ?? null,
+      short_name: apiTeam.shortName ?? null,
       venue_name_cache: apiTeam.venue.name || null, // Cache the venue name if available
-      active: apiTeam.active
+      active: apiTeam.active ?? null
     }));
 
     console.log(`Attempting to upsert ${teamsToInsert.length} teams into Supabase...`);
@@ -155,15 +121,14 @@ async function populateVenuesTable() {
     const venuesToInsert: Omit<Venue, 'last_updated'>[] = [];
 
     for (const venueId of venueIds) {
-      const url = `${MLB_API_BASE_URL}/venues/${venueId}?hydrate=location,fieldInfo`;
-      const response = await fetch(url);
-      if (!response.ok) {
-        console.warn(`Failed to fetch details for venue ID ${venueId}: ${response.status}`);
+      let apiVenue;
+      try {
+        apiVenue = await mlbStatsApi.getVenue(venueId, { hydrate: 'location,fieldInfo' });
+      } catch (error) {
+        console.warn(`Failed to fetch details for venue ID ${venueId}:`, error);
         continue;
       }
-      const venueData = await response.json();
-      if (venueData.venues && venueData.venues.length > 0) {
-        const apiVenue = venueData.venues[0];
+      if (apiVenue) {
         venuesToInsert.push({
           id: apiVenue.id,
           name: apiVenue.name || null,
@@ -173,15 +138,16 @@ async function populateVenuesTable() {
           city: apiVenue.location?.city || null,
           state: apiVenue.location?.stateAbbrev || apiVenue.location?.state || null, // Prefer abbreviation if available
           postal_code: apiVenue.location?.postalCode || null,
-          latitude: apiVenue.location?.defaultCoordinates?.latitude ? parseFloat(apiVenue.location.defaultCoordinates.latitude) : null,
-          longitude: apiVenue.location?.defaultCoordinates?.longitude ? parseFloat(apiVenue.location.defaultCoordinates.longitude) : null,
-          elevation: apiVenue.location?.elevation ? parseInt(apiVenue.location.elevation) : null,
+          latitude: apiVenue.location?.defaultCoordinates?.latitude ? Number(apiVenue.location.defaultCoordinates.latitude) : null,
+          longitude: apiVenue.location?.defaultCoordinates?.longitude ? Number(apiVenue.location.defaultCoordinates.longitude) : null,
+          elevation: apiVenue.location?.elevation ? Math.trunc(Number(apiVenue.location.elevation)) : null,
+          center_field_bearing: apiVenue.location?.azimuthAngle != null ? Number(apiVenue.location.azimuthAngle) : null,
           roof_type: apiVenue.fieldInfo?.roofType || null,
-          field_left_line: apiVenue.fieldInfo?.leftLine || null,
-          field_left_center: apiVenue.fieldInfo?.leftCenter || null,
-          field_center: apiVenue.fieldInfo?.center || null,
-          field_right_center: apiVenue.fieldInfo?.rightCenter || null,
-          field_right_line: apiVenue.fieldInfo?.rightLine || null,
+          field_left_line: Number(apiVenue.fieldInfo?.leftLine) || null,
+          field_left_center: Number(apiVenue.fieldInfo?.leftCenter) || null,
+          field_center: Number(apiVenue.fieldInfo?.center) || null,
+          field_right_center: Number(apiVenue.fieldInfo?.rightCenter) || null,
+          field_right_line: Number(apiVenue.fieldInfo?.rightLine) || null,
         });
       }
     }
@@ -212,20 +178,10 @@ async function populateVenuesTable() {
  * Fetches roster for a given teamId and extracts player data.
  * API Endpoint: https://statsapi.mlb.com/api/v1/teams/{teamId}/roster?hydrate=person
  */
-async function fetchRosterForTeam(teamId: number): Promise<any[]> {
-  const url = `${MLB_API_BASE_URL}/teams/${teamId}/roster?hydrate=person`;
-  console.log(`Fetching roster for team ID ${teamId} from: ${url}`);
+async function fetchRosterForTeam(teamId: number): Promise<MlbRosterEntry[]> {
+  console.log(`Fetching roster for team ID ${teamId}...`);
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status} - ${await response.text()}`);
-    }
-    const data = await response.json();
-    if (!data.roster || !Array.isArray(data.roster)) {
-      console.warn(`Unexpected API response structure for team ${teamId} roster, or roster is empty:`, data);
-      return []; // Return empty array if roster is not found or not an array
-    }
-    return data.roster;
+    return await mlbStatsApi.getRoster(teamId, { hydrate: 'person' });
   } catch (error) {
     console.error(`Failed to fetch roster for team ID ${teamId}:`, error);
     return []; // Return empty on error to not break the main loop
@@ -250,12 +206,12 @@ async function populatePlayersTable() {
       if (!apiTeam.id) continue;
 
       const roster = await fetchRosterForTeam(apiTeam.id);
-      roster.forEach((rosterEntry: any) => {
+      roster.forEach(rosterEntry => {
         const person = rosterEntry.person;
         if (person && person.id && !allPlayersMap.has(person.id)) {
           allPlayersMap.set(person.id, {
             player_id: person.id,
-            full_name: person.fullName,
+            full_name: person.fullName ?? '',
             current_age: person.currentAge || null,
             height: person.height || null,
             weight: person.weight || null,
@@ -267,8 +223,10 @@ async function populatePlayersTable() {
         }
       });
 
-      // Delay to avoid overwhelming the API
-      await new Promise(resolve => setTimeout(resolve, API_CALL_DELAY_MS));
+      // Delay to avoid overwhelming the API (replays never reach it)
+      if (getFixtureMode() !== 'replay') {
+        await new Promise(resolve => setTimeout(resolve, API_CALL_DELAY_MS));
+      }
     }
 
     const playersToInsert = Array.from(allPlayersMap.values());
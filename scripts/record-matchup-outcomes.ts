@@ -0,0 +1,71 @@
+// scripts/record-matchup-outcomes.ts
+/**
+ * @file record-matchup-outcomes.ts
+ * @description Records what actually happened in each matchup: for every final game on a date,
+ *              the PA, hits, HR, K, BB and PA-level xwOBA of each starter/bulk pair in
+ *              daily_matchups, from the game's Statcast play-by-play, into matchup_outcomes.
+ *
+ * Games that already have outcomes are skipped unless --force is given, so the script can run
+ * again later for games Statcast hadn't published yet. Pass --start/--end to backfill a range.
+ *
+ * Usage:
+ *   tsx scripts/record-matchup-outcomes.ts [--date 2025-06-27 | --start 2025-04-01 --end 2025-06-27]
+ *                                          [--delay-ms 5000] [--force] [--dry-run]
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+import { addDays, parseDateRangeQuery } from '../src/lib/dateRange';
+import { BVP_REQUEST_DELAY_MS } from '../src/lib/batterVsPitcher';
+import { recordMatchupOutcomes } from '../src/lib/matchupOutcomes';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+function getArg(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index > -1 && process.argv[index + 1] ? process.argv[index + 1] : null;
+}
+
+async function main() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('🔴 Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in the environment variables.');
+    process.exit(1);
+  }
+  const supabase: SupabaseClient = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+  // Default: yesterday, by the same PT-shifted "today" as /api/matchups
+  const now = new Date();
+  now.setHours(now.getHours() - 8);
+  const range = parseDateRangeQuery(getArg('--start') ?? undefined, getArg('--end') ?? undefined);
+  if (range && 'error' in range) {
+    console.error(`🔴 ${range.error}`);
+    process.exit(1);
+  }
+  const dates = range ? range.dates : [getArg('--date') || addDays(now.toISOString().slice(0, 10), -1)];
+
+  const delayArg = parseInt(getArg('--delay-ms') || '', 10);
+  const delayMs = isNaN(delayArg) ? BVP_REQUEST_DELAY_MS : Math.max(0, delayArg);
+  const dryRun = process.argv.includes('--dry-run');
+  const force = process.argv.includes('--force');
+
+  if (dryRun) console.log('🧪 Dry run: nothing will be written');
+  const failed: number[] = [];
+  for (const gameDate of dates) {
+    const result = await recordMatchupOutcomes(supabase, gameDate, { dryRun, force, delayMs });
+    failed.push(...result.failedGames);
+    console.log(`✅ ${gameDate}: ${result.rows} outcomes across ${result.recordedGames} games (${result.finalGames} final, ${result.alreadyRecorded} already recorded)`);
+  }
+  if (failed.length) {
+    console.warn(`⚠️ No play-by-play yet for games ${failed.join(', ')}; run again later to record them.`);
+  }
+}
+
+main().catch(error => {
+  console.error('🔴 Failed to record matchup outcomes:', error);
+  process.exit(1);
+});
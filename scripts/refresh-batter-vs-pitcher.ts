@@ -0,0 +1,59 @@
+// scripts/refresh-batter-vs-pitcher.ts
+/**
+ * @file refresh-batter-vs-pitcher.ts
+ * @description Brings batter_vs_pitcher (career head-to-head PA, xwOBA, K, HR) up to date for
+ *              every batter/pitcher pair in a date's daily_matchups. Incremental: each pair only
+ *              fetches Statcast pitches after the last game date it already includes.
+ *
+ * Run after ingest, since the pairs come from daily_matchups. Ingest reads the stored history
+ * on its next run (and blends it into avg_xwoba when bvpWeight / BVP_MODEL_WEIGHT is set);
+ * /api/matchups attaches it to every row.
+ *
+ * Usage:
+ *   tsx scripts/refresh-batter-vs-pitcher.ts [--date 2025-06-28] [--delay-ms 5000] [--dry-run]
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+import { BVP_REQUEST_DELAY_MS, refreshBatterVsPitcher } from '../src/lib/batterVsPitcher';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+function getArg(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index > -1 && process.argv[index + 1] ? process.argv[index + 1] : null;
+}
+
+async function main() {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('🔴 Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in the environment variables.');
+    process.exit(1);
+  }
+  const supabase: SupabaseClient = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+
+  // Same PT-shifted "today" as /api/matchups
+  const now = new Date();
+  now.setHours(now.getHours() - 8);
+  const gameDate = getArg('--date') || now.toISOString().slice(0, 10);
+  const delayArg = parseInt(getArg('--delay-ms') || '', 10);
+  const delayMs = isNaN(delayArg) ? BVP_REQUEST_DELAY_MS : Math.max(0, delayArg);
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (dryRun) console.log('🧪 Dry run: nothing will be written');
+  const result = await refreshBatterVsPitcher(supabase, gameDate, { dryRun, delayMs });
+
+  console.log(`✅ ${gameDate}: ${result.updated} pairs refreshed across ${result.pitchers - result.failedPitchers.length}/${result.pitchers} pitchers, ${result.newPlateAppearances} new PA (${result.pairs} pairs in matchups)`);
+  if (result.failedPitchers.length) {
+    console.warn(`⚠️ Statcast searches failed for pitchers ${result.failedPitchers.join(', ')}; their pairs will be retried next run.`);
+  }
+}
+
+main().catch(error => {
+  console.error('🔴 Failed to refresh batter-vs-pitcher history:', error);
+  process.exit(1);
+});
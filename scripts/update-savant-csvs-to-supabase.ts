@@ -8,12 +8,16 @@ import Papa from 'papaparse';
 import dotenv from 'dotenv';
 
 import { Database } from '../src/types/database.types';
+import { buildDayNightCalendar, DayNight } from '../src/lib/gameContext';
+import { mlbStatsApi } from '../src/lib/mlbStatsApi';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
 type PlayerSplit = Database['public']['Tables']['player_splits']['Row'];
+type PlayerFormSplit = Database['public']['Tables']['player_form_splits']['Row'];
+type SplitContext = Database['public']['Enums']['split_context'];
 
 const SAVANT_CSV_INPUT_DIR = path.join(__dirname, 'savant_csv_output'); // Input directory for downloaded CSVs
 const WEIGHTED_STATS_CSV_FILENAME = 'weighted_player_stats.csv'; // Expected name of the weighted stats CSV
@@ -24,7 +28,15 @@ const WEIGHTED_STATS_CSV_FILENAME = 'weighted_player_stats.csv'; // Expected nam
  *              parse them, and upsert the player statistics into a Supabase database table.
  *
  * Assumes CSV files are named in the format: savant_stats_${season}_${playerType}_vs_${opponentHand}H.csv
- * and are located in the SAVANT_CSV_INPUT_DIR.
+ * and are located in the SAVANT_CSV_INPUT_DIR. Home/road splits add the context after the season
+ * (savant_stats_${season}_home_${playerType}_vs_${opponentHand}H.csv) and load with split_context home/road.
+ *
+ * Per-game files (savant_games_${season}_m${month}_${playerType}_vs_${opponentHand}H.csv) are classified
+ * day or night from each player's game log, the schedule's first-pitch times and the venue longitudes
+ * in the venues table (gameContext.ts), then summed into split_context day/night rows.
+ *
+ * Recent-form windows (savant_form_${windowDays}d_${windowEnd}_${playerType}_vs_${opponentHand}H.csv)
+ * go to player_form_splits instead; only the latest file per window, player type and hand is loaded.
  *
  * Usage:
  *   Ensure .env file has SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
@@ -84,18 +96,119 @@ function parseIntOrNull(value: string | undefined | null): number | null {
   return isNaN(num) ? null : num;
 }
 
-function extractInfoFromFilename(filename: string): { season: number; playerType: 'batter' | 'pitcher'; opponentHand: 'L' | 'R' } | null {
-  const match = filename.match(/savant_stats_(\d{4})_(batter|pitcher)_vs_([RL])H\.csv/);
+function extractInfoFromFilename(
+  filename: string
+): { season: number; splitContext: SplitContext; playerType: 'batter' | 'pitcher'; opponentHand: 'L' | 'R' } | null {
+  const match = filename.match(/savant_stats_(\d{4})_(?:(home|road)_)?(batter|pitcher)_vs_([RL])H\.csv/);
+  if (match) {
+    return {
+      season: parseInt(match[1], 10),
+      splitContext: (match[2] as SplitContext | undefined) ?? 'all',
+      playerType: match[3] as 'batter' | 'pitcher',
+      opponentHand: match[4] as 'L' | 'R',
+    };
+  }
+  return null;
+}
+
+function extractGameInfoFromFilename(
+  filename: string
+): { season: number; month: number; playerType: 'batter' | 'pitcher'; opponentHand: 'L' | 'R' } | null {
+  const match = filename.match(/savant_games_(\d{4})_m(\d{2})_(batter|pitcher)_vs_([RL])H\.csv/);
   if (match) {
     return {
       season: parseInt(match[1], 10),
-      playerType: match[2] as 'batter' | 'pitcher',
-      opponentHand: match[3] as 'L' | 'R',
+      month: parseInt(match[2], 10),
+      playerType: match[3] as 'batter' | 'pitcher',
+      opponentHand: match[4] as 'L' | 'R',
     };
   }
   return null;
 }
 
+function extractFormInfoFromFilename(
+  filename: string
+): { windowDays: number; windowEnd: string; playerType: 'batter' | 'pitcher'; opponentHand: 'L' | 'R' } | null {
+  const match = filename.match(/savant_form_(\d+)d_(\d{4}-\d{2}-\d{2})_(batter|pitcher)_vs_([RL])H\.csv/);
+  if (match) {
+    return {
+      windowDays: parseInt(match[1], 10),
+      windowEnd: match[2],
+      playerType: match[3] as 'batter' | 'pitcher',
+      opponentHand: match[4] as 'L' | 'R',
+    };
+  }
+  return null;
+}
+
+function parseSeasonList(value: string | undefined | null): number[] | null {
+  if (!value || typeof value !== 'string' || value.trim() === '') return null;
+  const seasons = value.split(',').map(s => parseInt(s.trim(), 10)).filter(s => !isNaN(s));
+  return seasons.length ? seasons : null;
+}
+
+// One Savant CSV row as a player_splits row
+function toPlayerSplit(
+  row: any,
+  season: number,
+  playerType: 'batter' | 'pitcher',
+  opponentHand: 'L' | 'R',
+  splitContext: SplitContext
+): PlayerSplit {
+  return {
+    // Identifiers
+    player_id: parseIntOrNull(row.player_id) as number, // Assert as number; filter will remove nulls
+    season: season,
+    player_type: playerType, // Already typed from extractInfoFromFilename
+    vs_handedness: opponentHand, // Already typed from extractInfoFromFilename
+    split_context: splitContext, // 'all' unless the filename names a context
+    player_name: row['last_name, first_name'] || row.player_name || null,
+
+    // Core Plate Appearance Stats
+    pa: parseIntOrNull(row.pa),
+    ab: parseIntOrNull(row.ab), // New DB field, CSV header: ab
+
+    // Rate Stats
+    // Assuming these are NUMERIC(4,3) or similar, needing 3 decimal places
+    ba: parseFloatAndRound(row.ba, 3),
+    obp: parseFloatAndRound(row.obp, 3),
+    slg: parseFloatAndRound(row.slg, 3),
+    woba: parseFloatAndRound(row.woba, 3),
+    xwoba: parseFloatAndRound(row.xwoba, 3),
+    xba: parseFloatAndRound(row.xba, 3),
+    xobp: parseFloatAndRound(row.xobp, 3),
+    xslg: parseFloatAndRound(row.xslg, 3),
+    iso: parseFloatAndRound(row.iso, 3),
+    babip: parseFloatAndRound(row.babip, 3),
+
+    // Batted Ball Stats
+    barrels: parseIntOrNull(row.barrels_total), // Renamed DB field (was barrels_total), CSV header: barrels
+    // Percentages from CSV (e.g., 20.5%) converted to decimal (e.g., 0.2050) for NUMERIC(5,4)
+    barrels_per_pa: parseFloatAndRound(row.barrels_per_pa_percent, 4, true), // Uses CSV: barrels_per_pa_percent
+    hard_hit_pct: parseFloatAndRound(row.hardhit_percent, 4, true),       // Uses CSV: hardhit_percent
+    groundball_pct: parseFloatAndRound(row.gb_percent, 4, true),           // Uses CSV: gb_percent
+    line_drive_pct: parseFloatAndRound(row.ld_percent, 4, true),           // Uses CSV: ld_percent
+    flyball_pct: parseFloatAndRound(row.fb_percent, 4, true),             // Uses CSV: fb_percent
+    // Averages, typically NUMERIC(X,2)
+    avg_exit_velocity: parseFloatAndRound(row.launch_speed, 2),      // Renamed DB field (was avg_launch_speed), CSV: launch_speed
+    max_exit_velocity: parseFloatAndRound(row.max_launch_speed, 2),  // New DB field, CSV: max_launch_speed
+    avg_launch_angle: parseFloatAndRound(row.launch_angle, 2),       // DB field: avg_launch_angle, CSV: launch_angle
+    hrs: parseIntOrNull(row.hrs),                                    // DB field: hrs, CSV: hrs
+    swing_miss_percent: parseFloatAndRound(row.swing_miss_percent, 4, true), // CSV: swing_miss_percent, DB: numeric(5,4)
+    hyper_speed: parseFloatOrNull(row.hyper_speed),                   // CSV: hyper_speed, DB: numeric(4,1)
+
+    // Add missing properties for PlayerSplit
+    k_percent: parseFloatAndRound(row.k_percent, 4, true), // CSV: k_percent (as percentage, e.g., "23.4")
+    bb_percent: parseFloatAndRound(row.bb_percent, 4, true), // CSV: bb_percent (as percentage, e.g., "8.7")
+    xwoba_shrinkage: null, // Only set on weighted (season 0) rows
+    hr_per_pa: null,
+    hr_per_pa_shrinkage: null,
+    contributing_seasons: [season], // A single-season row is its own sample
+
+    last_updated: new Date().toISOString(), // Set last_updated to current time
+  };
+}
+
 // --- Main Processing Function ---
 async function processAndUploadSavantCsvs(): Promise<void> {
   if (!supabase) {
@@ -116,6 +229,8 @@ async function processAndUploadSavantCsvs(): Promise<void> {
 
     for (const csvFile of csvFiles) {
       const filePath = path.join(SAVANT_CSV_INPUT_DIR, csvFile);
+      if (extractFormInfoFromFilename(csvFile)) continue; // Loaded by processAndUploadFormCsvs
+      if (extractGameInfoFromFilename(csvFile)) continue; // Loaded by processAndUploadDayNightCsvs
       console.log(`--- Processing file: ${csvFile} ---`);
 
       const fileInfo = extractInfoFromFilename(csvFile);
@@ -124,7 +239,7 @@ async function processAndUploadSavantCsvs(): Promise<void> {
         continue;
       }
 
-      const { season, playerType, opponentHand } = fileInfo;
+      const { season, splitContext, playerType, opponentHand } = fileInfo;
 
       try {
         const csvData = await fs.readFile(filePath, 'utf-8');
@@ -139,53 +254,9 @@ async function processAndUploadSavantCsvs(): Promise<void> {
           continue;
         }
 
-        const recordsToUpsert: PlayerSplit[] = parseResult.data.map((row: any): PlayerSplit => ({
-          // Identifiers
-          player_id: parseIntOrNull(row.player_id) as number, // Assert as number; filter will remove nulls
-          season: season,
-          player_type: playerType, // Already typed from extractInfoFromFilename
-          vs_handedness: opponentHand, // Already typed from extractInfoFromFilename
-          player_name: row['last_name, first_name'] || row.player_name || null,
-
-          // Core Plate Appearance Stats
-          pa: parseIntOrNull(row.pa),
-          ab: parseIntOrNull(row.ab), // New DB field, CSV header: ab
-
-          // Rate Stats
-          // Assuming these are NUMERIC(4,3) or similar, needing 3 decimal places
-          ba: parseFloatAndRound(row.ba, 3),
-          obp: parseFloatAndRound(row.obp, 3),
-          slg: parseFloatAndRound(row.slg, 3),
-          woba: parseFloatAndRound(row.woba, 3),
-          xwoba: parseFloatAndRound(row.xwoba, 3),
-          xba: parseFloatAndRound(row.xba, 3),
-          xobp: parseFloatAndRound(row.xobp, 3),
-          xslg: parseFloatAndRound(row.xslg, 3),
-          iso: parseFloatAndRound(row.iso, 3),
-          babip: parseFloatAndRound(row.babip, 3),
-
-          // Batted Ball Stats
-          barrels: parseIntOrNull(row.barrels_total), // Renamed DB field (was barrels_total), CSV header: barrels
-          // Percentages from CSV (e.g., 20.5%) converted to decimal (e.g., 0.2050) for NUMERIC(5,4)
-          barrels_per_pa: parseFloatAndRound(row.barrels_per_pa_percent, 4, true), // Uses CSV: barrels_per_pa_percent
-          hard_hit_pct: parseFloatAndRound(row.hardhit_percent, 4, true),       // Uses CSV: hardhit_percent
-          groundball_pct: parseFloatAndRound(row.gb_percent, 4, true),           // Uses CSV: gb_percent
-          line_drive_pct: parseFloatAndRound(row.ld_percent, 4, true),           // Uses CSV: ld_percent
-          flyball_pct: parseFloatAndRound(row.fb_percent, 4, true),             // Uses CSV: fb_percent
-          // Averages, typically NUMERIC(X,2)
-          avg_exit_velocity: parseFloatAndRound(row.launch_speed, 2),      // Renamed DB field (was avg_launch_speed), CSV: launch_speed
-          max_exit_velocity: parseFloatAndRound(row.max_launch_speed, 2),  // New DB field, CSV: max_launch_speed
-          avg_launch_angle: parseFloatAndRound(row.launch_angle, 2),       // DB field: avg_launch_angle, CSV: launch_angle
-          hrs: parseIntOrNull(row.hrs),                                    // DB field: hrs, CSV: hrs
-          swing_miss_percent: parseFloatAndRound(row.swing_miss_percent, 4, true), // CSV: swing_miss_percent, DB: numeric(5,4)
-          hyper_speed: parseFloatOrNull(row.hyper_speed),                   // CSV: hyper_speed, DB: numeric(4,1)
-
-          // Add missing properties for PlayerSplit
-          k_percent: parseFloatAndRound(row.k_percent, 4, true), // CSV: k_percent (as percentage, e.g., "23.4")
-          bb_percent: parseFloatAndRound(row.bb_percent, 4, true), // CSV: bb_percent (as percentage, e.g., "8.7")
-
-          last_updated: new Date().toISOString(), // Set last_updated to current time
-        })).filter((record): record is PlayerSplit => // Type guard to ensure non-null PK fields
+        const recordsToUpsert: PlayerSplit[] = parseResult.data.map((row: any) =>
+          toPlayerSplit(row, season, playerType, opponentHand, splitContext)
+        ).filter((record): record is PlayerSplit => // Type guard to ensure non-null PK fields
           record.player_id !== null &&
           record.season !== null // player_type and vs_handedness are guaranteed by fileInfo
         );
@@ -194,7 +265,7 @@ async function processAndUploadSavantCsvs(): Promise<void> {
           console.log(`  ⏳ Upserting ${recordsToUpsert.length} records from ${csvFile} to Supabase table "${SUPABASE_TABLE_NAME}"...`);
           const { error: upsertError } = await supabase
             .from(SUPABASE_TABLE_NAME)
-            .upsert(recordsToUpsert, { onConflict: 'player_id,season,player_type,vs_handedness' });
+            .upsert(recordsToUpsert, { onConflict: 'player_id,season,player_type,vs_handedness,split_context' });
 
           if (upsertError) {
             console.error(`  ❌ Supabase upsert error for ${csvFile}:`, upsertError.message);
@@ -216,6 +287,240 @@ async function processAndUploadSavantCsvs(): Promise<void> {
   console.log('\nAll CSV processing attempted.');
 }
 
+// --- Function to Process Recent-Form Window CSVs ---
+async function processAndUploadFormCsvs(): Promise<void> {
+  const files = await fs.readdir(SAVANT_CSV_INPUT_DIR).catch(() => [] as string[]);
+
+  // Latest download per window / player type / hand; older days' files are left alone
+  const latest = new Map<string, { file: string; info: NonNullable<ReturnType<typeof extractFormInfoFromFilename>> }>();
+  for (const file of files) {
+    const info = extractFormInfoFromFilename(file);
+    if (!info) continue;
+    const key = `${info.windowDays}_${info.playerType}_${info.opponentHand}`;
+    const current = latest.get(key);
+    if (!current || info.windowEnd > current.info.windowEnd) latest.set(key, { file, info });
+  }
+  if (latest.size === 0) {
+    console.log('No recent-form CSV files found; player_form_splits left as is.');
+    return;
+  }
+
+  for (const { file, info } of latest.values()) {
+    const { windowDays, windowEnd, playerType, opponentHand } = info;
+    const windowStart = new Date(`${windowEnd}T00:00:00Z`);
+    windowStart.setUTCDate(windowStart.getUTCDate() - (windowDays - 1));
+    console.log(`--- Processing form window: ${file} ---`);
+
+    try {
+      const csvData = await fs.readFile(path.join(SAVANT_CSV_INPUT_DIR, file), 'utf-8');
+      const parseResult = Papa.parse(csvData, { header: true, skipEmptyLines: true, dynamicTyping: false });
+      if (parseResult.errors.length > 0) {
+        console.error(`  ❌ Error parsing CSV ${file}:`, parseResult.errors);
+        continue;
+      }
+
+      const recordsToUpsert: PlayerFormSplit[] = parseResult.data.map((row: any): PlayerFormSplit => ({
+        player_id: parseIntOrNull(row.player_id) as number,
+        player_type: playerType,
+        vs_handedness: opponentHand,
+        window_days: windowDays,
+        window_start: windowStart.toISOString().slice(0, 10),
+        window_end: windowEnd,
+        player_name: row['last_name, first_name'] || row.player_name || null,
+        pa: parseIntOrNull(row.pa),
+        // Same CSV columns and scaling as the season files
+        xwoba: parseFloatAndRound(row.xwoba, 3),
+        avg_launch_angle: parseFloatAndRound(row.launch_angle, 2),
+        barrels_per_pa: parseFloatAndRound(row.barrels_per_pa_percent, 4, true),
+        hard_hit_pct: parseFloatAndRound(row.hardhit_percent, 4, true),
+        avg_exit_velocity: parseFloatAndRound(row.launch_speed, 2),
+        k_percent: parseFloatAndRound(row.k_percent, 4, true),
+        bb_percent: parseFloatAndRound(row.bb_percent, 4, true),
+        iso: parseFloatAndRound(row.iso, 3),
+        swing_miss_percent: parseFloatAndRound(row.swing_miss_percent, 4, true),
+        hrs: parseIntOrNull(row.hrs),
+        last_updated: new Date().toISOString(),
+      })).filter(record => record.player_id !== null);
+
+      if (recordsToUpsert.length === 0) {
+        console.log(`  ℹ️ No valid records to upsert from ${file}.`);
+        continue;
+      }
+      const { error: upsertError } = await supabase
+        .from('player_form_splits')
+        .upsert(recordsToUpsert, { onConflict: 'player_id,player_type,vs_handedness,window_days' });
+      if (upsertError) {
+        console.error(`  ❌ Supabase upsert error for ${file}:`, upsertError.message);
+        continue;
+      }
+      // Players with no PA in the new window drop out instead of keeping an older window
+      const { error: deleteError } = await supabase
+        .from('player_form_splits')
+        .delete()
+        .eq('window_days', windowDays)
+        .eq('player_type', playerType)
+        .eq('vs_handedness', opponentHand)
+        .lt('window_end', windowEnd);
+      if (deleteError) console.error(`  ⚠️ Could not clear older ${windowDays}-day windows:`, deleteError.message);
+      console.log(`  ✅ Successfully upserted ${recordsToUpsert.length} ${windowDays}-day form records from ${file}.`);
+    } catch (fileError) {
+      console.error(`  ❌ Error reading or processing file ${file}:`, fileError);
+    }
+  }
+}
+
+// --- Function to Process Per-Game CSVs into Day/Night Splits ---
+
+type GameRowSplit = PlayerSplit & { gameDate: string | null };
+
+// PA- (or AB-) weighted mean of one field over the rows that have it
+function weightedMean(rows: PlayerSplit[], field: keyof PlayerSplit, weightField: 'pa' | 'ab', decimalPlaces: number): number | null {
+  let sum = 0;
+  let weight = 0;
+  for (const row of rows) {
+    const value = row[field];
+    const w = row[weightField] ?? 0;
+    if (typeof value !== 'number' || w <= 0) continue;
+    sum += value * w;
+    weight += w;
+  }
+  if (weight === 0) return null;
+  const factor = Math.pow(10, decimalPlaces);
+  return Math.round((sum / weight) * factor) / factor;
+}
+
+const sumOf = (rows: PlayerSplit[], field: 'pa' | 'ab' | 'hrs' | 'barrels'): number =>
+  rows.reduce((total, row) => total + (row[field] ?? 0), 0);
+
+/**
+ * One season split from a player's per-game rows. Counts are summed; rates are weighted by
+ * PA (AB for the batting-average family). Savant's per-game rows don't carry batted-ball or
+ * pitch counts, so the batted-ball averages are PA-weighted too: close, not exact.
+ */
+function aggregateGameRows(rows: PlayerSplit[], splitContext: SplitContext): PlayerSplit {
+  const pa = sumOf(rows, 'pa');
+  const barrels = sumOf(rows, 'barrels');
+  return {
+    ...rows[0],
+    split_context: splitContext,
+    player_name: rows.find(r => r.player_name)?.player_name ?? null,
+    pa,
+    ab: sumOf(rows, 'ab'),
+    hrs: sumOf(rows, 'hrs'),
+    barrels,
+    barrels_per_pa: pa > 0 ? Math.round((barrels / pa) * 10000) / 10000 : null,
+    ba: weightedMean(rows, 'ba', 'ab', 3),
+    slg: weightedMean(rows, 'slg', 'ab', 3),
+    xba: weightedMean(rows, 'xba', 'ab', 3),
+    xslg: weightedMean(rows, 'xslg', 'ab', 3),
+    iso: weightedMean(rows, 'iso', 'ab', 3),
+    babip: weightedMean(rows, 'babip', 'ab', 3),
+    obp: weightedMean(rows, 'obp', 'pa', 3),
+    woba: weightedMean(rows, 'woba', 'pa', 3),
+    xwoba: weightedMean(rows, 'xwoba', 'pa', 3),
+    xobp: weightedMean(rows, 'xobp', 'pa', 3),
+    k_percent: weightedMean(rows, 'k_percent', 'pa', 4),
+    bb_percent: weightedMean(rows, 'bb_percent', 'pa', 4),
+    swing_miss_percent: weightedMean(rows, 'swing_miss_percent', 'pa', 4),
+    hard_hit_pct: weightedMean(rows, 'hard_hit_pct', 'pa', 4),
+    groundball_pct: weightedMean(rows, 'groundball_pct', 'pa', 4),
+    line_drive_pct: weightedMean(rows, 'line_drive_pct', 'pa', 4),
+    flyball_pct: weightedMean(rows, 'flyball_pct', 'pa', 4),
+    avg_exit_velocity: weightedMean(rows, 'avg_exit_velocity', 'pa', 2),
+    avg_launch_angle: weightedMean(rows, 'avg_launch_angle', 'pa', 2),
+    hyper_speed: weightedMean(rows, 'hyper_speed', 'pa', 1),
+    max_exit_velocity: rows.reduce<number | null>(
+      (max, r) => (r.max_exit_velocity != null && (max == null || r.max_exit_velocity > max) ? r.max_exit_velocity : max),
+      null
+    ),
+    last_updated: new Date().toISOString(),
+  };
+}
+
+async function processAndUploadDayNightCsvs(): Promise<void> {
+  const files = await fs.readdir(SAVANT_CSV_INPUT_DIR).catch(() => [] as string[]);
+
+  // Every month's rows per season / player type / hand
+  const groups = new Map<string, { season: number; playerType: 'batter' | 'pitcher'; opponentHand: 'L' | 'R'; rows: GameRowSplit[] }>();
+  for (const file of files) {
+    const info = extractGameInfoFromFilename(file);
+    if (!info) continue;
+    const { season, playerType, opponentHand } = info;
+    const key = `${season}_${playerType}_${opponentHand}`;
+    if (!groups.has(key)) groups.set(key, { season, playerType, opponentHand, rows: [] });
+
+    const csvData = await fs.readFile(path.join(SAVANT_CSV_INPUT_DIR, file), 'utf-8');
+    const parseResult = Papa.parse(csvData, { header: true, skipEmptyLines: true, dynamicTyping: false });
+    if (parseResult.errors.length > 0) {
+      console.error(`  ❌ Error parsing CSV ${file}:`, parseResult.errors);
+      continue;
+    }
+    parseResult.data.forEach((row: any) => {
+      const split = toPlayerSplit(row, season, playerType, opponentHand, 'all');
+      if (split.player_id !== null) groups.get(key)!.rows.push({ ...split, gameDate: row.game_date || null });
+    });
+  }
+  if (groups.size === 0) {
+    console.log('No per-game CSV files found; day/night splits left as is.');
+    return;
+  }
+
+  const { data: venueRows, error: venueError } = await supabase.from('venues').select('id, longitude');
+  if (venueError) console.error(`  ⚠️ Could not load venue longitudes (assuming US Central): ${venueError.message}`);
+  const venueLongitudes = new Map<number, number | null>(
+    (venueRows || []).map((v: { id: number; longitude: number | null }) => [v.id, v.longitude])
+  );
+
+  // One calendar per season and player type covers both hands
+  const calendars = new Map<string, Map<string, DayNight | null>>();
+  for (const { season, playerType, opponentHand, rows } of groups.values()) {
+    console.log(`--- Classifying ${rows.length} ${season} ${playerType} game rows vs ${opponentHand}H into day/night ---`);
+    const calendarKey = `${season}_${playerType}`;
+    if (!calendars.has(calendarKey)) {
+      const playerIds = Array.from(new Set(
+        Array.from(groups.values())
+          .filter(g => g.season === season && g.playerType === playerType)
+          .flatMap(g => g.rows.map(r => r.player_id))
+      ));
+      try {
+        calendars.set(calendarKey, await buildDayNightCalendar(mlbStatsApi, season, playerIds, playerType, venueLongitudes));
+      } catch (err) {
+        console.error(`  ❌ Could not build the ${season} ${playerType} day/night calendar:`, err instanceof Error ? err.message : err);
+        continue;
+      }
+    }
+    const calendar = calendars.get(calendarKey)!;
+
+    const byContext = new Map<string, { dayNight: DayNight; rows: PlayerSplit[] }>();
+    let unclassified = 0;
+    rows.forEach(({ gameDate, ...row }) => {
+      const dayNight = gameDate ? calendar.get(`${row.player_id}_${gameDate}`) : null;
+      if (!dayNight) {
+        unclassified++;
+        return;
+      }
+      const key = `${row.player_id}_${dayNight}`;
+      if (!byContext.has(key)) byContext.set(key, { dayNight, rows: [] });
+      byContext.get(key)!.rows.push(row);
+    });
+    if (unclassified) console.log(`  ℹ️ ${unclassified} rows left out (no game log match, or a day/night doubleheader)`);
+
+    const recordsToUpsert = Array.from(byContext.values()).map(({ dayNight, rows: playerRows }) => aggregateGameRows(playerRows, dayNight));
+    if (recordsToUpsert.length === 0) {
+      console.log(`  ℹ️ No day/night records to upsert for ${season} ${playerType} vs ${opponentHand}H.`);
+      continue;
+    }
+    const { error: upsertError } = await supabase
+      .from(SUPABASE_TABLE_NAME)
+      .upsert(recordsToUpsert, { onConflict: 'player_id,season,player_type,vs_handedness,split_context' });
+    if (upsertError) {
+      console.error(`  ❌ Supabase upsert error for ${season} ${playerType} vs ${opponentHand}H day/night:`, upsertError.message);
+    } else {
+      console.log(`  ✅ Successfully upserted ${recordsToUpsert.length} day/night records for ${season} ${playerType} vs ${opponentHand}H.`);
+    }
+  }
+}
+
 // --- Function to Process Weighted Stats CSV ---
 async function processAndUploadWeightedStats(): Promise<void> {
   if (!supabase) {
@@ -251,6 +556,7 @@ async function processAndUploadWeightedStats(): Promise<void> {
       season: parseIntOrNull(row.season) as number, // Should be 0, assuming non-null after filter
       player_type: row.player_type as 'batter' | 'pitcher', // Asserting type from CSV
       vs_handedness: row.vs_handedness as 'L' | 'R', // Asserting type from CSV
+      split_context: (row.split_context || 'all') as SplitContext, // Files written before contexts have no column
       player_name: row.player_name || null,
       pa: parseIntOrNull(row.total_pa), // from weighted_player_stats.csv
       ab: null, // Not in weighted_player_stats.csv
@@ -282,6 +588,10 @@ async function processAndUploadWeightedStats(): Promise<void> {
       // Add missing properties for PlayerSplit
       k_percent: parseFloatOrNull(row.weighted_k_percent), // Read from weighted_player_stats.csv
       bb_percent: parseFloatOrNull(row.weighted_bb_percent), // Read from weighted_player_stats.csv
+      xwoba_shrinkage: parseFloatAndRound(row.xwoba_shrinkage, 4), // Regression toward league mean, from weighted_player_stats.csv
+      hr_per_pa: parseFloatAndRound(row.weighted_hr_per_pa, 5), // Regressed HR / PA; hrs is an integer count
+      hr_per_pa_shrinkage: parseFloatAndRound(row.hr_per_pa_shrinkage, 4),
+      contributing_seasons: parseSeasonList(row.contributing_seasons), // e.g. "2025,2024" → [2025, 2024]
 
       last_updated: new Date().toISOString(),
     })).filter((record): record is PlayerSplit => // Type guard for weighted stats
@@ -295,7 +605,7 @@ async function processAndUploadWeightedStats(): Promise<void> {
       console.log(`  ⏳ Upserting ${recordsToUpsert.length} records from ${WEIGHTED_STATS_CSV_FILENAME} to Supabase table "${SUPABASE_TABLE_NAME}"...`);
       const { error: upsertError } = await supabase
         .from(SUPABASE_TABLE_NAME)
-        .upsert(recordsToUpsert, { onConflict: 'player_id,season,player_type,vs_handedness' });
+        .upsert(recordsToUpsert, { onConflict: 'player_id,season,player_type,vs_handedness,split_context' });
 
       if (upsertError) {
         console.error(`  ❌ Supabase upsert error for ${WEIGHTED_STATS_CSV_FILENAME}:`, upsertError.message);
@@ -317,6 +627,8 @@ async function main() {
       await processAndUploadWeightedStats();
     } else {
       await processAndUploadSavantCsvs();
+      await processAndUploadDayNightCsvs();
+      await processAndUploadFormCsvs();
     }
     console.log('\n🎉 Script finished.');
   } catch (error) {
@@ -23,6 +23,8 @@ export default function HomePage() {
           .from('daily_matchups')
           .select('batter_name, pitcher_name, avg_xwoba')
           .eq('game_date', today)
+          .eq('matchup_scope', 'starter')
+          .is('superseded_at', null)
           .order('avg_xwoba', { ascending: false })
           .limit(20);
 
@@ -2,10 +2,13 @@
 'use client';
 
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
-import { Database } from '@/types/database.types';
-type Matchup = Database['public']['Tables']['daily_matchups']['Row'];
-
-import { GamesWithMatchupsAndVenues } from '@/pages/api/matchups';
+import { GamesWithMatchupsAndVenues, IndexedMatchup } from '@/pages/api/matchups';
+import { favorablePercentile, MatchupStatColumn, PercentileBand, percentileBand } from '@/lib/normalization';
+import type { ScoreProfile } from '@/lib/scoreProfiles';
+type Matchup = IndexedMatchup;
+import { doubleheaderLabel, isCalledOff } from '@/lib/gameStatus';
+import ConfidenceBadge from '@/components/ConfidenceBadge';
+import BvpHistory from '@/components/BvpHistory';
 
 export default function HomePage() {
   // PT‐shifted "today"
@@ -20,12 +23,24 @@ export default function HomePage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [limit, setLimit] = useState(20);
+  const [rankBy, setRankBy] = useState<RankBy>('avg_xwoba');
+  const [scoreProfiles, setScoreProfiles] = useState<ScoreProfile[]>([]);
+  // Ranking by a profile asks /api/matchups for that profile's composite score
+  const scoreProfile = rankBy.startsWith('score:') ? rankBy.slice('score:'.length) : null;
+
+  useEffect(() => {
+    fetch('/api/score-profiles')
+      .then(res => (res.ok ? res.json() : []))
+      .then(setScoreProfiles)
+      .catch(e => console.error('Error loading score profiles:', e));
+  }, []);
 
   const fetchGames = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`/api/matchups?date=${date}`);
+      const scoreParam = scoreProfile ? `&score=${encodeURIComponent(scoreProfile)}` : '';
+      const res = await fetch(`/api/matchups?date=${date}${scoreParam}`);
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
       setGames(await res.json());
     } catch (e: unknown) {
@@ -40,7 +55,7 @@ export default function HomePage() {
     } finally {
       setLoading(false);
     }
-  }, [date]);
+  }, [date, scoreProfile]);
 
   const handleDateChange = (offset: number) => {
     const currentDate = new Date(date + 'T00:00:00'); // Ensure parsing as local date
@@ -67,9 +82,19 @@ export default function HomePage() {
       ...g.home_team_matchups,
     ]);
     return all
-      .sort((a, b) => b.avg_xwoba - a.avg_xwoba)
+      .sort((a, b) => rankValue(b, rankBy) - rankValue(a, rankBy))
+      .slice(0, limit);
+  }, [games, limit, rankBy]);
+
+  const topFullGameMatchups = useMemo(() => {
+    const all = games.flatMap(g => [
+      ...g.away_team_full_game_matchups,
+      ...g.home_team_full_game_matchups,
+    ]);
+    return all
+      .sort((a, b) => rankValue(b, rankBy) - rankValue(a, rankBy))
       .slice(0, limit);
-  }, [games, limit]);
+  }, [games, limit, rankBy]);
 
   const getGameDisplayTitle = useCallback((game: GamesWithMatchupsAndVenues): string => {
     let awayAbbr: string | null = null;
@@ -142,10 +167,31 @@ export default function HomePage() {
               </option>
             ))}
           </select>{' '}
-          overall
+          overall, ranked by{' '}
+          <select
+            value={rankBy}
+            onChange={e => setRankBy(e.target.value as RankBy)}
+            className="border border-gray-600 bg-gray-800 text-gray-200 px-1 rounded"
+          >
+            {RANK_OPTIONS.map(o => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+            {scoreProfiles.length > 0 && (
+              <optgroup label="Score profile">
+                {scoreProfiles.map(p => (
+                  <option key={p.name} value={`score:${p.name}`} title={p.description ?? undefined}>
+                    {p.label}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
         </label>
         <MatchupTable
           matchups={topMatchups}
+          fullGameMatchups={topFullGameMatchups}
           isGameSpecific={false}
         />
       </section>
@@ -159,12 +205,27 @@ export default function HomePage() {
 
       {!loading && games.map(game => (
         <div
-          key={game.game_pk} // Ensure game_pk is unique and suitable as a key
+          key={game.game_pk} // Unique per game, including each game of a doubleheader
           className="mb-10 p-4 border border-gray-700 rounded bg-gray-800 shadow-lg"
         >
           <header className="mb-3">
             <h3 className="text-lg font-semibold">
               {getGameDisplayTitle(game)}
+              {doubleheaderLabel(game) && (
+                <span className="ml-2 text-sm font-normal text-gray-400">{doubleheaderLabel(game)}</span>
+              )}
+              {isOpenerGame(game) && (
+                <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-purple-700 text-purple-100">
+                  Opener game
+                </span>
+              )}
+              {game.called_off && (
+                <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-yellow-700 text-yellow-100">
+                  {/* A game already moved to its makeup date carries that date's state */}
+                  {isCalledOff(game.detailed_state) ? game.detailed_state : 'Postponed'}
+                  {game.rescheduled_to_date && ` · makeup ${game.rescheduled_to_date}`}
+                </span>
+              )}
             </h3>
             <p className="text-sm text-gray-600">
               {game.game_datetime_utc ? new Date(game.game_datetime_utc).toLocaleTimeString([], {
@@ -178,6 +239,11 @@ export default function HomePage() {
                 {game.venue.name}, {game.venue.city}
               </p>
             )}
+            {game.weather && (
+              <p className="text-xs text-gray-500">
+                {formatWeather(game.weather)}
+              </p>
+            )}
           </header>
 
           {/* Section for Away and Home batting matchups */}
@@ -201,8 +267,14 @@ export default function HomePage() {
                     {awayTeamDisplay} Batting vs.{' '}
                     {game.home_pitcher_details?.name || '—'}{' '}
                     {game.home_pitcher_details?.hand ? `(${game.home_pitcher_details.hand})` : ''}
+                    {bulkPitcherLabel(game.away_team_matchups, game.away_team_bulk_matchups)}
                   </h4>
-                  <MatchupTable matchups={game.away_team_matchups} isGameSpecific={true} />
+                  <MatchupTable
+                    matchups={game.away_team_matchups}
+                    fullGameMatchups={game.away_team_full_game_matchups}
+                    bulkMatchups={game.away_team_bulk_matchups}
+                    isGameSpecific={true}
+                  />
                 </div>
 
                 {/* Home batters vs AWAY pitcher */}
@@ -211,8 +283,14 @@ export default function HomePage() {
                     {homeTeamDisplay} Batting vs.{' '}
                     {game.away_pitcher_details?.name || '—'}{' '}
                     {game.away_pitcher_details?.hand ? `(${game.away_pitcher_details.hand})` : ''}
+                    {bulkPitcherLabel(game.home_team_matchups, game.home_team_bulk_matchups)}
                   </h4>
-                  <MatchupTable matchups={game.home_team_matchups} isGameSpecific={true} />
+                  <MatchupTable
+                    matchups={game.home_team_matchups}
+                    fullGameMatchups={game.home_team_full_game_matchups}
+                    bulkMatchups={game.home_team_bulk_matchups}
+                    isGameSpecific={true}
+                  />
                 </div>
               </div>
             );
@@ -222,116 +300,215 @@ export default function HomePage() {
     </main>
   );
 }
+// Per-PA quality, or per-game projections that also credit lineup slot and run environment
+type RankStat = 'avg_xwoba' | 'proj_tb' | 'proj_hr';
+// ...or a composite score profile (score_profiles), as "score:<name>"
+type RankBy = RankStat | `score:${string}`;
+const RANK_OPTIONS: { value: RankStat; label: string }[] = [
+  { value: 'avg_xwoba', label: 'xwOBA' },
+  { value: 'proj_tb', label: 'Proj. TB' },
+  { value: 'proj_hr', label: 'Proj. HR' },
+];
+
+const rankValue = (m: Matchup, rankBy: RankBy): number =>
+  (rankBy.startsWith('score:') ? m.score : m[rankBy as RankStat]) ?? 0;
+
 type TableProps = {
   matchups: Matchup[];
+  // Starter + bullpen rows for the same batters; enables the "vs SP" / "Full game" toggle
+  fullGameMatchups?: Matchup[];
+  // Opener games: the same batters vs the bulk pitcher; adds a "vs Bulk" toggle
+  bulkMatchups?: Matchup[];
   isGameSpecific: boolean;
 };
 
-// Helper functions for color coding stats
-const getXwobaColor = (xwoba: number): string => {
-  if (xwoba >= 0.400) return 'text-blue-400 font-semibold'; // Great
-  if (xwoba >= 0.350) return 'text-green-400'; // Good
-  if (xwoba >= 0.300) return 'text-yellow-400'; // Average
-  return 'text-red-400'; // Poor
+// Game card weather line, e.g. "78°F · Wind 9 mph from 225° · 20% rain · HR x1.06"
+const formatWeather = (weather: NonNullable<GamesWithMatchupsAndVenues['weather']>): string => {
+  const parts: string[] = [];
+  if (weather.temperature_f != null) parts.push(`${Math.round(weather.temperature_f)}°F`);
+  if (weather.wind_speed_mph != null) {
+    const from = weather.wind_direction_deg != null ? ` from ${Math.round(weather.wind_direction_deg)}°` : '';
+    parts.push(`Wind ${Math.round(weather.wind_speed_mph)} mph${from}`);
+  }
+  if (weather.precipitation_probability != null) parts.push(`${Math.round(weather.precipitation_probability)}% rain`);
+  if (weather.adjustment_reason === 'dome') parts.push('Dome');
+  else if (weather.adjustment_reason === 'roof_closed') parts.push('Roof likely closed');
+  else if (weather.hr_factor != null) parts.push(`HR x${weather.hr_factor.toFixed(2)}`);
+  return parts.join(' · ');
 };
 
-const getHardHitColor = (hardHitPct: number): string => {
-  if (hardHitPct >= 0.50) return 'text-blue-400 font-semibold'; // Great (50%+)
-  if (hardHitPct >= 0.40) return 'text-green-400'; // Good (40-49.9%)
-  if (hardHitPct >= 0.30) return 'text-yellow-400'; // Average (30-39.9%)
-  return 'text-red-400'; // Poor (<30%)
+// Opener games are flagged on the starter rows by ingest (pitcher_role = 'opener')
+const isOpenerGame = (game: GamesWithMatchupsAndVenues): boolean =>
+  [...game.away_team_matchups, ...game.home_team_matchups].some(m => m.pitcher_role === 'opener');
+
+const bulkPitcherLabel = (starterRows: Matchup[], bulkRows: Matchup[]): string => {
+  if (!starterRows.some(m => m.pitcher_role === 'opener')) return '';
+  const bulk = bulkRows[0];
+  return bulk ? ` (opener) → ${bulk.pitcher_name} (${bulk.pitcher_hand}, bulk)` : ' (opener)';
 };
 
-const getKPercentColor = (kPercent: number): string => {
-  // Higher K% is worse for batters
-  if (kPercent >= 0.300) return 'text-red-400 font-semibold'; // Very High (bad)
-  if (kPercent >= 0.250) return 'text-yellow-400'; // High
-  if (kPercent >= 0.180) return 'text-green-400'; // Average/Good
-  return 'text-blue-400 font-semibold'; // Low (excellent)
+// Stat colors follow league percentiles (the indexes /api/matchups attaches), flipped
+// where lower is better for the batter; the tooltip shows the "+" index
+const BAND_COLORS: Record<PercentileBand, string> = {
+  elite: 'text-blue-400 font-semibold',
+  good: 'text-green-400',
+  average: 'text-yellow-400',
+  poor: 'text-red-400',
 };
 
-const getBBPercentColor = (bbPercent: number): string => {
-  // Higher BB% is better for batters
-  if (bbPercent >= 0.120) return 'text-blue-400 font-semibold'; // Excellent
-  if (bbPercent >= 0.090) return 'text-green-400'; // Good
-  if (bbPercent >= 0.060) return 'text-yellow-400'; // Average
-  return 'text-red-400'; // Poor
+const getStatColor = (m: Matchup, column: MatchupStatColumn): string => {
+  const favorable = favorablePercentile(column, m.indexes?.[column]);
+  return favorable == null ? '' : BAND_COLORS[percentileBand(favorable)];
 };
 
-const getWhiffPercentColor = (whiffPercent: number): string => {
-  // Lower Whiff% is better for batters
-  if (whiffPercent <= 0.20) return 'text-blue-400 font-semibold'; // Excellent
-  if (whiffPercent <= 0.25) return 'text-green-400'; // Good
-  if (whiffPercent <= 0.30) return 'text-yellow-400'; // Average
-  return 'text-red-400'; // Poor
+const getStatTitle = (m: Matchup, column: MatchupStatColumn): string | undefined => {
+  const index = m.indexes?.[column];
+  return index ? `Index ${index.plus} (100 = league avg) · ${index.percentile} pctl vs ${m.pitcher_hand}HP` : undefined;
 };
 
-function MatchupTable({ matchups, isGameSpecific }: TableProps) {
+function MatchupTable({ matchups: starterMatchups, fullGameMatchups, bulkMatchups, isGameSpecific }: TableProps) {
+  const [scope, setScope] = useState<'starter' | 'full_game' | 'bulk'>('starter');
+  const scopeOptions = ([
+    ['starter', 'vs SP', starterMatchups],
+    ['full_game', 'Full game', fullGameMatchups],
+    ['bulk', 'vs Bulk', bulkMatchups],
+  ] as const).filter(([value, , rows]) => value === 'starter' || (!!rows && rows.length > 0));
+  const canToggle = scopeOptions.length > 1;
+  const matchups = scopeOptions.find(([value]) => value === scope)?.[2] ?? starterMatchups;
+  // Rows expanded to show the batter's career line against the pitcher
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const toggleExpanded = (key: string) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
   if (matchups.length === 0) {
     return <p className="text-gray-400">No matchups.</p>;
   }
+  const showScore = matchups.some(m => m.score !== undefined);
+  const columnCount = 15 + (isGameSpecific ? 0 : 1) + (showScore ? 1 : 0);
 
   return (
-    <table className="min-w-full border-collapse text-sm text-gray-300">
-      <thead className="bg-gray-700">
-        <tr>
-          {!isGameSpecific && <th className="px-2 py-2 text-left border-b border-gray-600">#</th>}
-          <th className="px-2 py-2 text-left border-b border-gray-600">Batter</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">xwOBA</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">HR/PA</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">LA</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">Brls/PA</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">Hard%</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">K%</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">BB%</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">Whiff%</th>
-          <th className="px-2 py-2 text-right border-b border-gray-600">EV</th>
-        </tr>
-      </thead>
-      <tbody>
-        {matchups.map((m, i) => (
-          <tr
-            key={`${m.game_pk}-${m.batter_id}`}
-            className={`border-b border-gray-700 ${i % 2 ? 'bg-gray-800' : 'bg-gray-750'}`} // Alternating dark rows
-          >
-            {!isGameSpecific && (
-              <td className="px-2 py-2">{i + 1}</td>
-            )}
-            <td className="px-2 py-2">
-              {isGameSpecific && m.lineup_position ? `${m.lineup_position}. ` : ''}
-              {m.batter_name}
-              {m.batter_hand ? ` (${m.batter_hand})` : ''}
-            </td>
-            <td className={`px-2 py-2 text-right ${getXwobaColor(m.avg_xwoba)}`}>
-              {m.avg_xwoba.toFixed(3)}
-            </td>
-            <td className="px-2 py-2 text-right font-mono">
-              {m.avg_hr_per_pa ? m.avg_hr_per_pa.toFixed(3) : 'N/A'}
-            </td>
-            <td className="px-2 py-2 text-right">
-              {m.avg_launch_angle.toFixed(1)}
-            </td>
-            <td className="px-2 py-2 text-right">
-              {m.avg_barrels_per_pa.toFixed(3)}
-            </td>
-            <td className={`px-2 py-2 text-right ${getHardHitColor(m.avg_hard_hit_pct || 0)}`}>
-              {m.avg_hard_hit_pct ? (m.avg_hard_hit_pct * 100).toFixed(1) : 'N/A'}%
-            </td>
-            <td className={`px-2 py-2 text-right ${getKPercentColor(m.avg_k_percent || 0)}`}>
-              {m.avg_k_percent ? (m.avg_k_percent * 100).toFixed(1) : 'N/A'}%
-            </td>
-            <td className={`px-2 py-2 text-right ${getBBPercentColor(m.avg_bb_percent || 0)}`}>
-              {m.avg_bb_percent ? (m.avg_bb_percent * 100).toFixed(1) : 'N/A'}%
-            </td>
-            <td className={`px-2 py-2 text-right ${getWhiffPercentColor(m.avg_swing_miss_percent || 0)}`}>
-              {m.avg_swing_miss_percent ? (m.avg_swing_miss_percent * 100).toFixed(1) : 'N/A'}%
-            </td>
-            <td className="px-2 py-2 text-right">
-              {m.avg_exit_velocity ? m.avg_exit_velocity.toFixed(1) : 'N/A'}
-            </td>
+    <>
+      {canToggle && (
+        <div className="mb-2 flex gap-1 text-xs">
+          {scopeOptions.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setScope(value)}
+              className={`px-2 py-0.5 rounded border border-gray-600 ${scope === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      <table className="min-w-full border-collapse text-sm text-gray-300">
+        <thead className="bg-gray-700">
+          <tr>
+            {!isGameSpecific && <th className="px-2 py-2 text-left border-b border-gray-600">#</th>}
+            <th className="px-2 py-2 text-left border-b border-gray-600">Batter</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">xwOBA</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">HR/PA</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">LA</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">Brls/PA</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">Hard%</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">K%</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">BB%</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">Whiff%</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">EV</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">xPA</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">xHR</th>
+            <th className="px-2 py-2 text-right border-b border-gray-600">xTB</th>
+            <th className="px-2 py-2 text-center border-b border-gray-600" title="Sample-size confidence (hover for PA and seasons)">Conf</th>
+            {showScore && <th className="px-2 py-2 text-right border-b border-gray-600" title="Composite score for the selected profile (50 = league average)">Score</th>}
           </tr>
-        ))}
-      </tbody>
-    </table>
+        </thead>
+        <tbody>
+          {matchups.map((m, i) => {
+            const rowKey = `${m.game_pk}-${m.batter_id}-${m.pitcher_id}`;
+            const isExpanded = expanded.has(rowKey);
+            return (
+              <React.Fragment key={rowKey}>
+                <tr
+                  className={`border-b border-gray-700 ${i % 2 ? 'bg-gray-800' : 'bg-gray-750'}`} // Alternating dark rows
+                >
+                  {!isGameSpecific && (
+                    <td className="px-2 py-2">{i + 1}</td>
+                  )}
+                  <td className="px-2 py-2">
+                    <button
+                      onClick={() => toggleExpanded(rowKey)}
+                      className="mr-1 text-gray-500 hover:text-gray-300"
+                      title={`Career vs ${m.pitcher_name ?? 'pitcher'}${m.bvp ? ` (${m.bvp.pa} PA)` : ''}`}
+                      aria-expanded={isExpanded}
+                    >
+                      {isExpanded ? '▾' : '▸'}
+                    </button>
+                    {isGameSpecific && m.lineup_position ? `${m.lineup_position}. ` : ''}
+                    {m.batter_name}
+                    {m.batter_hand ? ` (${m.batter_hand})` : ''}
+                  </td>
+                  <td className={`px-2 py-2 text-right ${getStatColor(m, 'avg_xwoba')}`} title={getStatTitle(m, 'avg_xwoba')}>
+                    {m.avg_xwoba.toFixed(3)}
+                  </td>
+                  <td className={`px-2 py-2 text-right font-mono ${getStatColor(m, 'avg_hr_per_pa')}`} title={getStatTitle(m, 'avg_hr_per_pa')}>
+                    {m.avg_hr_per_pa ? m.avg_hr_per_pa.toFixed(3) : 'N/A'}
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    {m.avg_launch_angle.toFixed(1)}
+                  </td>
+                  <td className={`px-2 py-2 text-right ${getStatColor(m, 'avg_barrels_per_pa')}`} title={getStatTitle(m, 'avg_barrels_per_pa')}>
+                    {m.avg_barrels_per_pa.toFixed(3)}
+                  </td>
+                  <td className={`px-2 py-2 text-right ${getStatColor(m, 'avg_hard_hit_pct')}`} title={getStatTitle(m, 'avg_hard_hit_pct')}>
+                    {m.avg_hard_hit_pct ? (m.avg_hard_hit_pct * 100).toFixed(1) : 'N/A'}%
+                  </td>
+                  <td className={`px-2 py-2 text-right ${getStatColor(m, 'avg_k_percent')}`} title={getStatTitle(m, 'avg_k_percent')}>
+                    {m.avg_k_percent ? (m.avg_k_percent * 100).toFixed(1) : 'N/A'}%
+                  </td>
+                  <td className={`px-2 py-2 text-right ${getStatColor(m, 'avg_bb_percent')}`} title={getStatTitle(m, 'avg_bb_percent')}>
+                    {m.avg_bb_percent ? (m.avg_bb_percent * 100).toFixed(1) : 'N/A'}%
+                  </td>
+                  <td className={`px-2 py-2 text-right ${getStatColor(m, 'avg_swing_miss_percent')}`} title={getStatTitle(m, 'avg_swing_miss_percent')}>
+                    {m.avg_swing_miss_percent ? (m.avg_swing_miss_percent * 100).toFixed(1) : 'N/A'}%
+                  </td>
+                  <td className={`px-2 py-2 text-right ${getStatColor(m, 'avg_exit_velocity')}`} title={getStatTitle(m, 'avg_exit_velocity')}>
+                    {m.avg_exit_velocity ? m.avg_exit_velocity.toFixed(1) : 'N/A'}
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    {m.expected_pa != null ? m.expected_pa.toFixed(2) : 'N/A'}
+                  </td>
+                  <td className="px-2 py-2 text-right font-mono">
+                    {m.proj_hr != null ? m.proj_hr.toFixed(2) : 'N/A'}
+                  </td>
+                  <td className="px-2 py-2 text-right font-mono">
+                    {m.proj_tb != null ? m.proj_tb.toFixed(2) : 'N/A'}
+                  </td>
+                  <td className="px-2 py-2 text-center">
+                    <ConfidenceBadge matchup={m} />
+                  </td>
+                  {showScore && (
+                    <td className="px-2 py-2 text-right font-mono" title={m.score_rank ? `#${m.score_rank} on the slate` : undefined}>
+                      {m.score != null ? m.score.toFixed(1) : 'N/A'}
+                    </td>
+                  )}
+                </tr>
+                {isExpanded && (
+                  <tr className="border-b border-gray-700 bg-gray-900 text-xs">
+                    <td colSpan={columnCount} className="px-4 py-2">
+                      <BvpHistory bvp={m.bvp} pitcherName={m.pitcher_name} modelWeight={m.bvp_weight} />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </>
   );
 }
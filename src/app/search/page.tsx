@@ -5,9 +5,31 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import { Database } from '@/types/database.types';
 import { supabaseBrowser } from '@/lib/supabaseBrowserClient';
 import ESPNAuth from '@/components/ESPNAuth';
+import ConfidenceBadge from '@/components/ConfidenceBadge';
+import { favorablePercentile, indexMatchup, LeagueDistributions, percentileBand } from '@/lib/normalization';
+import { FormTrend, formTrend } from '@/lib/recentForm';
 type Matchup = Database['public']['Tables']['daily_matchups']['Row'];
 type Player = Database['public']['Tables']['players']['Row'];
 
+// Hot/cold arrows from form_trend (form-adjusted minus regular xwOBA); neutral shows nothing
+const FORM_ARROWS: Record<Exclude<FormTrend, 'neutral'>, { arrow: string; className: string; label: string }> = {
+  hot: { arrow: '▲', className: 'text-orange-400', label: 'Hot' },
+  cold: { arrow: '▼', className: 'text-sky-400', label: 'Cold' },
+};
+
+function FormArrow({ matchup }: { matchup: Matchup }) {
+  const trend = formTrend(matchup.form_trend);
+  if (!trend || trend === 'neutral' || matchup.form_xwoba == null || matchup.form_trend == null) return null;
+  const { arrow, className, label } = FORM_ARROWS[trend];
+  const delta = `${matchup.form_trend > 0 ? '+' : ''}${matchup.form_trend.toFixed(3)}`;
+  const samples = `batter ${matchup.batter_form_pa ?? 0} PA, pitcher ${matchup.pitcher_form_pa ?? 0} PA`;
+  return (
+    <span className={className} title={`${label}: ${matchup.form_xwoba.toFixed(3)} on recent form (${delta}) · ${samples} in the longest form window`}>
+      {arrow}
+    </span>
+  );
+}
+
 interface PlayerWith7DayMatchups extends Player {
   matchupsByDate: Record<string, Matchup[]>;
 }
@@ -98,6 +120,15 @@ function PlayerSearchPageContent() {
   const [espnCredentials, setEspnCredentials] = useState<{ espnS2: string; espnSWID: string } | null>(null);
   const [isESPNAuthenticated, setIsESPNAuthenticated] = useState(false);
 
+  // League distributions for the xwOBA color scale (same indexes /api/matchups returns)
+  const [distributions, setDistributions] = useState<LeagueDistributions | null>(null);
+  useEffect(() => {
+    fetch('/api/league-distributions')
+      .then(res => (res.ok ? res.json() : null))
+      .then(body => setDistributions(body?.distributions ?? null))
+      .catch(error => console.error('Error loading league distributions:', error));
+  }, []);
+
 
   // Generate array of next 7 days (today + next 6)
   const next7Days = useMemo(() => {
@@ -146,6 +177,8 @@ function PlayerSearchPageContent() {
         .from('daily_matchups')
         .select('*')
         .eq('batter_id', playerId)
+        .eq('matchup_scope', 'starter')
+        .is('superseded_at', null)
         .in('game_date', next7Days)
         .order('avg_xwoba', { ascending: false });
 
@@ -554,11 +587,16 @@ function PlayerSearchPageContent() {
     return () => clearTimeout(timeoutId);
   }, [searchTerm, searchPlayers]);
 
-  const getXwobaColor = (xwoba: number): string => {
-    if (xwoba >= 0.400) return 'text-blue-400 font-semibold';
-    if (xwoba >= 0.350) return 'text-green-400';
-    if (xwoba >= 0.300) return 'text-yellow-400';
-    return 'text-red-400';
+  const getXwobaColor = (matchup: Matchup): string => {
+    if (!distributions) return '';
+    const favorable = favorablePercentile('avg_xwoba', indexMatchup(matchup, distributions).avg_xwoba);
+    if (favorable == null) return '';
+    return {
+      elite: 'text-blue-400 font-semibold',
+      good: 'text-green-400',
+      average: 'text-yellow-400',
+      poor: 'text-red-400',
+    }[percentileBand(favorable)];
   };
 
   const formatDate = (dateString: string): string => {
@@ -810,9 +848,16 @@ function PlayerSearchPageContent() {
                         <td key={date} className="px-3 py-2 text-center">
                           {bestMatchup ? (
                             <div>
-                              <div className={`font-mono text-sm ${getXwobaColor(bestMatchup.avg_xwoba)}`}>
+                              <div className={`font-mono text-sm ${getXwobaColor(bestMatchup)}`}>
                                 {bestMatchup.avg_xwoba.toFixed(3)}
+                                <FormArrow matchup={bestMatchup} />{' '}
+                                <ConfidenceBadge matchup={bestMatchup} compact />
                               </div>
+                              {bestMatchup.proj_tb != null && (
+                                <div className="text-xs text-gray-300 font-mono">
+                                  {bestMatchup.proj_tb.toFixed(2)} TB · {(bestMatchup.proj_hr ?? 0).toFixed(2)} HR
+                                </div>
+                              )}
                               <div className="text-xs text-gray-400 mt-1">
                                 vs {bestMatchup.pitcher_name?.split(' ').pop() || 'TBD'}
                                 {bestMatchup.pitcher_hand && ` (${bestMatchup.pitcher_hand})`}
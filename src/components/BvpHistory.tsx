@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import type { BvpRecord } from '@/lib/batterVsPitcher';
+
+interface BvpHistoryProps {
+  bvp: BvpRecord | null;
+  pitcherName: string | null;
+  // Weight the history got in avg_xwoba at ingest (daily_matchups.bvp_weight)
+  modelWeight: number | null;
+}
+
+// Below this many PA the head-to-head line is flagged as a small sample
+const SMALL_SAMPLE_PA = 20;
+
+const formatRate = (value: number | null): string => (value != null ? value.toFixed(3).replace(/^0/, '') : '—');
+
+export default function BvpHistory({ bvp, pitcherName, modelWeight }: BvpHistoryProps) {
+  const opponent = pitcherName ?? 'this pitcher';
+  if (!bvp) {
+    return <span className="text-gray-500">No head-to-head history loaded for {opponent} yet.</span>;
+  }
+  if (bvp.pa === 0) {
+    return <span className="text-gray-500">Has never faced {opponent} (through {bvp.refreshed_through}).</span>;
+  }
+
+  const avg = bvp.ab > 0 ? bvp.hits / bvp.ab : null;
+  const small = bvp.pa < SMALL_SAMPLE_PA;
+  return (
+    <span className="flex flex-wrap items-center gap-x-3 gap-y-1">
+      <span className="text-gray-400">Career vs {opponent}:</span>
+      <span>
+        <span className="font-semibold">{bvp.pa}</span> PA
+      </span>
+      <span>{bvp.hits}-for-{bvp.ab} ({formatRate(avg)})</span>
+      <span>{bvp.home_runs} HR</span>
+      <span>{bvp.strikeouts} K</span>
+      <span>{bvp.walks} BB</span>
+      <span>
+        xwOBA <span className="font-mono">{formatRate(bvp.xwoba)}</span>
+      </span>
+      <span
+        className={`px-1.5 py-0.5 rounded text-xs ${small ? 'bg-yellow-900 text-yellow-300' : 'bg-gray-700 text-gray-300'}`}
+        title={`${bvp.first_game_date ?? '?'} – ${bvp.last_game_date ?? '?'}, refreshed through ${bvp.refreshed_through}`}
+      >
+        {small ? `Small sample (${bvp.pa} PA)` : `${bvp.pa} PA sample`}
+      </span>
+      <span className="text-xs text-gray-500">
+        {modelWeight ? `${(modelWeight * 100).toFixed(1)}% of xwOBA` : 'Not in the model'}
+      </span>
+    </span>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { Database } from '@/types/database.types';
+
+type Matchup = Database['public']['Tables']['daily_matchups']['Row'];
+
+type ConfidenceFields = Pick<
+  Matchup,
+  | 'confidence_score'
+  | 'confidence_tier'
+  | 'batter_split_pa'
+  | 'pitcher_split_pa'
+  | 'batter_split_seasons'
+  | 'pitcher_split_seasons'
+>;
+
+interface ConfidenceBadgeProps {
+  matchup: ConfidenceFields;
+  // Compact renders bars only (7-day grid); otherwise bars and the tier name
+  compact?: boolean;
+}
+
+const TIER_STYLES: Record<string, { bars: number; color: string; label: string }> = {
+  high: { bars: 3, color: 'bg-green-400', label: 'High' },
+  medium: { bars: 2, color: 'bg-yellow-400', label: 'Med' },
+  low: { bars: 1, color: 'bg-red-400', label: 'Low' },
+};
+
+const describeSample = (who: string, pa: number | null, seasons: number | null): string =>
+  `${who} ${pa != null ? `${pa} PA` : 'PA unknown'}${seasons != null ? ` (${seasons} season${seasons === 1 ? '' : 's'})` : ''}`;
+
+export default function ConfidenceBadge({ matchup, compact = false }: ConfidenceBadgeProps) {
+  const style = matchup.confidence_tier ? TIER_STYLES[matchup.confidence_tier] : undefined;
+  if (!style || matchup.confidence_score == null) {
+    return <span className="text-gray-500 text-xs">—</span>;
+  }
+
+  const title = [
+    `Confidence ${matchup.confidence_score.toFixed(2)}`,
+    describeSample('Batter', matchup.batter_split_pa, matchup.batter_split_seasons),
+    describeSample('Pitcher', matchup.pitcher_split_pa, matchup.pitcher_split_seasons),
+  ].join(' · ');
+
+  return (
+    <span className="inline-flex items-center gap-1" title={title}>
+      <span className="inline-flex items-end gap-px h-3">
+        {[1, 2, 3].map(bar => (
+          <span
+            key={bar}
+            className={`w-1 rounded-sm ${bar <= style.bars ? style.color : 'bg-gray-600'}`}
+            style={{ height: `${bar * 4}px` }}
+          />
+        ))}
+      </span>
+      {!compact && <span className="text-xs text-gray-400">{style.label}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,256 @@
+// src/lib/backtest.ts
+//
+// Backtest metrics for the matchup model: daily_matchups predictions joined to
+// matchup_outcomes and scored three ways. Calibration buckets sort pairs by a
+// predicted rate and compare each bucket's mean prediction with what happened;
+// Spearman rank correlation checks the ordering; top-N hit rates check what the
+// Top N table would have shown each day. HR probability gets a Brier score, with
+// the pair's actual PA turning a per-PA rate into P(at least one HR).
+//
+// Only pairs that faced each other (outcome PA > 0) are scored: the model predicts
+// per-PA rates, not whether the batter plays.
+//
+// No path aliases here: scripts/backtest-matchups.ts imports this file directly.
+import type { MatchupOutcome } from './matchupOutcomes';
+
+export interface BacktestPrediction {
+  game_date: string;
+  game_pk: number;
+  batter_id: number;
+  pitcher_id: number;
+  avg_xwoba: number | null;
+  avg_hr_per_pa: number | null;
+  avg_k_percent: number | null;
+}
+
+export interface BacktestSample {
+  prediction: BacktestPrediction;
+  outcome: MatchupOutcome;
+}
+
+export interface CalibrationBucket {
+  count: number;
+  pa: number;
+  minPredicted: number;
+  maxPredicted: number;
+  meanPredicted: number;
+  actual: number | null;
+}
+
+export interface RateBacktest {
+  samples: number;
+  meanPredicted: number | null;
+  actual: number | null;
+  // PA-weighted mean |predicted - actual| across buckets
+  calibrationError: number | null;
+  spearman: number | null;
+  buckets: CalibrationBucket[];
+}
+
+export interface TopNResult {
+  n: number;
+  rankedBy: 'avg_xwoba' | 'avg_hr_per_pa';
+  dates: number;
+  pairs: number;
+  hitRate: number | null;
+  homeRunRate: number | null;
+  xwoba: number | null;
+}
+
+export interface BacktestMetrics {
+  samples: number;
+  unmatched: number;
+  didNotFace: number;
+  xwoba: RateBacktest;
+  hrPerPa: RateBacktest & { brier: number | null; baselineBrier: number | null; brierSkill: number | null };
+  kPercent: RateBacktest;
+  topN: TopNResult[];
+  // Every scored pair, the all-pairs baseline for the top-N rates
+  baseline: Omit<TopNResult, 'n' | 'rankedBy'>;
+}
+
+export const DEFAULT_CALIBRATION_BUCKETS = 10;
+export const DEFAULT_TOP_N = [5, 10, 25];
+
+const pairKey = (gamePk: number, batterId: number, pitcherId: number) => `${gamePk}_${batterId}_${pitcherId}`;
+
+/** Predictions matched to outcomes by game, batter and pitcher; pairs with no PA are counted but not returned. */
+export function joinOutcomes(
+  predictions: BacktestPrediction[],
+  outcomes: MatchupOutcome[]
+): { samples: BacktestSample[]; unmatched: number; didNotFace: number } {
+  const byPair = new Map(outcomes.map(o => [pairKey(o.game_pk, o.batter_id, o.pitcher_id), o]));
+  const samples: BacktestSample[] = [];
+  let unmatched = 0;
+  let didNotFace = 0;
+  predictions.forEach(prediction => {
+    const outcome = byPair.get(pairKey(prediction.game_pk, prediction.batter_id, prediction.pitcher_id));
+    if (!outcome) unmatched++;
+    else if (outcome.pa <= 0) didNotFace++;
+    else samples.push({ prediction, outcome });
+  });
+  return { samples, unmatched, didNotFace };
+}
+
+// Ranks starting at 1, ties sharing their average rank
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+    i = j + 1;
+  }
+  return result;
+}
+
+/** Spearman rank correlation; null with fewer than three pairs or no variation. */
+export function spearman(xs: number[], ys: number[]): number | null {
+  if (xs.length !== ys.length || xs.length < 3) return null;
+  const rx = ranks(xs);
+  const ry = ranks(ys);
+  const mean = (rx.length + 1) / 2;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < rx.length; i++) {
+    cov += (rx[i] - mean) * (ry[i] - mean);
+    varX += (rx[i] - mean) ** 2;
+    varY += (ry[i] - mean) ** 2;
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : null;
+}
+
+interface RateAccessor {
+  predicted: (s: BacktestSample) => number | null;
+  // Realized events and the PA they are a rate over
+  events: (s: BacktestSample) => number;
+  pa: (s: BacktestSample) => number;
+}
+
+/**
+ * Calibration and rank correlation for one per-PA rate. Pairs are sorted by prediction
+ * and split into `bucketCount` buckets of (nearly) equal size; predictions and actuals
+ * are PA-weighted within each.
+ */
+export function backtestRate(samples: BacktestSample[], accessor: RateAccessor, bucketCount = DEFAULT_CALIBRATION_BUCKETS): RateBacktest {
+  const scored = samples
+    .map(s => ({ predicted: accessor.predicted(s), events: accessor.events(s), pa: accessor.pa(s) }))
+    .filter((s): s is { predicted: number; events: number; pa: number } => s.predicted != null && s.pa > 0)
+    .sort((a, b) => a.predicted - b.predicted);
+
+  const buckets: CalibrationBucket[] = [];
+  const size = Math.max(1, Math.ceil(scored.length / bucketCount));
+  for (let i = 0; i < scored.length; i += size) {
+    const slice = scored.slice(i, i + size);
+    const pa = slice.reduce((sum, s) => sum + s.pa, 0);
+    buckets.push({
+      count: slice.length,
+      pa,
+      minPredicted: slice[0].predicted,
+      maxPredicted: slice[slice.length - 1].predicted,
+      meanPredicted: slice.reduce((sum, s) => sum + s.predicted * s.pa, 0) / pa,
+      actual: slice.reduce((sum, s) => sum + s.events, 0) / pa,
+    });
+  }
+
+  const totalPa = scored.reduce((sum, s) => sum + s.pa, 0);
+  return {
+    samples: scored.length,
+    meanPredicted: totalPa > 0 ? scored.reduce((sum, s) => sum + s.predicted * s.pa, 0) / totalPa : null,
+    actual: totalPa > 0 ? scored.reduce((sum, s) => sum + s.events, 0) / totalPa : null,
+    calibrationError: totalPa > 0
+      ? buckets.reduce((sum, b) => sum + Math.abs(b.meanPredicted - (b.actual ?? 0)) * b.pa, 0) / totalPa
+      : null,
+    spearman: spearman(scored.map(s => s.predicted), scored.map(s => s.events / s.pa)),
+    buckets,
+  };
+}
+
+// P(at least one HR) over `pa` plate appearances at a per-PA rate
+const homeRunProbability = (hrPerPa: number, pa: number) => 1 - Math.pow(1 - Math.min(Math.max(hrPerPa, 0), 1), pa);
+
+/**
+ * Brier score of P(at least one HR) against whether the batter homered off that pitcher,
+ * and the same score for a constant league rate (the pooled HR/PA of the sample).
+ * brierSkill = 1 - brier / baselineBrier: above 0 beats the constant rate.
+ */
+export function homeRunBrier(samples: BacktestSample[]): { brier: number | null; baselineBrier: number | null; brierSkill: number | null } {
+  const scored = samples.filter(s => s.prediction.avg_hr_per_pa != null);
+  if (!scored.length) return { brier: null, baselineBrier: null, brierSkill: null };
+  const totalPa = scored.reduce((sum, s) => sum + s.outcome.pa, 0);
+  const leagueRate = scored.reduce((sum, s) => sum + s.outcome.home_runs, 0) / totalPa;
+
+  let brier = 0;
+  let baseline = 0;
+  scored.forEach(({ prediction, outcome }) => {
+    const happened = outcome.home_runs > 0 ? 1 : 0;
+    brier += (homeRunProbability(prediction.avg_hr_per_pa!, outcome.pa) - happened) ** 2;
+    baseline += (homeRunProbability(leagueRate, outcome.pa) - happened) ** 2;
+  });
+  brier /= scored.length;
+  baseline /= scored.length;
+  return { brier, baselineBrier: baseline, brierSkill: baseline > 0 ? 1 - brier / baseline : null };
+}
+
+function summarizePairs(samples: BacktestSample[]): Omit<TopNResult, 'n' | 'rankedBy' | 'dates'> {
+  const denom = samples.reduce((sum, s) => sum + s.outcome.xwoba_denom, 0);
+  return {
+    pairs: samples.length,
+    hitRate: samples.length ? samples.filter(s => s.outcome.hits > 0).length / samples.length : null,
+    homeRunRate: samples.length ? samples.filter(s => s.outcome.home_runs > 0).length / samples.length : null,
+    xwoba: denom > 0 ? samples.reduce((sum, s) => sum + s.outcome.xwoba_sum, 0) / denom : null,
+  };
+}
+
+/** Each date's top `n` pairs by a prediction, pooled across dates. */
+export function topNHitRates(samples: BacktestSample[], n: number, rankedBy: TopNResult['rankedBy']): TopNResult {
+  const byDate = new Map<string, BacktestSample[]>();
+  samples.forEach(s => {
+    if (s.prediction[rankedBy] == null) return;
+    if (!byDate.has(s.prediction.game_date)) byDate.set(s.prediction.game_date, []);
+    byDate.get(s.prediction.game_date)!.push(s);
+  });
+  const top = Array.from(byDate.values()).flatMap(daySamples =>
+    [...daySamples].sort((a, b) => b.prediction[rankedBy]! - a.prediction[rankedBy]!).slice(0, n)
+  );
+  return { n, rankedBy, dates: byDate.size, ...summarizePairs(top) };
+}
+
+/** Every metric for a set of predictions and their outcomes. */
+export function computeBacktestMetrics(
+  predictions: BacktestPrediction[],
+  outcomes: MatchupOutcome[],
+  { bucketCount = DEFAULT_CALIBRATION_BUCKETS, topN = DEFAULT_TOP_N }: { bucketCount?: number; topN?: number[] } = {}
+): BacktestMetrics {
+  const { samples, unmatched, didNotFace } = joinOutcomes(predictions, outcomes);
+  const dates = new Set(samples.map(s => s.prediction.game_date)).size;
+
+  return {
+    samples: samples.length,
+    unmatched,
+    didNotFace,
+    xwoba: backtestRate(samples, {
+      predicted: s => s.prediction.avg_xwoba,
+      events: s => s.outcome.xwoba_sum,
+      pa: s => s.outcome.xwoba_denom,
+    }, bucketCount),
+    hrPerPa: {
+      ...backtestRate(samples, {
+        predicted: s => s.prediction.avg_hr_per_pa,
+        events: s => s.outcome.home_runs,
+        pa: s => s.outcome.pa,
+      }, bucketCount),
+      ...homeRunBrier(samples),
+    },
+    kPercent: backtestRate(samples, {
+      predicted: s => s.prediction.avg_k_percent,
+      events: s => s.outcome.strikeouts,
+      pa: s => s.outcome.pa,
+    }, bucketCount),
+    topN: topN.flatMap(n => [topNHitRates(samples, n, 'avg_xwoba'), topNHitRates(samples, n, 'avg_hr_per_pa')]),
+    baseline: { dates, ...summarizePairs(samples) },
+  };
+}
@@ -0,0 +1,379 @@
+// src/lib/batterVsPitcher.ts
+//
+// Career batter-vs-pitcher (BvP) history. For every batter/pitcher pair in a date's
+// daily_matchups, Statcast pitch data is reduced to plate appearances and totalled
+// into batter_vs_pitcher. Refreshes are incremental: each row records the last game
+// date it includes, and only later pitches are fetched and added.
+//
+// Head-to-head samples are small (a few dozen PA at most for most pairs), so ingest
+// only blends them into avg_xwoba when asked, with a weight that grows with PA.
+//
+// No path aliases here: scripts/refresh-batter-vs-pitcher.ts imports this file directly.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import Papa from 'papaparse';
+
+import type { Database } from '../types/database.types';
+import { addDays } from './dateRange';
+import { fixtureFetch, getFixtureMode } from './httpFixtures';
+
+type BvpRow = Database['public']['Tables']['batter_vs_pitcher']['Row'];
+
+export type BvpRecord = Pick<
+  BvpRow,
+  | 'batter_id'
+  | 'pitcher_id'
+  | 'pa'
+  | 'ab'
+  | 'hits'
+  | 'home_runs'
+  | 'strikeouts'
+  | 'walks'
+  | 'xwoba_sum'
+  | 'xwoba_denom'
+  | 'xwoba'
+  | 'first_game_date'
+  | 'last_game_date'
+  | 'refreshed_through'
+>;
+
+export type BvpTotals = Omit<BvpRecord, 'batter_id' | 'pitcher_id' | 'xwoba' | 'refreshed_through'>;
+
+export interface BvpPair {
+  batterId: number;
+  pitcherId: number;
+}
+
+// One pitch of a statcast_search CSV (only the columns used here)
+export interface StatcastPitch {
+  game_pk: number;
+  game_date: string;
+  at_bat_number: number;
+  batter: number;
+  pitcher: number;
+  events: string;
+  estimated_woba_using_speedangle: number | null;
+  woba_value: number | null;
+  woba_denom: number | null;
+}
+
+export const STATCAST_SEARCH_URL = 'https://baseballsavant.mlb.com/statcast_search/csv';
+// First season of Statcast pitch data
+const FIRST_STATCAST_SEASON = 2008;
+// Savant is scraped, not an API; one pitcher's search at a time with a pause between
+export const BVP_REQUEST_DELAY_MS = 5000;
+
+// PA at which a pair gets half of the ingest bvpWeight cap
+const BVP_HALF_WEIGHT_PA = 60;
+// Upper bound for the ingest bvpWeight option
+export const MAX_BVP_WEIGHT = 0.25;
+
+const HIT_EVENTS = new Set(['single', 'double', 'triple', 'home_run']);
+const STRIKEOUT_EVENTS = new Set(['strikeout', 'strikeout_double_play']);
+const WALK_EVENTS = new Set(['walk', 'intent_walk']);
+const NON_AB_EVENTS = new Set([
+  'walk', 'intent_walk', 'hit_by_pitch', 'sac_fly', 'sac_fly_double_play',
+  'sac_bunt', 'sac_bunt_double_play', 'catcher_interf',
+]);
+// Events recorded on a pitch without the plate appearance ending (baserunning outs, truncated PAs)
+const NON_PA_EVENT_PREFIXES = ['caught_stealing', 'pickoff', 'stolen_base', 'wild_pitch', 'passed_ball', 'other_advance', 'truncated_pa'];
+
+const isPlateAppearanceEvent = (event: string): boolean =>
+  !!event && !NON_PA_EVENT_PREFIXES.some(prefix => event.startsWith(prefix));
+
+export const bvpKey = (batterId: number, pitcherId: number) => `${batterId}_${pitcherId}`;
+
+export const emptyBvpTotals = (): BvpTotals => ({
+  pa: 0,
+  ab: 0,
+  hits: 0,
+  home_runs: 0,
+  strikeouts: 0,
+  walks: 0,
+  xwoba_sum: 0,
+  xwoba_denom: 0,
+  first_game_date: null,
+  last_game_date: null,
+});
+
+/**
+ * Statcast search for every regular-season pitch `pitcherId` threw to `batterIds`,
+ * from `sinceDate` (exclusive; null = the start of Statcast) through `throughDate`.
+ */
+export function buildBvpSearchUrl(pitcherId: number, batterIds: number[], sinceDate: string | null, throughDate: string): string {
+  const lastSeason = parseInt(throughDate.slice(0, 4), 10);
+  const firstSeason = sinceDate ? parseInt(sinceDate.slice(0, 4), 10) : FIRST_STATCAST_SEASON;
+  const seasons = Array.from({ length: lastSeason - firstSeason + 1 }, (_, i) => `${lastSeason - i}|`).join('');
+
+  const params = new URLSearchParams({
+    all: 'true',
+    hfGT: 'R|',
+    hfSea: seasons,
+    player_type: 'pitcher',
+    game_date_gt: sinceDate ? addDays(sinceDate, 1) : '',
+    game_date_lt: throughDate,
+    min_pitches: '0',
+    min_results: '0',
+    group_by: 'name',
+    sort_col: 'pitches',
+    sort_order: 'desc',
+    type: 'details',
+    minors: 'false',
+  });
+  params.append('pitchers_lookup[]', String(pitcherId));
+  batterIds.forEach(id => params.append('batters_lookup[]', String(id)));
+  return `${STATCAST_SEARCH_URL}?${params.toString()}`;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value == null || value === '' || value === 'null') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+/** Pitches from a statcast_search details CSV. Rows without a game, batter or pitcher are dropped. */
+export function parseStatcastCsv(csv: string): StatcastPitch[] {
+  const { data } = Papa.parse<Record<string, string>>(csv, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.replace(/^\uFEFF/, '').replace(/"/g, '').trim(),
+  });
+  return data.flatMap(row => {
+    const gamePk = toNumber(row.game_pk);
+    const batter = toNumber(row.batter);
+    const pitcher = toNumber(row.pitcher);
+    if (gamePk == null || batter == null || pitcher == null || !row.game_date) return [];
+    return [{
+      game_pk: gamePk,
+      game_date: row.game_date,
+      at_bat_number: toNumber(row.at_bat_number) ?? 0,
+      batter,
+      pitcher,
+      events: (row.events || '').trim(),
+      estimated_woba_using_speedangle: toNumber(row.estimated_woba_using_speedangle),
+      woba_value: toNumber(row.woba_value),
+      woba_denom: toNumber(row.woba_denom),
+    }];
+  });
+}
+
+/** Adds one plate appearance (its final pitch) to running totals. */
+function addPlateAppearance(totals: BvpTotals, pitch: StatcastPitch): void {
+  const { events } = pitch;
+  totals.pa++;
+  if (!NON_AB_EVENTS.has(events)) totals.ab++;
+  if (HIT_EVENTS.has(events)) totals.hits++;
+  if (events === 'home_run') totals.home_runs++;
+  if (STRIKEOUT_EVENTS.has(events)) totals.strikeouts++;
+  if (WALK_EVENTS.has(events)) totals.walks++;
+  // Savant's xwOBA: the batted-ball estimate when there is one, the actual wOBA value otherwise
+  const denom = pitch.woba_denom ?? 0;
+  if (denom > 0) {
+    totals.xwoba_sum += (pitch.estimated_woba_using_speedangle ?? pitch.woba_value ?? 0) * denom;
+    totals.xwoba_denom += denom;
+  }
+  if (!totals.first_game_date || pitch.game_date < totals.first_game_date) totals.first_game_date = pitch.game_date;
+  if (!totals.last_game_date || pitch.game_date > totals.last_game_date) totals.last_game_date = pitch.game_date;
+}
+
+/**
+ * Plate-appearance totals per batter/pitcher pair (key `${batter}_${pitcher}`).
+ * A PA is the pitch carrying its final event; pitches after `since` only when given.
+ */
+export function aggregatePlateAppearances(pitches: StatcastPitch[], since?: (pair: BvpPair) => string | null): Map<string, BvpTotals> {
+  const totals = new Map<string, BvpTotals>();
+  const seen = new Set<string>();
+  for (const pitch of pitches) {
+    if (!isPlateAppearanceEvent(pitch.events)) continue;
+    const paKey = `${pitch.game_pk}_${pitch.at_bat_number}`;
+    if (seen.has(paKey)) continue;
+    seen.add(paKey);
+    const after = since?.({ batterId: pitch.batter, pitcherId: pitch.pitcher });
+    if (after && pitch.game_date <= after) continue;
+
+    const key = bvpKey(pitch.batter, pitch.pitcher);
+    if (!totals.has(key)) totals.set(key, emptyBvpTotals());
+    addPlateAppearance(totals.get(key)!, pitch);
+  }
+  return totals;
+}
+
+/** Stored totals plus newly fetched ones. */
+export function mergeBvpTotals(base: BvpTotals, added: BvpTotals): BvpTotals {
+  const earliest = [base.first_game_date, added.first_game_date].filter((d): d is string => !!d).sort()[0] ?? null;
+  const latest = [base.last_game_date, added.last_game_date].filter((d): d is string => !!d).sort().pop() ?? null;
+  return {
+    pa: base.pa + added.pa,
+    ab: base.ab + added.ab,
+    hits: base.hits + added.hits,
+    home_runs: base.home_runs + added.home_runs,
+    strikeouts: base.strikeouts + added.strikeouts,
+    walks: base.walks + added.walks,
+    xwoba_sum: base.xwoba_sum + added.xwoba_sum,
+    xwoba_denom: base.xwoba_denom + added.xwoba_denom,
+    first_game_date: earliest,
+    last_game_date: latest,
+  };
+}
+
+export const bvpXwoba = (totals: Pick<BvpTotals, 'xwoba_sum' | 'xwoba_denom'>): number | null =>
+  totals.xwoba_denom > 0 ? totals.xwoba_sum / totals.xwoba_denom : null;
+
+/**
+ * Weight of the head-to-head xwOBA in a blended avg_xwoba: `maxWeight` scaled by
+ * pa / (pa + 60), so 20 PA get a quarter of the cap and 60 PA half. 0 without history.
+ */
+export function bvpModelWeight(record: Pick<BvpRecord, 'xwoba_denom'> | null | undefined, maxWeight: number): number {
+  const pa = record?.xwoba_denom ?? 0;
+  if (pa <= 0 || maxWeight <= 0) return 0;
+  return Math.min(maxWeight, MAX_BVP_WEIGHT) * (pa / (pa + BVP_HALF_WEIGHT_PA));
+}
+
+/** A bvpWeight value clamped to MAX_BVP_WEIGHT; null when it isn't a non-negative number. */
+export function parseBvpWeight(value: unknown): number | null {
+  const n = typeof value === 'string' ? parseFloat(value) : NaN;
+  return isNaN(n) || n < 0 ? null : Math.min(n, MAX_BVP_WEIGHT);
+}
+
+// Ingest default (lineup watcher included): BVP_MODEL_WEIGHT, else 0 = no blending
+export const defaultBvpWeight = (): number => parseBvpWeight(process.env.BVP_MODEL_WEIGHT) ?? 0;
+
+const PAIR_QUERY_PITCHER_BATCH = 10;
+
+/** Stored history for the given pairs, keyed by bvpKey. Pairs without a row are absent. */
+export async function fetchBvpRecords(client: SupabaseClient, pairs: BvpPair[]): Promise<Map<string, BvpRecord>> {
+  const records = new Map<string, BvpRecord>();
+  const wanted = new Set(pairs.map(p => bvpKey(p.batterId, p.pitcherId)));
+  const pitcherIds = Array.from(new Set(pairs.map(p => p.pitcherId)));
+
+  for (let i = 0; i < pitcherIds.length; i += PAIR_QUERY_PITCHER_BATCH) {
+    const batchPitchers = new Set(pitcherIds.slice(i, i + PAIR_QUERY_PITCHER_BATCH));
+    const batchBatters = Array.from(new Set(pairs.filter(p => batchPitchers.has(p.pitcherId)).map(p => p.batterId)));
+    const { data, error } = await client
+      .from('batter_vs_pitcher')
+      .select('*')
+      .in('pitcher_id', Array.from(batchPitchers))
+      .in('batter_id', batchBatters);
+    if (error) throw new Error(`Failed to load batter_vs_pitcher: ${error.message}`);
+    (data as BvpRow[] | null)?.forEach(row => {
+      const key = bvpKey(row.batter_id, row.pitcher_id);
+      if (wanted.has(key)) records.set(key, row);
+    });
+  }
+  return records;
+}
+
+/** Distinct batter/pitcher pairs in a date's current starter and bulk matchups. */
+export async function fetchMatchupPairs(client: SupabaseClient, gameDate: string): Promise<BvpPair[]> {
+  const pageSize = 1000; // PostgREST's row cap; a full slate's starter + bulk rows can pass it
+  const pairs = new Map<string, BvpPair>();
+  for (let page = 0; ; page++) {
+    const { data, error } = await client
+      .from('daily_matchups')
+      .select('batter_id, pitcher_id')
+      .eq('game_date', gameDate)
+      .in('matchup_scope', ['starter', 'bulk'])
+      .is('superseded_at', null)
+      .order('game_pk')
+      .order('batter_id')
+      .order('pitcher_id')
+      .order('matchup_scope')
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+    if (error) throw new Error(`Failed to load daily_matchups for ${gameDate}: ${error.message}`);
+    (data || []).forEach((m: { batter_id: number; pitcher_id: number }) =>
+      pairs.set(bvpKey(m.batter_id, m.pitcher_id), { batterId: m.batter_id, pitcherId: m.pitcher_id })
+    );
+    if (!data || data.length < pageSize) break;
+  }
+  return Array.from(pairs.values());
+}
+
+export interface BvpRefreshOptions {
+  // Fetch and total, but write nothing
+  dryRun?: boolean;
+  fetchImpl?: typeof fetch;
+  delayMs?: number;
+  log?: (msg: string) => void;
+}
+
+export interface BvpRefreshResult {
+  pairs: number;
+  pitchers: number;
+  updated: number;
+  newPlateAppearances: number;
+  failedPitchers: number[];
+}
+
+/**
+ * Brings batter_vs_pitcher up to date for every pair in `gameDate`'s matchups,
+ * through the day before. One Statcast search per pitcher, covering their batters
+ * from the oldest refreshed_through among them; PAs a row already includes are
+ * skipped when totalling. A failed search leaves that pitcher's rows as they were.
+ */
+export async function refreshBatterVsPitcher(
+  client: SupabaseClient,
+  gameDate: string,
+  { dryRun = false, fetchImpl = fixtureFetch, delayMs = BVP_REQUEST_DELAY_MS, log = console.log }: BvpRefreshOptions = {}
+): Promise<BvpRefreshResult> {
+  const throughDate = addDays(gameDate, -1);
+  const pairs = await fetchMatchupPairs(client, gameDate);
+  const stored = await fetchBvpRecords(client, pairs);
+  const result: BvpRefreshResult = { pairs: pairs.length, pitchers: 0, updated: 0, newPlateAppearances: 0, failedPitchers: [] };
+
+  const byPitcher = new Map<number, number[]>();
+  pairs.forEach(({ batterId, pitcherId }) => {
+    // Already current (or refreshed for a later date)
+    const through = stored.get(bvpKey(batterId, pitcherId))?.refreshed_through;
+    if (through && through >= throughDate) return;
+    if (!byPitcher.has(pitcherId)) byPitcher.set(pitcherId, []);
+    byPitcher.get(pitcherId)!.push(batterId);
+  });
+  result.pitchers = byPitcher.size;
+  log(`🆚 ${pairs.length} pairs on ${gameDate}; ${byPitcher.size} pitchers to refresh through ${throughDate}`);
+
+  const refreshedThrough = (pair: BvpPair) => stored.get(bvpKey(pair.batterId, pair.pitcherId))?.refreshed_through ?? null;
+  let first = true;
+  for (const [pitcherId, batterIds] of byPitcher) {
+    // Pairs never refreshed need the whole career, so the search starts at the oldest point
+    const sinceDates = batterIds.map(batterId => refreshedThrough({ batterId, pitcherId }));
+    const since = sinceDates.includes(null) ? null : (sinceDates as string[]).sort()[0];
+
+    if (!first && delayMs > 0 && getFixtureMode() !== 'replay') await new Promise(resolve => setTimeout(resolve, delayMs));
+    first = false;
+
+    let pitches: StatcastPitch[];
+    try {
+      const response = await fetchImpl(buildBvpSearchUrl(pitcherId, batterIds, since, throughDate));
+      if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      pitches = parseStatcastCsv(await response.text());
+    } catch (err) {
+      log(`⚠️ Statcast search failed for pitcher ${pitcherId}: ${err instanceof Error ? err.message : String(err)}`);
+      result.failedPitchers.push(pitcherId);
+      continue;
+    }
+
+    const added = aggregatePlateAppearances(pitches, refreshedThrough);
+    const rows = batterIds.map(batterId => {
+      const key = bvpKey(batterId, pitcherId);
+      const previous = stored.get(key);
+      const delta = added.get(key) ?? emptyBvpTotals();
+      result.newPlateAppearances += delta.pa;
+      const totals = previous ? mergeBvpTotals(previous, delta) : delta;
+      return {
+        batter_id: batterId,
+        pitcher_id: pitcherId,
+        ...totals,
+        xwoba: bvpXwoba(totals),
+        refreshed_through: throughDate,
+        updated_at: new Date().toISOString(),
+      };
+    });
+    log(`  ${pitcherId}: ${pitches.length} pitches since ${since ?? 'debut'}, ${rows.length} batters`);
+    result.updated += rows.length;
+
+    if (!dryRun) {
+      const { error } = await client.from('batter_vs_pitcher').upsert(rows, { onConflict: 'batter_id,pitcher_id' });
+      if (error) throw new Error(`Failed to store batter_vs_pitcher for pitcher ${pitcherId}: ${error.message}`);
+    }
+  }
+  return result;
+}
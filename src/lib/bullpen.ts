@@ -0,0 +1,122 @@
+// src/lib/bullpen.ts
+//
+// Bullpen usage for full-game matchups. Season pitching lines from the MLB people
+// endpoint (hydrate=stats) tell starters from relievers and how deep a starter
+// usually goes; relievers share the rest of the game by their innings pitched.
+//
+// No path aliases here: scripts/ import this file directly.
+import type { MlbPerson } from './mlbStatsApi';
+
+export interface PitcherUsage {
+  gamesPitched: number;
+  gamesStarted: number;
+  inningsPitched: number;
+}
+
+export interface BullpenArm {
+  id: number;
+  fullName: string;
+  hand: 'L' | 'R';
+  share: number; // Share of bullpen innings; sums to 1 across the bullpen
+}
+
+// Hydration for /api/v1/people that adds each player's current-season pitching line,
+// plus the game log opener detection reads (src/lib/openers.ts)
+export const PITCHING_STATS_HYDRATE = 'stats(group=[pitching],type=[season,gameLog])';
+
+export const GAME_INNINGS = 9;
+const DEFAULT_STARTER_INNINGS = 5.3;
+const MIN_STARTS_FOR_DEPTH = 3;
+const MIN_STARTER_SHARE = 0.3;
+const MAX_STARTER_SHARE = 0.9;
+const DEFAULT_RELIEVER_INNINGS = 10; // Weight for relievers without a season line (call-ups, rehab)
+
+/** "45.1" → 45⅓. Baseball notation counts outs after the decimal point. */
+export function parseInningsPitched(value: string | number | null | undefined): number {
+  if (value == null || value === '') return 0;
+  const [whole, outs] = String(value).split('.');
+  return (parseInt(whole, 10) || 0) + (parseInt(outs ?? '0', 10) || 0) / 3;
+}
+
+/** A stat-line count as a number. The API sends numbers; numeric strings are tolerated. */
+export function numericStat(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value !== '' && Number.isFinite(Number(value))) return Number(value);
+  return undefined;
+}
+
+/** Innings pitched from a stat line, which the API sends as a string like "45.1". */
+export function inningsPitchedStat(value: unknown): number {
+  return parseInningsPitched(typeof value === 'string' ? value : numericStat(value));
+}
+
+/** Reads the season pitching line from a people-endpoint player hydrated with PITCHING_STATS_HYDRATE. */
+export function parsePitcherUsage(person: MlbPerson | null | undefined): PitcherUsage | null {
+  const stat = person?.stats?.find(
+    s => s.group?.displayName === 'pitching' && (s.type?.displayName ?? 'season') === 'season'
+  )?.splits?.[0]?.stat;
+  if (!stat) return null;
+  return {
+    gamesPitched: numericStat(stat.gamesPitched) ?? numericStat(stat.gamesPlayed) ?? 0,
+    gamesStarted: numericStat(stat.gamesStarted) ?? 0,
+    inningsPitched: inningsPitchedStat(stat.inningsPitched),
+  };
+}
+
+/** Relievers are pitchers who start fewer than half their appearances. Unknown usage counts as relief. */
+export function isReliever(usage: PitcherUsage | null | undefined): boolean {
+  if (!usage || usage.gamesPitched === 0) return true;
+  return usage.gamesStarted / usage.gamesPitched < 0.5;
+}
+
+/** Expected share of the game the starter pitches, from innings per start. */
+export function estimateStarterShare(usage: PitcherUsage | null | undefined): number {
+  const inningsPerStart = usage && usage.gamesStarted >= MIN_STARTS_FOR_DEPTH
+    ? usage.inningsPitched / usage.gamesStarted
+    : DEFAULT_STARTER_INNINGS;
+  return Math.min(MAX_STARTER_SHARE, Math.max(MIN_STARTER_SHARE, inningsPerStart / GAME_INNINGS));
+}
+
+/**
+ * Builds a team's bullpen from its active pitchers (minus the day's starter),
+ * weighting each reliever by season innings pitched.
+ */
+export function buildBullpen(
+  pitchers: { id: number; fullName: string; hand: 'L' | 'R' | undefined }[],
+  usage: Map<number, PitcherUsage>
+): BullpenArm[] {
+  const arms = pitchers
+    .filter(p => p.hand && isReliever(usage.get(p.id)))
+    .map(p => {
+      const u = usage.get(p.id);
+      return {
+        id: p.id,
+        fullName: p.fullName,
+        hand: p.hand as 'L' | 'R',
+        weight: u && u.inningsPitched > 0 ? u.inningsPitched : DEFAULT_RELIEVER_INNINGS,
+      };
+    });
+  const total = arms.reduce((sum, a) => sum + a.weight, 0);
+  return arms.map(({ weight, ...arm }) => ({ ...arm, share: total > 0 ? weight / total : 0 }));
+}
+
+/** Share of bullpen innings thrown by left-handers. */
+export function lefthandedShare(arms: Pick<BullpenArm, 'hand' | 'share'>[]): number {
+  const total = arms.reduce((sum, a) => sum + a.share, 0);
+  if (total <= 0) return 0;
+  return arms.filter(a => a.hand === 'L').reduce((sum, a) => sum + a.share, 0) / total;
+}
+
+/**
+ * Weighted average of numeric stat columns. Weights are renormalized over the
+ * parts given, so callers can drop relievers without usable splits.
+ */
+export function blendStats<K extends string>(parts: { stats: Record<K, number>; weight: number }[]): Record<K, number> | null {
+  const total = parts.reduce((sum, p) => sum + p.weight, 0);
+  if (!parts.length || total <= 0) return null;
+  const blended = {} as Record<K, number>;
+  for (const key of Object.keys(parts[0].stats) as K[]) {
+    blended[key] = parts.reduce((sum, p) => sum + p.stats[key] * p.weight, 0) / total;
+  }
+  return blended;
+}
@@ -0,0 +1,34 @@
+// src/lib/concurrency.ts
+//
+// Bounded-concurrency helpers for fan-out over dates, games and API calls.
+
+/**
+ * Like Promise.all(items.map(fn)) but with at most `limit` calls in flight.
+ * Results keep the input order. A rejection rejects the whole call, so callers
+ * that need failure isolation should catch inside `fn`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/** Parses a ?concurrency= style value, clamped to [1, max]. */
+export function parseConcurrency(value: unknown, fallback: number, max: number): number {
+  const n = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  if (isNaN(n)) return fallback;
+  return Math.min(max, Math.max(1, n));
+}
@@ -0,0 +1,68 @@
+// src/lib/confidence.ts
+//
+// Matchup confidence from the samples under the two splits. Each side's reliability
+// is pa / (pa + half-reliability PA), the usual split-half stabilization curve; the
+// score is the geometric mean of the two, discounted when either side rests on a
+// single season. Tiers bucket the score for the UI and the minConfidence filter.
+
+export type ConfidenceTier = 'low' | 'medium' | 'high';
+
+export interface SplitSample {
+  pa: number | null;
+  contributing_seasons: number[] | null;
+}
+
+export interface MatchupConfidence {
+  batter_split_pa: number | null;
+  pitcher_split_pa: number | null;
+  batter_split_seasons: number | null;
+  pitcher_split_seasons: number | null;
+  confidence_score: number;
+  confidence_tier: ConfidenceTier;
+}
+
+// PA at which a split's xwOBA is about half signal, half noise
+const BATTER_HALF_RELIABILITY_PA = 200;
+const PITCHER_HALF_RELIABILITY_PA = 250;
+const SINGLE_SEASON_FACTOR = 0.85;
+
+// Lowest score in each tier; also what minConfidence=<tier> filters on
+export const CONFIDENCE_TIER_MIN: Record<ConfidenceTier, number> = { low: 0, medium: 0.4, high: 0.6 };
+
+const reliability = (pa: number | null, halfPa: number) => (pa && pa > 0 ? pa / (pa + halfPa) : 0);
+
+export function confidenceTier(score: number): ConfidenceTier {
+  if (score >= CONFIDENCE_TIER_MIN.high) return 'high';
+  if (score >= CONFIDENCE_TIER_MIN.medium) return 'medium';
+  return 'low';
+}
+
+/** Confidence columns for a daily_matchups row from the batter and pitcher splits it was built from. */
+export function scoreMatchupConfidence(batter: SplitSample, pitcher: SplitSample): MatchupConfidence {
+  const batterSeasons = batter.contributing_seasons?.length ?? null;
+  const pitcherSeasons = pitcher.contributing_seasons?.length ?? null;
+  // Unknown season counts (splits loaded before contributing_seasons existed) aren't penalized
+  const singleSeason = batterSeasons === 1 || pitcherSeasons === 1;
+  const score =
+    Math.sqrt(reliability(batter.pa, BATTER_HALF_RELIABILITY_PA) * reliability(pitcher.pa, PITCHER_HALF_RELIABILITY_PA)) *
+    (singleSeason ? SINGLE_SEASON_FACTOR : 1);
+
+  return {
+    batter_split_pa: batter.pa,
+    pitcher_split_pa: pitcher.pa,
+    batter_split_seasons: batterSeasons,
+    pitcher_split_seasons: pitcherSeasons,
+    confidence_score: Math.round(score * 1000) / 1000,
+    confidence_tier: confidenceTier(score),
+  };
+}
+
+/**
+ * minConfidence query value: a tier name (low, medium, high) or a score from 0 to 1.
+ * Returns the minimum score, or null when the value is neither.
+ */
+export function parseMinConfidence(value: string): number | null {
+  if (value in CONFIDENCE_TIER_MIN) return CONFIDENCE_TIER_MIN[value as ConfidenceTier];
+  const score = Number(value);
+  return value.trim() !== '' && !isNaN(score) && score >= 0 && score <= 1 ? score : null;
+}
@@ -0,0 +1,61 @@
+// src/lib/dateRange.ts
+//
+// start/end query parameters for the API routes that work per game date.
+
+// A full season plus the postseason; anything longer is almost certainly a typo
+export const MAX_DATE_RANGE_DAYS = 250;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date.parse rolls impossible days over (2025-02-31 → March 3), so the parsed date must round-trip
+const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+};
+
+/** Every YYYY-MM-DD from start to end, inclusive. */
+export function enumerateDates(start: string, end: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  while (cursor <= last) {
+    dates.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/** YYYY-MM-DD `offsetDays` after `date`. */
+export function addDays(date: string, offsetDays: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + offsetDays);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolves ?start=&end= into a list of dates. Returns null when neither is given
+ * so the caller can fall back to its single-date default. A lone start or end
+ * is a one-day range.
+ */
+export function parseDateRangeQuery(
+  startParam: unknown,
+  endParam: unknown
+): { dates: string[] } | { error: string } | null {
+  const start = typeof startParam === 'string' ? startParam : null;
+  const end = typeof endParam === 'string' ? endParam : null;
+  if (!start && !end) return null;
+
+  const from = (start || end)!;
+  const to = (end || start)!;
+  if (!isValidDate(from) || !isValidDate(to)) {
+    return { error: `Invalid date range "${start ?? ''}".."${end ?? ''}". Expected YYYY-MM-DD.` };
+  }
+  if (from > to) return { error: `start (${from}) must not be after end (${to}).` };
+
+  const dates = enumerateDates(from, to);
+  if (dates.length > MAX_DATE_RANGE_DAYS) {
+    return { error: `Date range covers ${dates.length} days; the maximum is ${MAX_DATE_RANGE_DAYS}.` };
+  }
+  return { dates };
+}
@@ -0,0 +1,131 @@
+// src/lib/gameContext.ts
+//
+// Home/road and day/night split contexts. player_splits keeps one row per context
+// next to the regular ('all') split: home/road straight from Savant's home_road
+// filter, day/night built from per-game Savant rows classified by first pitch.
+// Ingest regresses each player's regular split toward the contexts of the game
+// they are playing, weighted by the context sample, the same way recent form does.
+//
+// A game is a day game when first pitch (games.game_datetime_utc) is before 17:00
+// local time. Venues carry longitude but no time zone, so local time is solar time
+// (UTC + longitude / 15 hours); within an hour of the clock, which is plenty for a
+// 17:00 cutoff when day games start around 13:00 and night games around 19:00.
+//
+// No path aliases here: scripts/ import this file directly.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../types/database.types';
+import type { MlbStatsApiClient } from './mlbStatsApi';
+import { FormAdjustable, regressSplitToward } from './recentForm';
+
+type PlayerSplit = Database['public']['Tables']['player_splits']['Row'];
+type SplitPlayerType = Database['public']['Enums']['split_player_type'];
+export type SplitContext = Database['public']['Enums']['split_context'];
+export type HomeRoad = 'home' | 'road';
+export type DayNight = 'day' | 'night';
+
+// Local hour at or after which first pitch makes it a night game
+const NIGHT_GAME_START_HOUR = 17;
+
+// Longitude assumed for venues without coordinates (US Central, the middle of the map)
+const DEFAULT_VENUE_LONGITUDE = -90;
+
+// A context split needs this many PA before ingest uses it at all
+export const CONTEXT_MIN_PA = 60;
+
+// PA at which a context split counts as much as the regular split it adjusts. Large on
+// purpose: most home/road and day/night gaps are noise, and a home split is all one
+// park, which the park factor already accounts for.
+const CONTEXT_REGRESSION_PA: Record<SplitPlayerType, number> = { batter: 800, pitcher: 1000 };
+
+export const contextSplitKey = (playerId: number, playerType: string, vsHand: string, context: SplitContext) =>
+  `${playerId}_${playerType}_${vsHand}_${context}`;
+
+/** day or night from a first-pitch timestamp and the venue longitude (null = unknown venue). */
+export function dayNightFromStart(gameDatetimeUtc: string, longitude: number | null | undefined): DayNight | null {
+  const start = new Date(gameDatetimeUtc);
+  if (isNaN(start.getTime())) return null;
+  const utcHours = start.getUTCHours() + start.getUTCMinutes() / 60;
+  const localHours = (utcHours + (longitude ?? DEFAULT_VENUE_LONGITUDE) / 15 + 24) % 24;
+  // Before 04:00 is a late night game that crossed midnight, not an early day game
+  return localHours >= 4 && localHours < NIGHT_GAME_START_HOUR ? 'day' : 'night';
+}
+
+/**
+ * A regular split regressed toward its context splits (home/road first, then day/night).
+ * Contexts under CONTEXT_MIN_PA are ignored. `contextPa` is the PA of the first context
+ * used (null when none applied).
+ */
+export function applyContextSplits<T extends FormAdjustable>(
+  split: T,
+  contexts: (FormAdjustable | undefined)[],
+  playerType: SplitPlayerType
+): { split: T; contextPa: number | null } {
+  const usable = contexts.filter((c): c is FormAdjustable => (c?.pa ?? 0) >= CONTEXT_MIN_PA);
+  const { split: adjusted, firstPa } = regressSplitToward(split, usable, CONTEXT_REGRESSION_PA[playerType]);
+  return { split: adjusted, contextPa: firstPa };
+}
+
+const PLAYER_QUERY_BATCH_SIZE = 500;
+
+/** Weighted (season 0) home/road and day/night splits for the given players, keyed by contextSplitKey. */
+export async function fetchContextSplits(
+  client: SupabaseClient,
+  playerIds: number[]
+): Promise<Map<string, PlayerSplit>> {
+  const splits = new Map<string, PlayerSplit>();
+  for (let i = 0; i < playerIds.length; i += PLAYER_QUERY_BATCH_SIZE) {
+    const { data, error } = await client
+      .from('player_splits')
+      .select('*')
+      .eq('season', 0)
+      .neq('split_context', 'all')
+      .in('player_id', playerIds.slice(i, i + PLAYER_QUERY_BATCH_SIZE));
+    if (error) throw new Error(`Failed to load context splits: ${error.message}`);
+    (data as PlayerSplit[] | null)?.forEach(row =>
+      splits.set(contextSplitKey(row.player_id, row.player_type, row.vs_handedness, row.split_context), row)
+    );
+  }
+  return splits;
+}
+
+// Keeps /people URLs well under URL length limits
+const PEOPLE_BATCH_SIZE = 100;
+
+/**
+ * day/night for every date each player appeared in one season, keyed `${playerId}_${date}`,
+ * from the players' game logs and the season schedule. A date with a day and a night game
+ * (split doubleheader) maps to null: Savant's per-game rows merge both games.
+ */
+export async function buildDayNightCalendar(
+  api: MlbStatsApiClient,
+  season: number,
+  playerIds: number[],
+  playerType: SplitPlayerType,
+  venueLongitudes: Map<number, number | null>
+): Promise<Map<string, DayNight | null>> {
+  const schedule = await api.getSchedule({ startDate: `${season}-02-15`, endDate: `${season}-11-30` });
+  const gameDayNight = new Map<number, DayNight | null>();
+  schedule.dates.forEach(d => d.games.forEach(g => {
+    gameDayNight.set(g.gamePk, dayNightFromStart(g.gameDate, g.venue ? venueLongitudes.get(g.venue.id) : null));
+  }));
+
+  const group = playerType === 'batter' ? 'hitting' : 'pitching';
+  const calendar = new Map<string, DayNight | null>();
+  for (let i = 0; i < playerIds.length; i += PEOPLE_BATCH_SIZE) {
+    const people = await api.getPeople(playerIds.slice(i, i + PEOPLE_BATCH_SIZE), {
+      hydrate: `stats(group=[${group}],type=[gameLog],season=${season})`,
+    });
+    people.forEach(person => {
+      const log = person.stats?.find(s => s.type?.displayName === 'gameLog');
+      log?.splits?.forEach(split => {
+        const gamePk = split.game?.gamePk;
+        if (!split.date || gamePk == null) return;
+        const dayNight = gameDayNight.get(gamePk) ?? null;
+        const key = `${person.id}_${split.date}`;
+        calendar.set(key, calendar.has(key) && calendar.get(key) !== dayNight ? null : dayNight);
+      });
+    });
+  }
+  return calendar;
+}
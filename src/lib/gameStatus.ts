@@ -0,0 +1,27 @@
+// src/lib/gameStatus.ts
+//
+// Game status helpers shared by add-games, ingest, /api/matchups and the game cards:
+// which detailed_state values mean the game isn't being played today (or is over),
+// and how to label the two games of a doubleheader.
+
+// detailed_state prefixes for games that won't be played (or finished) on their date.
+// MLB appends a reason to some of them, e.g. "Postponed: Rain", "Suspended: Rain".
+const CALLED_OFF_STATE_PREFIXES = ['Postponed', 'Suspended', 'Cancelled'];
+
+/** True for postponed, suspended and cancelled games. */
+export function isCalledOff(detailedState: string | null | undefined): boolean {
+  return !!detailedState && CALLED_OFF_STATE_PREFIXES.some(prefix => detailedState.startsWith(prefix));
+}
+
+// detailed_state prefixes for games that are over and official ("Completed Early: Rain" counts)
+const FINAL_STATE_PREFIXES = ['Final', 'Completed Early'];
+
+/** True once a game is over and its stats are official. */
+export function isFinal(detailedState: string | null | undefined): boolean {
+  return !!detailedState && FINAL_STATE_PREFIXES.some(prefix => detailedState.startsWith(prefix));
+}
+
+/** "Game 1" / "Game 2" for doubleheaders, null for single games. */
+export function doubleheaderLabel(game: { double_header: string; game_number: number }): string | null {
+  return game.double_header !== 'N' ? `Game ${game.game_number}` : null;
+}
@@ -0,0 +1,97 @@
+// src/lib/httpFixtures.ts
+//
+// Record/replay for outbound HTTP (MLB Stats API, Baseball Savant, weather). With
+// HTTP_FIXTURE_MODE=record every response is saved under HTTP_FIXTURE_DIR, keyed
+// by URL; with HTTP_FIXTURE_MODE=replay calls are answered from those files and
+// never touch the network. Only HTTP is covered: Supabase reads and writes still
+// go to the database, so a replayed ingest day is not fully offline.
+//
+// No path aliases here: scripts/ import this file directly.
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface HttpFixture {
+  url: string;
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  recordedAt: string;
+  body: string;
+}
+
+export const DEFAULT_FIXTURE_DIR = 'fixtures/http';
+
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.HTTP_FIXTURE_MODE || 'off').toLowerCase();
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown HTTP_FIXTURE_MODE "${mode}". Expected off, record or replay.`);
+  }
+  return mode;
+}
+
+export function getFixtureDir(): string {
+  return path.resolve(process.env.HTTP_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+/**
+ * Fixture file for a URL: <dir>/<host>/<readable path slug>_<hash>.json. The
+ * hash covers the full URL, so query strings that differ only in a date or
+ * player ID get their own files.
+ */
+export function fixturePathForUrl(url: string, dir = getFixtureDir()): string {
+  const { host, pathname } = new URL(url);
+  const slug = pathname.replace(/^\/+/, '').replace(/[^a-zA-Z0-9]+/g, '_').slice(0, 80) || 'root';
+  const hash = createHash('sha1').update(url).digest('hex').slice(0, 12);
+  return path.join(dir, host, `${slug}_${hash}.json`);
+}
+
+/**
+ * Wraps a fetch implementation with record/replay. Mode and directory are read
+ * on each call, so scripts can set the env after import. GETs only; that's all
+ * the pipeline sends to these hosts.
+ */
+export function withFixtures(fetchImpl: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    const mode = getFixtureMode();
+    if (mode === 'off') return fetchImpl(input, init);
+
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const file = fixturePathForUrl(url);
+
+    if (mode === 'replay') {
+      // A 404 rather than a throw: callers fail fast instead of retrying a file that won't appear
+      if (!fs.existsSync(file)) {
+        const message = `No recorded fixture for ${url} (expected ${file}). Re-run with HTTP_FIXTURE_MODE=record.`;
+        console.error(`📼 ${message}`);
+        return new Response(message, { status: 404, statusText: 'Fixture Not Recorded' });
+      }
+      const fixture: HttpFixture = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+      return new Response(fixture.body, {
+        status: fixture.status,
+        statusText: fixture.statusText,
+        headers: fixture.contentType ? { 'content-type': fixture.contentType } : undefined,
+      });
+    }
+
+    // Record: pass through, save a copy, hand the caller an unread response
+    const res = await fetchImpl(input, init);
+    const body = await res.text();
+    const fixture: HttpFixture = {
+      url,
+      status: res.status,
+      statusText: res.statusText,
+      contentType: res.headers.get('content-type'),
+      recordedAt: new Date().toISOString(),
+      body,
+    };
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(fixture, null, 2));
+    return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+  };
+}
+
+/** Shared fetch for every outbound data call: the global fetch, plus fixtures when enabled. */
+export const fixtureFetch = withFixtures();
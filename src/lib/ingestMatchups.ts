@@ -0,0 +1,1006 @@
+// src/lib/ingestMatchups.ts
+//
+// One date of matchup ingest: schedule, rosters, lineups, splits, the matchup model,
+// park/weather adjustments and projections, then reconciliation with the stored
+// rows. /api/ingest runs it for a single date or for each date in a range.
+import { supabaseServer } from '@/lib/supabaseServerClient';
+import { MatchupModel, SplitRates } from '@/lib/matchupModel';
+import { fetchLeagueAverages, getLeagueBaseline } from '@/lib/leagueAverages';
+import { applyParkFactor, buildParkFactorLookup, fetchParkFactorInputs } from '@/lib/parkFactors';
+import { blendStats, buildBullpen, estimateStarterShare, GAME_INNINGS, lefthandedShare, parsePitcherUsage, PitcherUsage, PITCHING_STATS_HYDRATE } from '@/lib/bullpen';
+import { DEFAULT_XWOBA_DIFF_THRESHOLD, DiffableMatchup, diffMatchups, fetchExistingMatchups, MatchupDiff, supersedeCalledOffGames, supersedeMatchups } from '@/lib/matchupDiff';
+import { isCalledOff } from '@/lib/gameStatus';
+import { scoreMatchupConfidence } from '@/lib/confidence';
+import { bvpKey, bvpModelWeight, BvpRecord, defaultBvpWeight, fetchBvpRecords } from '@/lib/batterVsPitcher';
+import { applyRecentForm, fetchFormSplits, formSplitKey, FormSplitRow } from '@/lib/recentForm';
+import { applyContextSplits, contextSplitKey, DayNight, dayNightFromStart, fetchContextSplits, SplitContext } from '@/lib/gameContext';
+import { BulkPitcher, detectOpener, openerGameShares, parseRecentAppearances, PitcherAppearance, pickBulkPitcher } from '@/lib/openers';
+import { estimateTeamRuns, expectedPlateAppearances, projectCountingStats } from '@/lib/projections';
+import { finishIngestRun, IngestSkip, IngestSkipReason, recordIngestSkips, startIngestRun } from '@/lib/ingestRuns';
+import { mlbStatsApi, MlbLiveFeedResponse, MlbRosterEntry, MlbScheduleGame } from '@/lib/mlbStatsApi';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { fetchPeopleInBatches, fetchStoredHandedness, PlayerHandedness, upsertPlayers } from '@/lib/players';
+import { computeWeatherAdjustment, getWeatherProvider, NEUTRAL_WEATHER_ADJUSTMENT, WeatherAdjustment } from '@/lib/weather';
+import { Database } from '@/types/database.types';
+
+type MatchupInsert = Database['public']['Tables']['daily_matchups']['Insert'];
+type GameWeatherInsert = Database['public']['Tables']['game_weather']['Insert'];
+type PlayerSplit = Database['public']['Tables']['player_splits']['Row'];
+// The player_splits columns step 5 loads
+type LoadedSplit = Pick<
+  PlayerSplit,
+  | 'player_id' | 'season' | 'player_type' | 'vs_handedness' | 'xwoba' | 'avg_launch_angle' | 'barrels_per_pa' | 'hard_hit_pct'
+  | 'avg_exit_velocity' | 'k_percent' | 'bb_percent' | 'iso' | 'swing_miss_percent' | 'hrs' | 'hr_per_pa' | 'pa' | 'contributing_seasons'
+>;
+// A built daily_matchups row: always carries what the diff and the step 7.5 projections read
+type BuiltMatchup = MatchupInsert & DiffableMatchup & {
+  lineup_position: number | null;
+  avg_hr_per_pa: number;
+  avg_k_percent: number;
+  avg_bb_percent: number;
+  avg_iso: number;
+};
+
+export const DEFAULT_FETCH_CONCURRENCY = 6;
+
+export interface IngestDateOptions {
+  model: MatchupModel;
+  // Build everything and diff against the stored rows, but write nothing
+  dryRun?: boolean;
+  diffThreshold?: number;
+  // Max MLB API calls in flight for rosters, team lookups and per-game fetches
+  fetchConcurrency?: number;
+  // Only build these games (lineup watcher); other games' stored rows are left alone
+  gamePks?: number[];
+  // Cap on the weight career batter-vs-pitcher xwOBA gets in avg_xwoba (0 = record it, don't blend).
+  // Defaults to BVP_MODEL_WEIGHT
+  bvpWeight?: number;
+  // Regress each player's split toward their home/road and day/night splits for the game (default on)
+  contextSplits?: boolean;
+  // Dry runs only: return the rows that would be written (backtest-matchups.ts replays)
+  includeRows?: boolean;
+  // Dry runs only: false skips ingest_runs / ingest_skips, so backtest replays don't fill the run history
+  recordRun?: boolean;
+  log?: (msg: string) => void;
+}
+
+export interface IngestDateResult {
+  date: string;
+  runId: number | null;
+  gamesCount: number;
+  count: number;
+  superseded: number;
+  skipped: number;
+  diff?: MatchupDiff; // Dry runs only
+  rows?: MatchupInsert[]; // Dry runs with includeRows only
+}
+
+type BuildResult = Omit<IngestDateResult, 'runId' | 'skipped'> & { skips: IngestSkip[] };
+
+/**
+ * Ingests one date and records the run (counts, errors, every skipped matchup)
+ * in ingest_runs / ingest_skips. Dry runs are recorded too, flagged dry_run: they
+ * write no matchups, but their skips still explain a preview (unless recordRun is
+ * false). Recording problems are logged, never fatal.
+ */
+export async function ingestMatchupsForDate(
+  gameDate: string,
+  options: IngestDateOptions
+): Promise<IngestDateResult> {
+  const { model, dryRun = false, gamePks, recordRun = true, log = console.log } = options;
+  if (dryRun && !recordRun) {
+    const { skips, ...result } = await buildAndWriteMatchups(gameDate, options);
+    return { ...result, runId: null, skipped: skips.length };
+  }
+  const runId = await startIngestRun(supabaseServer, { gameDate, dryRun, matchupModel: model.name, gamePks }, log);
+
+  try {
+    const { skips, ...result } = await buildAndWriteMatchups(gameDate, options);
+    await recordIngestSkips(supabaseServer, runId, gameDate, skips, log);
+    await finishIngestRun(supabaseServer, runId, {
+      status: 'succeeded',
+      gamesCount: result.gamesCount,
+      matchupsCount: result.count,
+      supersededCount: result.superseded,
+      skippedCount: skips.length,
+    }, log);
+    return { ...result, runId, skipped: skips.length };
+  } catch (err) {
+    await finishIngestRun(supabaseServer, runId, { status: 'failed', error: err instanceof Error ? err.message : String(err) }, log);
+    throw err;
+  }
+}
+
+async function buildAndWriteMatchups(
+  gameDate: string,
+  {
+    model,
+    dryRun = false,
+    diffThreshold = DEFAULT_XWOBA_DIFF_THRESHOLD,
+    fetchConcurrency = DEFAULT_FETCH_CONCURRENCY,
+    gamePks,
+    bvpWeight = defaultBvpWeight(),
+    contextSplits: useContextSplits = true,
+    includeRows = false,
+    log = console.log,
+  }: IngestDateOptions
+): Promise<BuildResult> {
+  // Every matchup we can't build, with a reason code, for ingest_skips
+  const skips: IngestSkip[] = [];
+
+  // 2. Fetch schedule + probables (singular)
+  const sched = await mlbStatsApi.getSchedule({ date: gameDate, hydrate: 'probablePitcher' });
+  const scheduledGames: MlbScheduleGame[] = sched.dates[0]?.games || [];
+  const slate = gamePks ? scheduledGames.filter(g => gamePks.includes(g.gamePk)) : scheduledGames;
+  if (gamePks) log(`🎯 Limited to games ${gamePks.join(', ')}: ${slate.length}/${scheduledGames.length} on the schedule`);
+
+  // Postponed/suspended/cancelled games get no matchups; rows built before the call are retired
+  const calledOffGamePks = slate.filter(g => isCalledOff(g.status.detailedState)).map(g => g.gamePk);
+  const games = slate.filter(g => !isCalledOff(g.status.detailedState));
+  let calledOffSuperseded = 0;
+  if (calledOffGamePks.length) {
+    log(`🌧️ Called off, no matchups: ${calledOffGamePks.join(', ')}`);
+    if (!dryRun) {
+      calledOffSuperseded = await supersedeCalledOffGames(supabaseServer, gameDate, calledOffGamePks);
+      if (calledOffSuperseded) log(`🗑️ Superseded ${calledOffSuperseded} matchups for called-off games`);
+    }
+  }
+
+  if (!games.length) {
+    log(`⏭️ No playable games found for ${gameDate}`);
+    return { date: gameDate, gamesCount: 0, count: 0, superseded: calledOffSuperseded, skips };
+  }
+  log(`🏟️ Fetched schedule: ${games.length} games`);
+  log(`Sample game object:\n${JSON.stringify(games[0], null, 2)}`);
+
+  // 3. Rosters per team as of the game date (backfills must not see later trades or call-ups),
+  //    at most fetchConcurrency requests in flight
+  const teamIds = Array.from(
+    new Set(games.flatMap(g => [g.teams.home.team.id, g.teams.away.team.id]))
+  ).filter(id => id != null); // Ensure no null team IDs
+  log(`📋 Teams: ${teamIds.join(', ')} (fetch concurrency ${fetchConcurrency})`);
+  const rosters: Record<number, MlbRosterEntry[]> = {};
+  await mapWithConcurrency(teamIds, fetchConcurrency, async (tid: number) => {
+    rosters[tid] = await mlbStatsApi.getRoster(tid, { date: gameDate });
+    log(`👥 Roster[${tid}]: ${rosters[tid].length} players`);
+  });
+
+  // 3.5 Abbreviations come from the teams table (populate-static-data.ts); only unknown teams hit the API
+  const teamAbbrMap = new Map<number, string>();
+  const { data: teamRows, error: teamsError } = await supabaseServer
+    .from('teams')
+    .select('id, abbreviation')
+    .in('id', teamIds);
+  if (teamsError) log(`⚠️ Error loading teams table: ${teamsError.message}`);
+  (teamRows || []).forEach((t: { id: number; abbreviation: string | null }) => {
+    if (t.abbreviation) teamAbbrMap.set(t.id, t.abbreviation);
+  });
+  const unknownTeamIds = teamIds.filter(tid => !teamAbbrMap.has(tid));
+  if (unknownTeamIds.length) {
+    log(`ℹ️ ${unknownTeamIds.length} teams not in the teams table; fetching abbreviations from the API...`);
+    await mapWithConcurrency(unknownTeamIds, fetchConcurrency, async (tid: number) => {
+      try {
+        const team = await mlbStatsApi.getTeam(tid);
+        if (team) {
+          teamAbbrMap.set(tid, team.abbreviation);
+          log(`🏷️ Team Abbr [${tid}]: ${team.abbreviation}`);
+        }
+      } catch (err) {
+        log(`⚠️ Error fetching team details for ID ${tid}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    });
+  }
+  log(`🏷️ Abbreviations: ${teamAbbrMap.size}/${teamIds.length} teams (${teamIds.length - unknownTeamIds.length} from the teams table)`);
+
+  // 4. Starters and batting orders per game (fetched concurrently)
+  type Starter = { id: number; fullName: string };
+
+  // Hydrated probables first; the live feed (fetched at most once per game) fills in a missing side
+  async function getStarters(game: MlbScheduleGame): Promise<Record<'home' | 'away', Starter | null>> {
+    const starters: Record<'home' | 'away', Starter | null> = { home: null, away: null };
+    let feed: MlbLiveFeedResponse | null = null;
+
+    for (const side of ['home', 'away'] as const) {
+      // 1. Try the hydrated data under game.teams[side].probablePitcher
+      const info = game.teams[side].probablePitcher;
+      if (info?.id) {
+        log(`✅ Hydrated ${side} starter: ${info.fullName} (${info.id})`);
+        starters[side] = { id: info.id, fullName: info.fullName || `<unknown ${info.id}>` };
+        continue;
+      }
+
+      // 2. Fallback to the live‐feed if needed
+      feed ??= await mlbStatsApi.getLiveFeed(game.gamePk);
+      const pList: number[] = feed.liveData.boxscore?.teams[side].pitchers || [];
+      if (pList.length) {
+        const pid = pList[0];
+        const person = feed.gameData.players?.[`ID${pid}`];
+        const fullName = person?.fullName || `<unknown ${pid}>`;
+        log(`🔄 Fallback ${side} starter: ${fullName} (${pid})`);
+        starters[side] = { id: pid, fullName };
+        continue;
+      }
+
+      log(`⚠️ No ${side} starter for game ${game.gamePk}`);
+    }
+    return starters;
+  }
+
+  // Store batting orders: Map<gamePk_teamId, playerId[]>
+  // Example key: "712345_119" -> [playerId1, playerId2, ...]
+  const gameTeamBattingOrders = new Map<string, number[]>();
+  // Games with at least one resolved starter; step 8 reconciles their stored rows even when
+  // they produce none (e.g. a new probable without splits)
+  const startersResolved = new Set<number>();
+
+  // Records a game-level skip when a per-game fetch fails, so a run that lost part of the slate isn't a clean success
+  const skipGameFetch = (g: MlbScheduleGame, reason: IngestSkipReason, detail: string) => {
+    skips.push({ game_pk: g.gamePk, batter_id: null, batter_name: null, pitcher_id: null, pitcher_name: null, reason, detail });
+  };
+
+  const gameStarters = await mapWithConcurrency(games, fetchConcurrency, async g => {
+    let starters: Record<'home' | 'away', Starter | null> = { home: null, away: null };
+    try {
+      starters = await getStarters(g);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      log(`❌ Error resolving starters for game ${g.gamePk}: ${message}`);
+      skipGameFetch(g, 'starter_fetch_failed', `Resolving starters for game ${g.gamePk} failed: ${message}`);
+    }
+    if (!starters.home && !starters.away) return starters; // No matchups either way; skip the boxscore
+    startersResolved.add(g.gamePk);
+
+    // Fetch boxscore for batting orders
+    try {
+      const boxscoreData = await mlbStatsApi.getBoxscore(g.gamePk);
+      for (const side of ['home', 'away'] as const) {
+        const teamId = g.teams[side].team.id;
+        const battingOrder = boxscoreData.teams[side].battingOrder;
+        if (battingOrder && battingOrder.length > 0) {
+          gameTeamBattingOrders.set(`${g.gamePk}_${teamId}`, battingOrder);
+          log(`⚾️ ${side} batting order for game ${g.gamePk} (Team ${teamId}): ${battingOrder.length} players`);
+        } else {
+          log(`⚠️ No ${side} batting order found in boxscore for game ${g.gamePk} (Team ${teamId}). Will use full roster.`);
+        }
+      }
+    } catch (boxscoreError) {
+      const message = boxscoreError instanceof Error ? boxscoreError.message : String(boxscoreError);
+      log(`❌ Error fetching boxscore for game ${g.gamePk}: ${message}. Proceeding with full rosters.`);
+      skipGameFetch(g, 'boxscore_fetch_failed', `Boxscore for game ${g.gamePk} failed: ${message}; built from full rosters.`);
+    }
+    return starters;
+  });
+
+  // 4.5 Lookup pairs & player IDs (in memory, in schedule order)
+  type LookupPair = {
+    gamePk: number;
+    homeTeamId: number;
+    awayTeamId: number;
+    homeTeamAbbr: string | null;
+    awayTeamAbbr: string | null;
+    venueId: number | null;
+    pitcherTeamId: number;
+    pit: number;
+    bat: number;
+    batName: string;
+    pitName: string;
+    lineupPosition: number | null;
+    batterTeam: string | null;
+    pitcherTeam: string | null;
+  };
+  const lookupPairs: LookupPair[] = [];
+  const playerIds = new Set<number>();
+  // Starters and relievers; their season pitching lines drive bullpen usage
+  const pitcherIds = new Set<number>();
+  // Relief candidates for each pitching side: Map<gamePk_teamId, pitchers other than the starter>
+  const bullpenCandidates = new Map<string, { id: number; fullName: string }[]>();
+  // The probable for each pitching side, same keys (opener detection)
+  const sideStarters = new Map<string, Starter>();
+
+  // Helper to get abbreviation or fallback to name
+  const getTeamIdentifier = (teamId: number, fallbackName?: string | null): string | null => {
+    return teamAbbrMap.get(teamId) || fallbackName || null;
+  };
+
+  // Records an unknown_starter skip for every rostered batter on a side that has no opposing starter
+  const skipLineupWithoutStarter = (g: MlbScheduleGame, battingSide: 'home' | 'away') => {
+    const team = g.teams[battingSide].team;
+    (rosters[team.id] || []).forEach(p => {
+      if (!p?.person?.id) return;
+      skips.push({
+        game_pk: g.gamePk,
+        batter_id: p.person.id,
+        batter_name: p.person.fullName ?? null,
+        pitcher_id: null,
+        pitcher_name: null,
+        reason: 'unknown_starter',
+        detail: `No probable ${battingSide === 'home' ? 'away' : 'home'} starter for game ${g.gamePk}; ${team.name ?? team.id} batters skipped.`,
+      });
+    });
+  };
+
+  const processTeamLineup = (
+    teamType: 'home' | 'away',
+    opponentStarter: Starter,
+    gameData: MlbScheduleGame,
+    actualGameHomeAbbrParam: string | null,
+    actualGameAwayAbbrParam: string | null
+  ) => {
+    const teamData = gameData.teams[teamType];
+    const teamId = teamData.team.id;
+    const batterTeamIdentifier = getTeamIdentifier(teamId, teamData.team.name);
+
+    const opponentTeamId = (teamType === 'home' ? gameData.teams.away.team.id : gameData.teams.home.team.id);
+    const pitcherTeamIdentifier = getTeamIdentifier(opponentTeamId, (teamType === 'home' ? gameData.teams.away.team.name : gameData.teams.home.team.name));
+
+    const battingOrderPlayerIds = gameTeamBattingOrders.get(`${gameData.gamePk}_${teamId}`);
+    const fullRoster = rosters[teamId];
+
+    // The opposing staff minus today's starter is the bullpen this lineup faces after the starter
+    const relievers = (rosters[opponentTeamId] || [])
+      .filter(p => p?.person?.id && p.position?.type === 'Pitcher' && p.person.id !== opponentStarter.id)
+      .map(p => ({ id: p.person.id, fullName: p.person.fullName ?? `<unknown ${p.person.id}>` }));
+    relievers.forEach(r => {
+      playerIds.add(r.id);
+      pitcherIds.add(r.id);
+    });
+    pitcherIds.add(opponentStarter.id);
+    bullpenCandidates.set(`${gameData.gamePk}_${opponentTeamId}`, relievers);
+    sideStarters.set(`${gameData.gamePk}_${opponentTeamId}`, opponentStarter);
+
+    // Always process the full active roster
+    fullRoster?.forEach(p => {
+      if (!p || !p.person || !p.person.id) return; // Skip if player data is incomplete
+
+      const playerId = p.person.id;
+
+      playerIds.add(playerId);
+      playerIds.add(opponentStarter.id);
+
+      // Lineup position is 1-indexed if from battingOrder, null otherwise
+      // Find the lineup position if the player is in the batting order
+      const lineupIndex = battingOrderPlayerIds ? battingOrderPlayerIds.indexOf(playerId) : -1;
+      const lineupPosition = lineupIndex !== -1 ? lineupIndex + 1 : null;
+
+      lookupPairs.push({
+        gamePk: gameData.gamePk,
+        homeTeamId: gameData.teams.home.team.id,
+        awayTeamId: gameData.teams.away.team.id,
+        homeTeamAbbr: actualGameHomeAbbrParam,
+        awayTeamAbbr: actualGameAwayAbbrParam,
+        venueId: gameData.venue?.id ?? null,
+        pitcherTeamId: opponentTeamId,
+        bat: playerId,
+        pit: opponentStarter.id,
+        batName: p.person.fullName ?? `<unknown ${playerId}>`,
+        pitName: opponentStarter.fullName,
+        lineupPosition: lineupPosition,
+        batterTeam: batterTeamIdentifier,
+        pitcherTeam: pitcherTeamIdentifier,
+      });
+    });
+  };
+
+  games.forEach((g, i) => {
+    const { home: homeStarter, away: awayStarter } = gameStarters[i];
+
+    if (!homeStarter && !awayStarter) {
+      log(`⏭️ Skipping game ${g.gamePk} - NEITHER probable pitcher is known.`);
+      skipLineupWithoutStarter(g, 'home');
+      skipLineupWithoutStarter(g, 'away');
+      return;
+    }
+
+    const actualGameHomeAbbr = getTeamIdentifier(g.teams.home.team.id, g.teams.home.team.name);
+    const actualGameAwayAbbr = getTeamIdentifier(g.teams.away.team.id, g.teams.away.team.name);
+
+    // Process home team batting against away starter, if away starter is known
+    if (awayStarter) {
+      processTeamLineup('home', awayStarter, g, actualGameHomeAbbr, actualGameAwayAbbr);
+    } else {
+      log(`ℹ️ No away starter for game ${g.gamePk}. Skipping home team batting matchups.`);
+      skipLineupWithoutStarter(g, 'home');
+    }
+
+    // Process away team batting against home starter, if home starter is known
+    if (homeStarter) {
+      processTeamLineup('away', homeStarter, g, actualGameHomeAbbr, actualGameAwayAbbr);
+    } else {
+      log(`ℹ️ No home starter for game ${g.gamePk}. Skipping away team batting matchups.`);
+      skipLineupWithoutStarter(g, 'away');
+    }
+    log(`🔍 Finished processing game ${g.gamePk}. Current lookupPairs count: ${lookupPairs.length} (may be one-sided if a pitcher is unknown).`);
+  });
+
+  const uniquePlayerIds = Array.from(playerIds);
+  log(`🔢 Lookup pairs: ${lookupPairs.length}`);
+  log(`🆔 Unique player IDs: ${uniquePlayerIds.length}`);
+
+  // 5. Batch-fetch splits
+  let allSplits: LoadedSplit[] = [];
+  const BATCH_SIZE_PLAYER_IDS = 100; // Number of player IDs per Supabase query batch
+
+  if (uniquePlayerIds.length > 0) {
+    log(`ℹ️ Batch fetching player_splits for ${uniquePlayerIds.length} players in batches of ${BATCH_SIZE_PLAYER_IDS}...`);
+    for (let i = 0; i < uniquePlayerIds.length; i += BATCH_SIZE_PLAYER_IDS) {
+      const playerIdsBatch = uniquePlayerIds.slice(i, i + BATCH_SIZE_PLAYER_IDS);
+      log(`🔄 Fetching splits for player ID batch ${Math.floor(i / BATCH_SIZE_PLAYER_IDS) + 1} (IDs: ${playerIdsBatch.length})`);
+      
+      const { data: batchData, error: batchError } = await supabaseServer
+        .from('player_splits')
+        .select('player_id, season, player_type, vs_handedness, xwoba, avg_launch_angle, barrels_per_pa, hard_hit_pct, avg_exit_velocity, k_percent, bb_percent, iso, swing_miss_percent, hrs, hr_per_pa, pa, contributing_seasons')
+        .eq('season', 0)
+        .eq('split_context', 'all') // Home/road and day/night rows are loaded in step 6.8
+        .in('player_id', playerIdsBatch) // Fetch all season 0 splits for players in the batch
+        .limit(playerIdsBatch.length * 6); // Increased limit: assuming max ~6 relevant splits (e.g., B/P vs L/R/S) per player for season 0
+
+      if (batchError) {
+        log(`❌ Error fetching player_splits batch: ${batchError.message}`);
+        // Decide if you want to throw or continue with partial data
+        // For now, we'll log and continue, potentially leading to skipped matchups later
+      } else if (batchData) {
+        allSplits = allSplits.concat(batchData as LoadedSplit[]);
+        log(`👍 Fetched ${batchData.length} splits in this batch. Total splits so far: ${allSplits.length}`);
+      }
+    }
+    log(`📊 Total splits fetched after batching: ${allSplits.length}`);
+    // hrs is an integer count; carry the regressed HR rate (create-average-player-data.ts) as
+    // fractional HRs so hrs / pa, form and context adjustments all see the regressed rate
+    allSplits.forEach(split => {
+      if (split.hr_per_pa != null && split.pa != null && split.pa > 0) split.hrs = split.hr_per_pa * split.pa;
+    });
+  } else {
+    log('⚠️ No unique player IDs found, skipping player_splits fetch.');
+  }
+  
+  // 5.5 League averages per player type and handedness (baseline for the matchup model)
+  const leagueAverages = await fetchLeagueAverages(supabaseServer);
+  log(`📐 League xwOBA baseline: batters vs L ${leagueAverages.batter.L.xwoba.toFixed(3)}, vs R ${leagueAverages.batter.R.xwoba.toFixed(3)}`);
+
+  // 5.6 Park factors for every venue on the slate (imported rows, else estimated from dimensions)
+  const slateVenueIds = Array.from(new Set(games.map(g => g.venue?.id).filter((id): id is number => id != null)));
+  const parkFactorInputs = await fetchParkFactorInputs(supabaseServer, slateVenueIds);
+  const getParkFactor = buildParkFactorLookup(parkFactorInputs.venues, parkFactorInputs.rows);
+  log(`🏟️ Park factors: ${parkFactorInputs.rows.length} imported rows for ${slateVenueIds.length} venues (others estimated)`);
+
+  // 5.7 Game-time weather per game (carry adjustment on top of the park factor)
+  const weatherByGame = new Map<number, WeatherAdjustment>();
+  const weatherProvider = getWeatherProvider();
+  if (weatherProvider) {
+    const venueById = new Map(parkFactorInputs.venues.map(v => [v.id, v]));
+    const weatherRows: GameWeatherInsert[] = [];
+    await mapWithConcurrency(games, fetchConcurrency, async g => {
+      const venue = g.venue ? venueById.get(g.venue.id) : undefined;
+      if (venue?.latitude == null || venue?.longitude == null || !g.gameDate) {
+        log(`⚠️ No venue coordinates or start time for game ${g.gamePk}; skipping weather.`);
+        return;
+      }
+      try {
+        const snapshot = await weatherProvider.getForecast({
+          gamePk: g.gamePk,
+          latitude: venue.latitude,
+          longitude: venue.longitude,
+          gameTimeUtc: g.gameDate,
+        });
+        const adjustment = computeWeatherAdjustment(snapshot, venue);
+        weatherByGame.set(g.gamePk, adjustment);
+        weatherRows.push({
+          game_pk: g.gamePk,
+          venue_id: venue.id,
+          provider: weatherProvider.name,
+          forecast_time_utc: snapshot?.forecast_time_utc ?? null,
+          temperature_f: snapshot?.temperature_f ?? null,
+          wind_speed_mph: snapshot?.wind_speed_mph ?? null,
+          wind_direction_deg: snapshot?.wind_direction_deg ?? null,
+          precipitation_probability: snapshot?.precipitation_probability ?? null,
+          precipitation_mm: snapshot?.precipitation_mm ?? null,
+          hr_factor: adjustment.hr,
+          xwobacon_factor: adjustment.xwobacon,
+          adjustment_reason: adjustment.reason,
+          fetched_at: new Date().toISOString(),
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        log(`⚠️ Weather forecast failed for game ${g.gamePk}: ${message}`);
+        skipGameFetch(g, 'weather_fetch_failed', `Weather forecast for game ${g.gamePk} failed: ${message}; no weather adjustment.`);
+      }
+    });
+    if (weatherRows.length && !dryRun) {
+      const { error: weatherError } = await supabaseServer.from('game_weather').upsert(weatherRows);
+      if (weatherError) log(`❌ Error upserting game_weather: ${weatherError.message}`);
+    }
+    log(`🌦️ Weather (${weatherProvider.name}): ${weatherRows.length}/${games.length} games`);
+  } else {
+    log(`ℹ️ Weather provider disabled; no weather adjustment.`);
+  }
+
+  // 6. Handedness from the players table; the people endpoint only for players it lacks,
+  //    plus season pitching lines for this slate's pitchers (bullpen usage)
+  const batMap = new Map<number, string>();
+  const pitMap = new Map<number, string>();
+  const pitcherUsage = new Map<number, PitcherUsage>();
+  const recentAppearances = new Map<number, PitcherAppearance[]>();
+  if (uniquePlayerIds.length) {
+    let stored = new Map<number, PlayerHandedness>();
+    try {
+      stored = await fetchStoredHandedness(supabaseServer, uniquePlayerIds);
+    } catch (err) {
+      log(`⚠️ ${err instanceof Error ? err.message : String(err)}; hydrating every player from the API.`);
+    }
+    stored.forEach((h, id) => {
+      if (h.batSide) batMap.set(id, h.batSide);
+      if (h.pitchHand) pitMap.set(id, h.pitchHand);
+    });
+    // A row without either hand is as good as missing
+    const missingIds = uniquePlayerIds.filter(id => !batMap.has(id) && !pitMap.has(id));
+    log(`🗂️ Handedness from players table: ${uniquePlayerIds.length - missingIds.length}/${uniquePlayerIds.length}; ${missingIds.length} to hydrate`);
+
+    const people = await fetchPeopleInBatches(mlbStatsApi, Array.from(new Set([...missingIds, ...pitcherIds])), {
+      hydrate: PITCHING_STATS_HYDRATE,
+      concurrency: fetchConcurrency,
+    });
+    log(`👤 Player details: ${people.length}`);
+    people.forEach(p => {
+      if (p.batSide?.code) batMap.set(p.id, p.batSide.code);
+      if (p.pitchHand?.code) pitMap.set(p.id, p.pitchHand.code);
+      const usage = parsePitcherUsage(p);
+      if (usage) pitcherUsage.set(p.id, usage);
+      if (pitcherIds.has(p.id)) recentAppearances.set(p.id, parseRecentAppearances(p, gameDate));
+    });
+
+    // Write new players back so the next run finds them in the table
+    const missing = new Set(missingIds);
+    const newPlayers = people.filter(p => missing.has(p.id));
+    if (newPlayers.length && !dryRun) {
+      try {
+        const written = await upsertPlayers(supabaseServer, newPlayers);
+        log(`➕ Added ${written} players to the players table`);
+      } catch (err) {
+        log(`⚠️ ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    log(`🗺️ BatMap: ${batMap.size}, PitMap: ${pitMap.size}, pitching lines: ${pitcherUsage.size}`);
+  } else {
+    log(`⚠️ No player IDs—skipping handedness lookup`);
+  }
+
+  // 7. Build upserts
+  const REQUIRED_SPLIT_FIELDS = [
+    'xwoba', 'avg_launch_angle', 'barrels_per_pa', 'hard_hit_pct', 'avg_exit_velocity',
+    'k_percent', 'bb_percent', 'iso', 'swing_miss_percent', 'hrs', 'pa',
+  ] as const;
+  // A split with every stat the model needs
+  type CompleteSplit = LoadedSplit & { [K in (typeof REQUIRED_SPLIT_FIELDS)[number]]: number };
+  const hasRequiredStats = (split: LoadedSplit | null | undefined): split is CompleteSplit =>
+    !!split && REQUIRED_SPLIT_FIELDS.every(field => split[field] != null) && (split.pa ?? 0) > 0;
+
+  const toRates = (split: CompleteSplit): SplitRates => ({
+    xwoba: split.xwoba,
+    avg_launch_angle: split.avg_launch_angle,
+    barrels_per_pa: split.barrels_per_pa,
+    hard_hit_pct: split.hard_hit_pct,
+    avg_exit_velocity: split.avg_exit_velocity,
+    k_percent: split.k_percent,
+    bb_percent: split.bb_percent,
+    iso: split.iso,
+    swing_miss_percent: split.swing_miss_percent,
+    hr_per_pa: split.hrs / split.pa,
+  });
+
+  // Indexed once; every pair looks its splits up by key instead of scanning allSplits
+  const splitKey = (playerId: number, playerType: string, vsHand: string) => `${playerId}_${playerType}_${vsHand}`;
+  const splitIndex = new Map<string, LoadedSplit>();
+  allSplits.forEach(s => splitIndex.set(splitKey(s.player_id, s.player_type, s.vs_handedness), s));
+  const findSplit = (playerId: number, playerType: 'batter' | 'pitcher', vsHand: string) =>
+    splitIndex.get(splitKey(playerId, playerType, vsHand));
+
+  // The side a batter actually hits from against a pitcher (switch hitters take the opposite side)
+  const effectiveBatterHand = (batSide: string, pitSide: string): 'L' | 'R' | null => {
+    if (batSide === 'L' || batSide === 'R') return batSide;
+    if (batSide === 'S' && (pitSide === 'L' || pitSide === 'R')) return pitSide === 'R' ? 'L' : 'R';
+    return null;
+  };
+
+  // Model + park + weather for one batter/pitcher split pair, as daily_matchups stat columns
+  const buildStatColumns = (
+    batterSplitData: CompleteSplit,
+    pitcherSplitData: CompleteSplit,
+    pitSide: 'L' | 'R',
+    batterHand: 'L' | 'R',
+    venueId: number | null,
+    gamePk: number
+  ) => {
+    const combined = model.combine(
+      toRates(batterSplitData),
+      toRates(pitcherSplitData),
+      getLeagueBaseline(leagueAverages, pitSide, batterHand)
+    );
+    // Park factors are by the side the batter actually hits from
+    const parkFactor = getParkFactor(venueId, batterHand);
+    const parkAdjusted = applyParkFactor(combined, parkFactor);
+    const weather = weatherByGame.get(gamePk) ?? NEUTRAL_WEATHER_ADJUSTMENT;
+    const adjusted = applyParkFactor({ ...parkAdjusted, bb_percent: combined.bb_percent }, weather);
+
+    return {
+      parkFactor,
+      weather,
+      stats: {
+        avg_xwoba: adjusted.xwoba,
+        avg_xwoba_raw: combined.xwoba,
+        avg_launch_angle: combined.avg_launch_angle,
+        avg_barrels_per_pa: combined.barrels_per_pa,
+        avg_hard_hit_pct: combined.hard_hit_pct,
+        avg_exit_velocity: combined.avg_exit_velocity,
+        avg_k_percent: combined.k_percent,
+        avg_bb_percent: combined.bb_percent,
+        avg_iso: combined.iso,
+        avg_swing_miss_percent: combined.swing_miss_percent,
+        avg_hr_per_pa: adjusted.hr_per_pa,
+        avg_hr_per_pa_raw: combined.hr_per_pa,
+      },
+    };
+  };
+
+  // 6.5 Openers: a probable who goes an inning or two gets a bulk pitcher behind them
+  type OpenerPlan = { openerInnings: number; bulk: BulkPitcher | null };
+  const openerPlans = new Map<string, OpenerPlan>();
+  sideStarters.forEach((starter, key) => {
+    const assessment = detectOpener(pitcherUsage.get(starter.id), recentAppearances.get(starter.id) || []);
+    if (!assessment.isOpener) return;
+    const candidates = (bullpenCandidates.get(key) || []).map(r => ({ ...r, hand: pitMap.get(r.id) as 'L' | 'R' | undefined }));
+    const bulk = pickBulkPitcher(candidates, recentAppearances, gameDate);
+    openerPlans.set(key, { openerInnings: assessment.expectedInnings, bulk });
+    log(`🚪 Opener ${starter.fullName} (${starter.id}) for ${key}: ${assessment.reason}; bulk ${bulk ? `${bulk.fullName} (${bulk.id}, ~${bulk.expectedInnings.toFixed(1)} IP)` : 'not identified'}`);
+  });
+
+  // Bullpens per pitching side, built once per game from the relief candidates (minus any bulk pitcher)
+  const bullpens = new Map<string, ReturnType<typeof buildBullpen>>();
+  bullpenCandidates.forEach((relievers, key) => {
+    const bulkId = openerPlans.get(key)?.bulk?.id;
+    const pitchers = relievers
+      .filter(r => r.id !== bulkId)
+      .map(r => ({ ...r, hand: pitMap.get(r.id) as 'L' | 'R' | undefined }));
+    bullpens.set(key, buildBullpen(pitchers, pitcherUsage));
+  });
+
+  // 6.6 Career head-to-head history (batter_vs_pitcher) for starter and bulk pairs
+  let bvpRecords = new Map<string, BvpRecord>();
+  try {
+    bvpRecords = await fetchBvpRecords(supabaseServer, lookupPairs.flatMap(({ bat, pit, gamePk, pitcherTeamId }) => {
+      const bulkId = openerPlans.get(`${gamePk}_${pitcherTeamId}`)?.bulk?.id;
+      return [{ batterId: bat, pitcherId: pit }, ...(bulkId ? [{ batterId: bat, pitcherId: bulkId }] : [])];
+    }));
+  } catch (err) {
+    log(`⚠️ ${err instanceof Error ? err.message : String(err)}; matchups carry no head-to-head history.`);
+  }
+  log(`🆚 Head-to-head history for ${bvpRecords.size} pairs${bvpWeight > 0 ? ` (blended into xwOBA, weight up to ${bvpWeight})` : ''}`);
+
+  // The pair's history as row columns and, with bvpWeight, the stats with avg_xwoba nudged toward it
+  const withBvp = <T extends { avg_xwoba: number }>(stats: T, batterId: number, pitcherId: number) => {
+    const record = bvpRecords.get(bvpKey(batterId, pitcherId));
+    const weight = record?.xwoba != null ? bvpModelWeight(record, bvpWeight) : 0;
+    return {
+      stats: weight > 0 ? { ...stats, avg_xwoba: (1 - weight) * stats.avg_xwoba + weight * record!.xwoba! } : stats,
+      bvpColumns: { bvp_pa: record?.pa ?? null, bvp_xwoba: record?.xwoba ?? null, bvp_weight: weight },
+    };
+  };
+
+  // 6.7 Recent-form windows (player_form_splits) for the form-adjusted matchup and trend
+  let formWindows = new Map<string, FormSplitRow[]>();
+  try {
+    formWindows = await fetchFormSplits(supabaseServer, uniquePlayerIds, gameDate);
+  } catch (err) {
+    log(`⚠️ ${err instanceof Error ? err.message : String(err)}; matchups carry no form trend.`);
+  }
+  log(`🔥 Recent-form windows for ${formWindows.size} player splits`);
+
+  // The same pair rebuilt from form-adjusted splits; form_trend is its xwOBA minus the regular one
+  const formColumns = (
+    batterSplitData: CompleteSplit,
+    pitcherSplitData: CompleteSplit,
+    batterId: number,
+    pitcherId: number,
+    pitSide: 'L' | 'R',
+    batterHand: 'L' | 'R',
+    venueId: number | null,
+    gamePk: number,
+    avgXwoba: number
+  ) => {
+    const batterForm = applyRecentForm(batterSplitData, formWindows.get(formSplitKey(batterId, 'batter', pitSide)) || [], 'batter');
+    const pitcherForm = applyRecentForm(pitcherSplitData, formWindows.get(formSplitKey(pitcherId, 'pitcher', batterHand)) || [], 'pitcher');
+    if (batterForm.formPa == null && pitcherForm.formPa == null) {
+      return { form_xwoba: null, form_trend: null, batter_form_pa: null, pitcher_form_pa: null };
+    }
+    const { stats: formStats } = buildStatColumns(batterForm.split, pitcherForm.split, pitSide, batterHand, venueId, gamePk);
+    const formXwoba = withBvp(formStats, batterId, pitcherId).stats.avg_xwoba;
+    return {
+      form_xwoba: formXwoba,
+      form_trend: formXwoba - avgXwoba,
+      batter_form_pa: batterForm.formPa,
+      pitcher_form_pa: pitcherForm.formPa,
+    };
+  };
+
+  // 6.8 Home/road and day/night splits, and whether each game is a day or night game
+  let contextSplits = new Map<string, PlayerSplit>();
+  if (useContextSplits) {
+    try {
+      contextSplits = await fetchContextSplits(supabaseServer, uniquePlayerIds);
+    } catch (err) {
+      log(`⚠️ ${err instanceof Error ? err.message : String(err)}; matchups use regular splits only.`);
+    }
+  }
+  const venueLongitudes = new Map(parkFactorInputs.venues.map(v => [v.id, v.longitude]));
+  const dayNightByGame = new Map<number, DayNight | null>(
+    games.map(g => [g.gamePk, dayNightFromStart(g.gameDate, g.venue ? venueLongitudes.get(g.venue.id) : null)])
+  );
+  log(`🌗 Context splits for ${contextSplits.size} player splits${useContextSplits ? '' : ' (disabled)'}`);
+
+  // A split regressed toward the player's splits for this game's contexts (unchanged when none qualify)
+  const inContext = (split: CompleteSplit, playerId: number, playerType: 'batter' | 'pitcher', vsHand: string, contexts: (SplitContext | null)[]) => {
+    const rows = contexts.map(c => (c ? contextSplits.get(contextSplitKey(playerId, playerType, vsHand, c)) : undefined));
+    const { split: adjusted, contextPa } = applyContextSplits(split, rows, playerType);
+    return contextPa == null ? split : adjusted;
+  };
+
+  const upserts = lookupPairs.reduce<BuiltMatchup[]>((acc, { gamePk, homeTeamId, awayTeamId, homeTeamAbbr, awayTeamAbbr, venueId, pitcherTeamId, pit, bat, batName, pitName, lineupPosition, batterTeam, pitcherTeam }) => {
+    const batSide = batMap.get(bat);
+    const pitSide = pitMap.get(pit);
+    const skipPair = { game_pk: gamePk, batter_id: bat, batter_name: batName, pitcher_id: pit, pitcher_name: pitName };
+
+    if (!batSide || !pitSide) {
+      let missingHandednessReason = "";
+      if (!batSide) missingHandednessReason += `Batter (ID:${bat}, Name:${batName}) batSide not found. `;
+      if (!pitSide) missingHandednessReason += `Pitcher (ID:${pit}, Name:${pitName}) pitchHand not found. `;
+      log(`⚠️ Skipping matchup Bat:${bat}(${batName}) vs Pit:${pit}(${pitName}) due to missing handedness: ${missingHandednessReason}`);
+      skips.push({ ...skipPair, reason: 'missing_handedness', detail: missingHandednessReason.trim() });
+      return acc;
+    }
+
+    // Determine the actual handedness the pitcher is facing.
+    // This is important if the batter is a switch hitter.
+    const handednessPitcherFaces = effectiveBatterHand(batSide, pitSide);
+    if (!handednessPitcherFaces) {
+      // This case implies pitSide is defined but not 'R' or 'L' (e.g., 'S' itself, or bad data from API).
+      // This is highly unlikely for a pitcher's throwing hand.
+      skips.push({ ...skipPair, reason: 'unknown_effective_hand', detail: `Batter hits ${batSide}, pitcher throws '${pitSide}'.` });
+      log(`⚠️ Cannot determine effective batter hand for pitcher splits: Batter ${batName}(ID:${bat}) is ${batSide}, but Pitcher ${pitName}(ID:${pit}) has unexpected pitSide '${pitSide}'. Skipping matchup.`);
+      return acc;
+    }
+
+    const pitcherSplitData = findSplit(pit, 'pitcher', handednessPitcherFaces);
+
+    // Batter split data lookup remains the same: it's how the batter performs against the pitcher's actual throwing hand.
+    // The player_splits table for a batter should have vs_handedness = 'R' (meaning vs RHP)
+    // and vs_handedness = 'L' (meaning vs LHP). For a switch hitter, these entries already
+    // reflect them batting from the optimal side against that type of pitcher.
+    const batterSplitData = findSplit(bat, 'batter', pitSide); // pitSide is the pitcher's actual throwing hand
+    let detailedSkipReason = "";
+
+    if (hasRequiredStats(pitcherSplitData) && hasRequiredStats(batterSplitData)) {
+      // This game's contexts: the batter's side is home unless the pitcher's team hosts
+      const dayNight = dayNightByGame.get(gamePk) ?? null;
+      const batterContexts: (SplitContext | null)[] = [pitcherTeamId === homeTeamId ? 'road' : 'home', dayNight];
+      const pitcherContexts: (SplitContext | null)[] = [pitcherTeamId === homeTeamId ? 'home' : 'road', dayNight];
+      const batterInContext = inContext(batterSplitData, bat, 'batter', pitSide, batterContexts);
+      const pitcherInContext = inContext(pitcherSplitData, pit, 'pitcher', handednessPitcherFaces, pitcherContexts);
+
+      // All conditions met, combine the two splits with the matchup model
+      const { stats: modelStats, parkFactor, weather } = buildStatColumns(
+        batterInContext, pitcherInContext, pitSide as 'L' | 'R', handednessPitcherFaces, venueId, gamePk
+      );
+      const { stats, bvpColumns } = withBvp(modelStats, bat, pit);
+      // How far the context splits moved xwOBA from the regular-split matchup
+      const contextAdjustment = batterInContext === batterSplitData && pitcherInContext === pitcherSplitData
+        ? 0
+        : modelStats.avg_xwoba - buildStatColumns(batterSplitData, pitcherSplitData, pitSide as 'L' | 'R', handednessPitcherFaces, venueId, gamePk).stats.avg_xwoba;
+
+      const baseRow = {
+        game_date: gameDate,
+        game_pk: gamePk,
+        home_team_id: homeTeamId,
+        away_team_id: awayTeamId,
+        game_home_team_abbreviation: homeTeamAbbr,
+        game_away_team_abbreviation: awayTeamAbbr,
+        batter_id: bat,
+        pitcher_id: pit,
+        batter_name: batName,
+        pitcher_name: pitName,
+        batter_team: batterTeam,
+        pitcher_team: pitcherTeam,
+        lineup_position: lineupPosition,
+        pitcher_hand: pitSide as 'L' | 'R', // Add pitcher hand
+        batter_hand: batSide as 'L' | 'R' | 'S', // Add batter hand
+        matchup_model: model.name,
+        park_hr_factor: parkFactor.hr,
+        park_xwobacon_factor: parkFactor.xwobacon,
+        park_factor_source: parkFactor.source,
+        weather_hr_factor: weather.hr,
+        weather_xwobacon_factor: weather.xwobacon,
+        day_night: dayNight,
+      };
+      // Opener games: the probable covers an inning or two and the bulk pitcher most of the rest
+      const openerPlan = openerPlans.get(`${gamePk}_${pitcherTeamId}`);
+      const bulk = openerPlan?.bulk ?? null;
+      const shares = openerPlan
+        ? openerGameShares(openerPlan.openerInnings, bulk?.expectedInnings ?? 0)
+        : { opener: estimateStarterShare(pitcherUsage.get(pit)), bulk: 0 };
+      const starterShare = shares.opener;
+      const starterRow = {
+        ...baseRow,
+        pitcher_role: openerPlan ? 'opener' : 'starter',
+        bulk_pitcher_id: bulk?.id ?? null,
+        ...bvpColumns,
+        // Full-game rows keep the starter's sample; the bullpen blend doesn't add certainty
+        ...scoreMatchupConfidence(batterSplitData, pitcherSplitData),
+      };
+      acc.push({
+        ...starterRow,
+        ...stats,
+        ...formColumns(batterInContext, pitcherInContext, bat, pit, pitSide as 'L' | 'R', handednessPitcherFaces, venueId, gamePk, stats.avg_xwoba),
+        context_adjustment: contextAdjustment,
+        matchup_scope: 'starter',
+        expected_innings: starterShare * GAME_INNINGS,
+      });
+
+      // Bulk pitcher row, with its own handedness and splits
+      let bulkStats: typeof stats | null = null;
+      if (bulk) {
+        const bulkFaces = effectiveBatterHand(batSide, bulk.hand);
+        const bulkSplit = bulkFaces ? findSplit(bulk.id, 'pitcher', bulkFaces) : null;
+        const batterVsBulk = findSplit(bat, 'batter', bulk.hand);
+        if (bulkFaces && hasRequiredStats(bulkSplit) && hasRequiredStats(batterVsBulk)) {
+          const batterVsBulkInContext = inContext(batterVsBulk, bat, 'batter', bulk.hand, batterContexts);
+          const bulkInContext = inContext(bulkSplit, bulk.id, 'pitcher', bulkFaces, pitcherContexts);
+          const bulkModelStats = buildStatColumns(batterVsBulkInContext, bulkInContext, bulk.hand, bulkFaces, venueId, gamePk).stats;
+          const bulkBvp = withBvp(bulkModelStats, bat, bulk.id);
+          bulkStats = bulkBvp.stats;
+          acc.push({
+            ...baseRow,
+            ...bulkStats,
+            ...bulkBvp.bvpColumns,
+            ...formColumns(batterVsBulkInContext, bulkInContext, bat, bulk.id, bulk.hand, bulkFaces, venueId, gamePk, bulkStats.avg_xwoba),
+            context_adjustment: batterVsBulkInContext === batterVsBulk && bulkInContext === bulkSplit
+              ? 0
+              : bulkModelStats.avg_xwoba - buildStatColumns(batterVsBulk, bulkSplit, bulk.hand, bulkFaces, venueId, gamePk).stats.avg_xwoba,
+            pitcher_id: bulk.id,
+            pitcher_name: bulk.fullName,
+            pitcher_hand: bulk.hand,
+            pitcher_role: 'bulk',
+            ...scoreMatchupConfidence(batterVsBulk, bulkSplit),
+            matchup_scope: 'bulk',
+            expected_innings: bulk.expectedInnings,
+          });
+        } else {
+          log(`ℹ️ No usable splits for Bat:${bat}(${batName}) vs bulk ${bulk.fullName}(${bulk.id}); full game blends the bullpen instead.`);
+        }
+      }
+
+      // Full game: the starter (or opener and bulk pitcher) for their expected innings, the bullpen for the rest
+      const bullpen = bullpens.get(`${gamePk}_${pitcherTeamId}`) || [];
+      const relieverParts = bullpen.flatMap(arm => {
+        const relieverFaces = effectiveBatterHand(batSide, arm.hand);
+        if (!relieverFaces) return [];
+        const relieverSplit = findSplit(arm.id, 'pitcher', relieverFaces);
+        const batterVsArm = findSplit(bat, 'batter', arm.hand);
+        if (!hasRequiredStats(relieverSplit) || !hasRequiredStats(batterVsArm)) return [];
+        const { stats: armStats } = buildStatColumns(
+          inContext(batterVsArm, bat, 'batter', arm.hand, batterContexts),
+          inContext(relieverSplit, arm.id, 'pitcher', relieverFaces, pitcherContexts),
+          arm.hand, relieverFaces, venueId, gamePk
+        );
+        return [{ arm, stats: armStats }];
+      });
+
+      if (relieverParts.length || bulkStats) {
+        const bulkShare = bulkStats ? shares.bulk : 0;
+        const bullpenShare = 1 - starterShare - bulkShare;
+        const armShareTotal = relieverParts.reduce((sum, p) => sum + p.arm.share, 0);
+        const fullGameStats = blendStats([
+          { stats, weight: starterShare },
+          ...(bulkStats ? [{ stats: bulkStats, weight: bulkShare }] : []),
+          ...relieverParts.map(p => ({ stats: p.stats, weight: bullpenShare * p.arm.share / armShareTotal })),
+        ]);
+        if (fullGameStats) {
+          acc.push({
+            ...starterRow,
+            ...fullGameStats,
+            matchup_scope: 'full_game',
+            starter_share: starterShare,
+            bulk_share: bulkStats ? bulkShare : null,
+            bullpen_lhp_share: lefthandedShare(relieverParts.map(p => p.arm)),
+            bullpen_pitcher_count: relieverParts.length,
+          });
+        }
+      } else {
+        log(`ℹ️ No bullpen splits for Bat:${bat}(${batName}) vs Team ${pitcherTeamId}; starter-only matchup.`);
+      }
+    } else {
+      // Determine the exact reason for skipping
+      if (!pitcherSplitData) {
+        detailedSkipReason += `Pitcher split data not found (Criteria: PitID:${pit}, Type:pitcher, VsHand:${handednessPitcherFaces}, Season:0). `;
+      } else {
+        REQUIRED_SPLIT_FIELDS.forEach(field => {
+          if (pitcherSplitData[field] == null) detailedSkipReason += `Pitcher ${field} is null. `;
+        });
+        if (pitcherSplitData.pa != null && pitcherSplitData.pa <= 0) detailedSkipReason += `Pitcher pa is 0. `;
+      }
+      if (!batterSplitData) {
+        detailedSkipReason += `Batter split data not found (Criteria: BatID:${bat}, Type:batter, VsHand:${pitSide}, Season:0). `;
+      } else {
+        REQUIRED_SPLIT_FIELDS.forEach(field => {
+          if (batterSplitData[field] == null) detailedSkipReason += `Batter ${field} is null. `;
+        });
+        if (batterSplitData.pa != null && batterSplitData.pa <= 0) detailedSkipReason += `Batter pa is 0. `;
+      }
+      log(`⚠️ Skipping matchup Bat:${bat}(${batName}) vs Pit:${pit}(${pitName}). Reason(s): ${detailedSkipReason || "One or more required player_split stats are null or records not found."}`);
+      skips.push({
+        ...skipPair,
+        reason: !pitcherSplitData ? 'missing_pitcher_split' : !batterSplitData ? 'missing_batter_split' : 'null_stat',
+        detail: detailedSkipReason.trim() || null,
+      });
+    }
+    return acc;
+  }, []);
+
+  // 7.5 Per-game projections: expected PA from lineup slot, home/away and the lineup's run environment
+  const leagueXwoba = (leagueAverages.batter.L.xwoba + leagueAverages.batter.R.xwoba) / 2;
+  const lineups = new Map<string, BuiltMatchup[]>();
+  upserts.forEach(row => {
+    const key = `${row.game_pk}_${row.batter_team}_${row.matchup_scope}`;
+    lineups.set(key, [...(lineups.get(key) || []), row]);
+  });
+  lineups.forEach(rows => {
+    // Without a posted lineup, the nine best matchups stand in for the starting nine
+    const posted = rows.filter(r => r.lineup_position != null);
+    const lineup = posted.length ? posted : [...rows].sort((a, b) => b.avg_xwoba - a.avg_xwoba).slice(0, 9);
+    const lineupXwoba = lineup.reduce((sum, r) => sum + r.avg_xwoba, 0) / lineup.length;
+    const teamRuns = estimateTeamRuns(lineupXwoba, leagueXwoba);
+
+    rows.forEach(row => {
+      const isHome = row.batter_team === row.game_home_team_abbreviation;
+      const expectedPa = expectedPlateAppearances(row.lineup_position, isHome, teamRuns);
+      Object.assign(row, { projected_team_runs: teamRuns }, projectCountingStats({
+        xwoba: row.avg_xwoba,
+        hr_per_pa: row.avg_hr_per_pa,
+        k_percent: row.avg_k_percent,
+        bb_percent: row.avg_bb_percent,
+        iso: row.avg_iso,
+      }, expectedPa));
+    });
+  });
+
+  log(`💾 Prepared ${upserts.length} records to upsert`);
+
+  // 8. Diff against the current stored rows. Every game whose starters resolved is
+  // reconciled, rows or not: a probable swapped to a pitcher without splits builds nothing,
+  // and the old probable's rows must still go. A game with no probables or whose starter
+  // fetch failed keeps its rows.
+  const existing = await fetchExistingMatchups(supabaseServer, gameDate);
+  const diff = diffMatchups(existing, upserts, diffThreshold);
+  diff.removed = diff.removed.filter(m => startersResolved.has(m.game_pk));
+  log(`🔁 Diff vs ${existing.length} current rows: +${diff.added.length} added, -${diff.removed.length} stale, ${diff.moved.length} moved > ${diffThreshold}`);
+
+  // Dry run: return the diff instead of writing
+  if (dryRun) {
+    return { date: gameDate, gamesCount: games.length, count: upserts.length, superseded: 0, diff, skips, ...(includeRows ? { rows: upserts } : {}) };
+  }
+
+  // 9. Upsert into Supabase (clearing any earlier superseded flag on rows that are valid again)
+  if (upserts.length) {
+    const { error: upsertError } = await supabaseServer
+      .from('daily_matchups')
+      .upsert(upserts.map(row => ({ ...row, superseded_at: null, superseded_reason: null })));
+    if (upsertError) {
+      log(`❌ Upsert error: ${upsertError.message}`);
+      throw upsertError;
+    }
+    log(`✅ Upsert successful`);
+  }
+
+  // 10. Retire rows the run no longer produces (changed probables, batters off the active roster)
+  const supersededCount = await supersedeMatchups(supabaseServer, gameDate, diff.removed, upserts);
+  if (supersededCount) log(`🗑️ Superseded ${supersededCount} stale matchups`);
+
+  return { date: gameDate, gamesCount: games.length, count: upserts.length, superseded: supersededCount + calledOffSuperseded, skips };
+}
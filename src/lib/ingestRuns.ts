@@ -0,0 +1,115 @@
+// src/lib/ingestRuns.ts
+//
+// Run history for /api/ingest: one ingest_runs row per date per run, plus an
+// ingest_skips row for every matchup that couldn't be built or per-game fetch
+// that failed. Read back through /api/ingest-runs to answer "why isn't this
+// player in today's table?".
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { Database } from '@/types/database.types';
+
+type IngestSkipInsert = Database['public']['Tables']['ingest_skips']['Insert'];
+
+export type IngestSkipReason =
+  | 'unknown_starter'
+  | 'missing_handedness'
+  | 'unknown_effective_hand'
+  | 'missing_pitcher_split'
+  | 'missing_batter_split'
+  | 'null_stat'
+  // Game-level: a per-game MLB or weather fetch failed (batter/pitcher columns are null)
+  | 'starter_fetch_failed'
+  | 'boxscore_fetch_failed'
+  | 'weather_fetch_failed';
+
+export interface IngestSkip {
+  game_pk: number | null;
+  batter_id: number | null;
+  batter_name: string | null;
+  pitcher_id: number | null;
+  pitcher_name: string | null;
+  reason: IngestSkipReason;
+  detail: string | null;
+}
+
+export type IngestRunOutcome =
+  | {
+      status: 'succeeded';
+      gamesCount: number;
+      matchupsCount: number;
+      supersededCount: number;
+      skippedCount: number;
+    }
+  | { status: 'failed'; error: string };
+
+const SKIP_INSERT_BATCH_SIZE = 500;
+
+/** Inserts a running ingest_runs row. Returns null (and logs) if it can't be recorded. */
+export async function startIngestRun(
+  client: SupabaseClient,
+  run: { gameDate: string; dryRun: boolean; matchupModel: string; gamePks?: number[] },
+  log: (msg: string) => void = console.log
+): Promise<number | null> {
+  const { data, error } = await client
+    .from('ingest_runs')
+    .insert({
+      game_date: run.gameDate,
+      dry_run: run.dryRun,
+      matchup_model: run.matchupModel,
+      game_pks: run.gamePks ?? null,
+      status: 'running',
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    log(`⚠️ Could not record ingest run: ${error?.message ?? 'no id returned'}`);
+    return null;
+  }
+  return data.id as number;
+}
+
+export async function finishIngestRun(
+  client: SupabaseClient,
+  runId: number | null,
+  outcome: IngestRunOutcome,
+  log: (msg: string) => void = console.log
+): Promise<void> {
+  if (runId == null) return;
+
+  const update = outcome.status === 'succeeded'
+    ? {
+        status: outcome.status,
+        games_count: outcome.gamesCount,
+        matchups_count: outcome.matchupsCount,
+        superseded_count: outcome.supersededCount,
+        skipped_count: outcome.skippedCount,
+      }
+    : { status: outcome.status, error: outcome.error };
+
+  const { error } = await client
+    .from('ingest_runs')
+    .update({ ...update, finished_at: new Date().toISOString() })
+    .eq('id', runId);
+  if (error) log(`⚠️ Could not finish ingest run ${runId}: ${error.message}`);
+}
+
+export async function recordIngestSkips(
+  client: SupabaseClient,
+  runId: number | null,
+  gameDate: string,
+  skips: IngestSkip[],
+  log: (msg: string) => void = console.log
+): Promise<void> {
+  if (runId == null || !skips.length) return;
+
+  const rows: IngestSkipInsert[] = skips.map(skip => ({ ...skip, run_id: runId, game_date: gameDate }));
+  for (let i = 0; i < rows.length; i += SKIP_INSERT_BATCH_SIZE) {
+    const { error } = await client.from('ingest_skips').insert(rows.slice(i, i + SKIP_INSERT_BATCH_SIZE));
+    if (error) {
+      log(`⚠️ Could not record ingest skips for run ${runId}: ${error.message}`);
+      return;
+    }
+  }
+  log(`📝 Recorded ${skips.length} skipped matchups for run ${runId}`);
+}
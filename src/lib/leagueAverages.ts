@@ -0,0 +1,149 @@
+// src/lib/leagueAverages.ts
+//
+// League-average splits per player type and opponent handedness, computed from
+// player_splits. These are the baselines the matchup model combines against.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { Database } from '@/types/database.types';
+import { MATCHUP_STAT_KEYS, MatchupStatKey, SplitRates } from '@/lib/matchupModel';
+
+type PlayerSplit = Database['public']['Tables']['player_splits']['Row'];
+type SplitPlayerType = Database['public']['Enums']['split_player_type'];
+type Hand = Database['public']['Enums']['hand'];
+
+export type LeagueAverages = Record<SplitPlayerType, Record<Hand, SplitRates>>;
+
+export type LeagueAverageSplitRow = Pick<
+  PlayerSplit,
+  | 'player_type'
+  | 'vs_handedness'
+  | 'pa'
+  | 'xwoba'
+  | 'avg_launch_angle'
+  | 'barrels_per_pa'
+  | 'hard_hit_pct'
+  | 'avg_exit_velocity'
+  | 'k_percent'
+  | 'bb_percent'
+  | 'iso'
+  | 'swing_miss_percent'
+  | 'hrs'
+>;
+
+const LEAGUE_SPLIT_COLUMNS =
+  'player_type, vs_handedness, pa, xwoba, avg_launch_angle, barrels_per_pa, hard_hit_pct, avg_exit_velocity, k_percent, bb_percent, iso, swing_miss_percent, hrs';
+
+// Used when a player_type/hand bucket has no usable rows (e.g. an empty dev database).
+// Roughly the 2022-2024 MLB environment.
+export const FALLBACK_LEAGUE_RATES: SplitRates = {
+  xwoba: 0.315,
+  avg_launch_angle: 12.5,
+  barrels_per_pa: 0.055,
+  hard_hit_pct: 0.385,
+  avg_exit_velocity: 88.5,
+  k_percent: 0.225,
+  bb_percent: 0.083,
+  iso: 0.160,
+  swing_miss_percent: 0.245,
+  hr_per_pa: 0.030,
+};
+
+// player_splits column backing each model stat (hr_per_pa is derived from hrs / pa).
+const SPLIT_COLUMN: Record<Exclude<MatchupStatKey, 'hr_per_pa'>, keyof LeagueAverageSplitRow> = {
+  xwoba: 'xwoba',
+  avg_launch_angle: 'avg_launch_angle',
+  barrels_per_pa: 'barrels_per_pa',
+  hard_hit_pct: 'hard_hit_pct',
+  avg_exit_velocity: 'avg_exit_velocity',
+  k_percent: 'k_percent',
+  bb_percent: 'bb_percent',
+  iso: 'iso',
+  swing_miss_percent: 'swing_miss_percent',
+};
+
+/**
+ * PA-weighted league averages for every player_type × vs_handedness bucket.
+ * Each stat is averaged over the rows where it is non-null, so one missing
+ * column does not drop the whole row.
+ */
+export function computeLeagueAverages(rows: LeagueAverageSplitRow[]): LeagueAverages {
+  const averages = {} as LeagueAverages;
+
+  for (const playerType of ['batter', 'pitcher'] as SplitPlayerType[]) {
+    averages[playerType] = {} as Record<Hand, SplitRates>;
+
+    for (const hand of ['L', 'R'] as Hand[]) {
+      const bucket = rows.filter(r =>
+        r.player_type === playerType && r.vs_handedness === hand && r.pa != null && r.pa > 0
+      );
+      const rates = { ...FALLBACK_LEAGUE_RATES };
+
+      for (const [stat, column] of Object.entries(SPLIT_COLUMN) as [Exclude<MatchupStatKey, 'hr_per_pa'>, keyof LeagueAverageSplitRow][]) {
+        let sum = 0;
+        let weight = 0;
+        for (const row of bucket) {
+          const value = row[column];
+          if (typeof value !== 'number') continue;
+          sum += value * row.pa!;
+          weight += row.pa!;
+        }
+        if (weight > 0) rates[stat] = sum / weight;
+      }
+
+      let hrs = 0;
+      let pa = 0;
+      for (const row of bucket) {
+        if (row.hrs == null) continue;
+        hrs += row.hrs;
+        pa += row.pa!;
+      }
+      if (pa > 0) rates.hr_per_pa = hrs / pa;
+
+      averages[playerType][hand] = rates;
+    }
+  }
+
+  return averages;
+}
+
+/**
+ * The baseline for one platoon context: the batter population against this
+ * pitcher hand, averaged with the pitcher population against this batter side.
+ */
+export function getLeagueBaseline(
+  league: LeagueAverages,
+  pitcherHand: Hand,
+  effectiveBatterHand: Hand
+): SplitRates {
+  const batterSide = league.batter[pitcherHand];
+  const pitcherSide = league.pitcher[effectiveBatterHand];
+  const baseline = {} as SplitRates;
+  for (const key of MATCHUP_STAT_KEYS) {
+    baseline[key] = (batterSide[key] + pitcherSide[key]) / 2;
+  }
+  return baseline;
+}
+
+/** Loads every split row for a season (0 = weighted) and computes league averages. */
+export async function fetchLeagueAverages(
+  client: SupabaseClient,
+  season = 0
+): Promise<LeagueAverages> {
+  const pageSize = 1000;
+  let rows: LeagueAverageSplitRow[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await client
+      .from('player_splits')
+      .select(LEAGUE_SPLIT_COLUMNS)
+      .eq('season', season)
+      .eq('split_context', 'all')
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+
+    if (error) throw new Error(`Failed to load player_splits for league averages: ${error.message}`);
+    rows = rows.concat((data || []) as LeagueAverageSplitRow[]);
+    if (!data || data.length < pageSize) break;
+  }
+
+  return computeLeagueAverages(rows);
+}
@@ -0,0 +1,157 @@
+// src/lib/lineupWatch.ts
+//
+// Lineup watcher. Compares each game's boxscore batting orders and the schedule's
+// probable pitchers with what the games table has, re-runs matchup ingest for the
+// changed games only, then updates games and records each difference in lineup_changes.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { Database } from '@/types/database.types';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { MlbScheduleGame, MlbStatsApiClient } from '@/lib/mlbStatsApi';
+import { DEFAULT_FETCH_CONCURRENCY, ingestMatchupsForDate, IngestDateResult } from '@/lib/ingestMatchups';
+import { MatchupModel } from '@/lib/matchupModel';
+
+type GameRow = Database['public']['Tables']['games']['Row'];
+type GameUpdate = Database['public']['Tables']['games']['Update'];
+
+export type LineupChangeType = 'batting_order' | 'probable_pitcher';
+
+export interface LineupChange {
+  game_pk: number;
+  team_side: 'home' | 'away';
+  change_type: LineupChangeType;
+  previous_value: number[] | null;
+  current_value: number[] | null;
+}
+
+export interface LineupWatchResult {
+  date: string;
+  gamesChecked: number;
+  changes: LineupChange[];
+  changedGamePks: number[];
+  ingest: IngestDateResult | null; // Null when nothing changed or on a dry run
+}
+
+type StoredGame = Pick<
+  GameRow,
+  | 'game_pk'
+  | 'away_batting_order'
+  | 'home_batting_order'
+  | 'away_team_probable_pitcher_id'
+  | 'home_team_probable_pitcher_id'
+>;
+
+// Once a game starts, lineup changes are substitutions, not news
+const WATCHED_GAME_STATES = new Set(['Preview']);
+
+const sameIds = (a: number[] | null, b: number[] | null) =>
+  a === b || (!!a && !!b && a.length === b.length && a.every((id, i) => id === b[i]));
+
+// An empty batting order means "not posted"; a lineup that disappears again isn't a change
+const postedOrder = (order: number[] | null | undefined) => (order && order.length ? order : null);
+
+/**
+ * Changes for one game side. Batting orders count once posted (null → lineup,
+ * or a different lineup); probables count whenever the ID differs.
+ */
+export function detectSideChanges(
+  stored: StoredGame,
+  side: 'home' | 'away',
+  currentOrder: number[] | null,
+  currentProbableId: number | null
+): LineupChange[] {
+  const changes: LineupChange[] = [];
+  const storedOrder = postedOrder(stored[`${side}_batting_order`]);
+  if (currentOrder && !sameIds(storedOrder, currentOrder)) {
+    changes.push({ game_pk: stored.game_pk, team_side: side, change_type: 'batting_order', previous_value: storedOrder, current_value: currentOrder });
+  }
+
+  const storedProbable = stored[`${side}_team_probable_pitcher_id`];
+  if (currentProbableId != null && storedProbable !== currentProbableId) {
+    changes.push({
+      game_pk: stored.game_pk,
+      team_side: side,
+      change_type: 'probable_pitcher',
+      previous_value: storedProbable != null ? [storedProbable] : null,
+      current_value: [currentProbableId],
+    });
+  }
+  return changes;
+}
+
+/**
+ * One watcher pass for a date. Dry runs report the changes without writing
+ * anything or re-ingesting.
+ */
+export async function watchLineups(
+  client: SupabaseClient,
+  api: MlbStatsApiClient,
+  gameDate: string,
+  {
+    model,
+    dryRun = false,
+    fetchConcurrency = DEFAULT_FETCH_CONCURRENCY,
+    log = console.log,
+  }: { model: MatchupModel; dryRun?: boolean; fetchConcurrency?: number; log?: (msg: string) => void }
+): Promise<LineupWatchResult> {
+  const { data: storedRows, error: gamesError } = await client
+    .from('games')
+    .select('game_pk, away_batting_order, home_batting_order, away_team_probable_pitcher_id, home_team_probable_pitcher_id')
+    .eq('official_date', gameDate);
+  if (gamesError) throw new Error(`Failed to load games for ${gameDate}: ${gamesError.message}`);
+  const storedByPk = new Map<number, StoredGame>((storedRows || []).map((g: StoredGame) => [g.game_pk, g]));
+
+  const sched = await api.getSchedule({ date: gameDate, hydrate: 'probablePitcher' });
+  const scheduled = (sched.dates[0]?.games || []).filter(g => WATCHED_GAME_STATES.has(g.status.abstractGameState ?? ''));
+  const untracked = scheduled.filter(g => !storedByPk.has(g.gamePk));
+  if (untracked.length) {
+    log(`⚠️ ${untracked.length} games not in the games table (run /api/add-games): ${untracked.map(g => g.gamePk).join(', ')}`);
+  }
+  const watched = scheduled.filter(g => storedByPk.has(g.gamePk));
+  log(`👀 Watching ${watched.length} pre-game games for ${gameDate}`);
+
+  const perGame = await mapWithConcurrency(watched, fetchConcurrency, async (g: MlbScheduleGame) => {
+    const stored = storedByPk.get(g.gamePk)!;
+    try {
+      const boxscore = await api.getBoxscore(g.gamePk);
+      return (['home', 'away'] as const).flatMap(side =>
+        detectSideChanges(stored, side, postedOrder(boxscore.teams[side].battingOrder), g.teams[side].probablePitcher?.id ?? null)
+      );
+    } catch (err) {
+      log(`❌ Error checking game ${g.gamePk}: ${err instanceof Error ? err.message : String(err)}`);
+      return [];
+    }
+  });
+
+  const changes = perGame.flat();
+  const changedGamePks = Array.from(new Set(changes.map(c => c.game_pk)));
+  changes.forEach(c =>
+    log(`🔔 Game ${c.game_pk} ${c.team_side} ${c.change_type}: ${c.previous_value?.join(',') ?? '—'} → ${c.current_value?.join(',') ?? '—'}`)
+  );
+  const result: LineupWatchResult = { date: gameDate, gamesChecked: watched.length, changes, changedGamePks, ingest: null };
+  if (!changes.length) {
+    log(`✅ No lineup or probable changes for ${gameDate}`);
+    return result;
+  }
+  if (dryRun) return result;
+
+  result.ingest = await ingestMatchupsForDate(gameDate, { model, gamePks: changedGamePks, fetchConcurrency, log });
+
+  // Games are updated only after a successful rebuild, so a failed run is retried on the next pass
+  for (const gamePk of changedGamePks) {
+    const update: GameUpdate = { last_updated: new Date().toISOString() };
+    changes.filter(c => c.game_pk === gamePk).forEach(c => {
+      if (c.change_type === 'batting_order') update[`${c.team_side}_batting_order`] = c.current_value;
+      else update[`${c.team_side}_team_probable_pitcher_id`] = c.current_value?.[0] ?? null;
+    });
+    const { error } = await client.from('games').update(update).eq('game_pk', gamePk);
+    if (error) throw new Error(`Failed to update game ${gamePk}: ${error.message}`);
+  }
+
+  const { error: eventsError } = await client
+    .from('lineup_changes')
+    .insert(changes.map(c => ({ ...c, game_date: gameDate, run_id: result.ingest?.runId ?? null })));
+  if (eventsError) log(`⚠️ Could not record lineup changes: ${eventsError.message}`);
+
+  return result;
+}
@@ -0,0 +1,192 @@
+// src/lib/matchupDiff.ts
+//
+// Diff between the current daily_matchups rows for a date and the rows an ingest
+// run would write. Dry runs return it; real runs retire the removed rows.
+//
+// No path aliases here: scripts/check-matchup-logic.ts imports this file directly.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../types/database.types';
+
+type Matchup = Database['public']['Tables']['daily_matchups']['Row'];
+
+export type DiffableMatchup = Pick<
+  Matchup,
+  'game_pk' | 'batter_id' | 'pitcher_id' | 'batter_name' | 'pitcher_name' | 'matchup_scope' | 'avg_xwoba'
+>;
+
+export interface MatchupPair {
+  game_pk: number;
+  batter_id: number;
+  batter_name: string | null;
+  pitcher_id: number;
+  pitcher_name: string | null;
+  matchup_scope: Matchup['matchup_scope'];
+}
+
+export interface MovedMatchup extends MatchupPair {
+  avg_xwoba_before: number;
+  avg_xwoba_after: number;
+  delta: number;
+}
+
+export interface MatchupDiff {
+  threshold: number;
+  existingCount: number;
+  proposedCount: number;
+  unchangedCount: number;
+  added: MatchupPair[];
+  removed: MatchupPair[];
+  moved: MovedMatchup[];
+}
+
+export const DEFAULT_XWOBA_DIFF_THRESHOLD = 0.010;
+
+const DIFF_COLUMNS = 'game_pk, batter_id, pitcher_id, batter_name, pitcher_name, matchup_scope, avg_xwoba';
+
+// Same identity as the daily_matchups primary key
+const pairKey = (m: Pick<Matchup, 'game_pk' | 'batter_id' | 'pitcher_id' | 'matchup_scope'>) =>
+  `${m.game_pk}_${m.batter_id}_${m.pitcher_id}_${m.matchup_scope}`;
+
+const toPair = (m: DiffableMatchup): MatchupPair => ({
+  game_pk: m.game_pk,
+  batter_id: m.batter_id,
+  batter_name: m.batter_name,
+  pitcher_id: m.pitcher_id,
+  pitcher_name: m.pitcher_name,
+  matchup_scope: m.matchup_scope,
+});
+
+/**
+ * Added pairs (new batters, new probables), removed pairs (scratches, changed
+ * probables) and kept pairs whose avg_xwoba moved by more than the threshold.
+ * Moved rows are sorted by the size of the move.
+ */
+export function diffMatchups(
+  existing: DiffableMatchup[],
+  proposed: DiffableMatchup[],
+  threshold = DEFAULT_XWOBA_DIFF_THRESHOLD
+): MatchupDiff {
+  const existingByKey = new Map(existing.map(m => [pairKey(m), m]));
+  const proposedByKey = new Map(proposed.map(m => [pairKey(m), m]));
+
+  const added: MatchupPair[] = [];
+  const moved: MovedMatchup[] = [];
+  let unchangedCount = 0;
+
+  proposedByKey.forEach((next, key) => {
+    const prev = existingByKey.get(key);
+    if (!prev) {
+      added.push(toPair(next));
+      return;
+    }
+    const delta = next.avg_xwoba - prev.avg_xwoba;
+    if (Math.abs(delta) > threshold) {
+      moved.push({ ...toPair(next), avg_xwoba_before: prev.avg_xwoba, avg_xwoba_after: next.avg_xwoba, delta });
+    } else {
+      unchangedCount++;
+    }
+  });
+
+  const removed = existing.filter(m => !proposedByKey.has(pairKey(m))).map(toPair);
+  moved.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return {
+    threshold,
+    existingCount: existingByKey.size,
+    proposedCount: proposedByKey.size,
+    unchangedCount,
+    added,
+    removed,
+    moved,
+  };
+}
+
+/** Loads the current (not superseded) rows for a game_date in the shape diffMatchups needs. */
+export async function fetchExistingMatchups(
+  client: SupabaseClient,
+  gameDate: string
+): Promise<DiffableMatchup[]> {
+  const pageSize = 1000;
+  let rows: DiffableMatchup[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await client
+      .from('daily_matchups')
+      .select(DIFF_COLUMNS)
+      .eq('game_date', gameDate)
+      .is('superseded_at', null)
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+
+    if (error) throw new Error(`Failed to load existing daily_matchups for ${gameDate}: ${error.message}`);
+    rows = rows.concat((data || []) as DiffableMatchup[]);
+    if (!data || data.length < pageSize) break;
+  }
+
+  return rows;
+}
+
+export type SupersededReason = 'probable_changed' | 'batter_removed' | 'game_called_off';
+
+/**
+ * Soft-deletes stored rows the latest run no longer produces. A row is
+ * probable_changed when its pitcher has no proposed rows left in that game,
+ * batter_removed otherwise. Returns how many rows were retired.
+ */
+export async function supersedeMatchups(
+  client: SupabaseClient,
+  gameDate: string,
+  removed: MatchupPair[],
+  proposed: DiffableMatchup[]
+): Promise<number> {
+  const proposedPitchers = new Set(proposed.map(m => `${m.game_pk}_${m.pitcher_id}`));
+
+  // One update per game/pitcher/scope, covering all of its stale batters
+  const groups = new Map<string, { gamePk: number; pitcherId: number; scope: MatchupPair['matchup_scope']; reason: SupersededReason; batterIds: number[] }>();
+  removed.forEach(m => {
+    const key = `${m.game_pk}_${m.pitcher_id}_${m.matchup_scope}`;
+    const group = groups.get(key) ?? {
+      gamePk: m.game_pk,
+      pitcherId: m.pitcher_id,
+      scope: m.matchup_scope,
+      reason: proposedPitchers.has(`${m.game_pk}_${m.pitcher_id}`) ? 'batter_removed' : 'probable_changed',
+      batterIds: [],
+    };
+    group.batterIds.push(m.batter_id);
+    groups.set(key, group);
+  });
+
+  const supersededAt = new Date().toISOString();
+  let count = 0;
+  for (const { gamePk, pitcherId, scope, reason, batterIds } of groups.values()) {
+    const { error } = await client
+      .from('daily_matchups')
+      .update({ superseded_at: supersededAt, superseded_reason: reason })
+      .eq('game_date', gameDate)
+      .eq('game_pk', gamePk)
+      .eq('pitcher_id', pitcherId)
+      .eq('matchup_scope', scope)
+      .in('batter_id', batterIds);
+    if (error) throw new Error(`Failed to supersede matchups for pitcher ${pitcherId}: ${error.message}`);
+    count += batterIds.length;
+  }
+  return count;
+}
+
+/** Retires every current row for games that were postponed, suspended or cancelled. Returns how many. */
+export async function supersedeCalledOffGames(
+  client: SupabaseClient,
+  gameDate: string,
+  gamePks: number[]
+): Promise<number> {
+  if (!gamePks.length) return 0;
+  const { data, error } = await client
+    .from('daily_matchups')
+    .update({ superseded_at: new Date().toISOString(), superseded_reason: 'game_called_off' })
+    .eq('game_date', gameDate)
+    .in('game_pk', gamePks)
+    .is('superseded_at', null)
+    .select('game_pk');
+  if (error) throw new Error(`Failed to supersede matchups for called-off games: ${error.message}`);
+  return data?.length ?? 0;
+}
@@ -0,0 +1,107 @@
+// src/lib/matchupModel.ts
+//
+// Combines a batter's split and a pitcher's split into a single matchup line.
+// Models are pluggable: ingest picks one by name (see getMatchupModel) and every
+// model receives the league baseline for the platoon context, even if it ignores it.
+
+export type MatchupStatKey =
+  | 'xwoba'
+  | 'avg_launch_angle'
+  | 'barrels_per_pa'
+  | 'hard_hit_pct'
+  | 'avg_exit_velocity'
+  | 'k_percent'
+  | 'bb_percent'
+  | 'iso'
+  | 'swing_miss_percent'
+  | 'hr_per_pa';
+
+export type SplitRates = Record<MatchupStatKey, number>;
+
+export const MATCHUP_STAT_KEYS: MatchupStatKey[] = [
+  'xwoba',
+  'avg_launch_angle',
+  'barrels_per_pa',
+  'hard_hit_pct',
+  'avg_exit_velocity',
+  'k_percent',
+  'bb_percent',
+  'iso',
+  'swing_miss_percent',
+  'hr_per_pa',
+];
+
+// Stats that behave like per-PA (or per-event) probabilities and can be combined
+// with odds ratios. Everything else (launch angle, exit velocity, ISO) is combined
+// additively as a deviation from the league baseline.
+const PROBABILITY_STATS = new Set<MatchupStatKey>([
+  'xwoba',
+  'barrels_per_pa',
+  'hard_hit_pct',
+  'k_percent',
+  'bb_percent',
+  'swing_miss_percent',
+  'hr_per_pa',
+]);
+
+export interface MatchupModel {
+  name: string;
+  combine(batter: SplitRates, pitcher: SplitRates, league: SplitRates): SplitRates;
+}
+
+const EPSILON = 1e-6;
+const clampRate = (p: number) => Math.min(1 - EPSILON, Math.max(EPSILON, p));
+
+/**
+ * Odds-ratio (log5) combination of two rates against a league baseline:
+ *   odds(matchup) = odds(batter) × odds(pitcher) / odds(league)
+ */
+export function log5(batterRate: number, pitcherRate: number, leagueRate: number): number {
+  const b = clampRate(batterRate);
+  const p = clampRate(pitcherRate);
+  const l = clampRate(leagueRate);
+  const odds = (b / (1 - b)) * (p / (1 - p)) / (l / (1 - l));
+  return odds / (1 + odds);
+}
+
+/** The original behaviour: a straight mean of the two splits. */
+export const averageModel: MatchupModel = {
+  name: 'average',
+  combine(batter, pitcher) {
+    const result = {} as SplitRates;
+    for (const key of MATCHUP_STAT_KEYS) {
+      result[key] = (batter[key] + pitcher[key]) / 2;
+    }
+    return result;
+  },
+};
+
+/** Log5 for probability stats, additive deviation from league for the rest. */
+export const log5Model: MatchupModel = {
+  name: 'log5',
+  combine(batter, pitcher, league) {
+    const result = {} as SplitRates;
+    for (const key of MATCHUP_STAT_KEYS) {
+      result[key] = PROBABILITY_STATS.has(key)
+        ? log5(batter[key], pitcher[key], league[key])
+        : batter[key] + pitcher[key] - league[key];
+    }
+    return result;
+  },
+};
+
+export const MATCHUP_MODELS: Record<string, MatchupModel> = {
+  [log5Model.name]: log5Model,
+  [averageModel.name]: averageModel,
+};
+
+export const DEFAULT_MATCHUP_MODEL = log5Model.name;
+
+export function getMatchupModel(name?: string | null): MatchupModel {
+  if (!name) return MATCHUP_MODELS[DEFAULT_MATCHUP_MODEL];
+  const model = MATCHUP_MODELS[name];
+  if (!model) {
+    throw new Error(`Unknown matchup model "${name}". Expected one of: ${Object.keys(MATCHUP_MODELS).join(', ')}`);
+  }
+  return model;
+}
@@ -0,0 +1,219 @@
+// src/lib/matchupOutcomes.ts
+//
+// What actually happened in each matchup. Once a game is final, its Statcast
+// play-by-play (one pitch-level search per game) is reduced to plate appearances
+// with the same rules as batter_vs_pitcher, and every starter/bulk pair in the
+// game's daily_matchups gets a matchup_outcomes row: PA, hits, HR, K, BB and
+// PA-level xwOBA against that pitcher, plus the batter's PA in the whole game.
+// Pairs that never met (a benched batter, a starter pulled early) are stored
+// with 0 PA, so "never faced each other" and "not recorded yet" stay distinguishable.
+//
+// No path aliases here: scripts/record-matchup-outcomes.ts imports this file directly.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../types/database.types';
+import {
+  aggregatePlateAppearances,
+  BVP_REQUEST_DELAY_MS,
+  bvpKey,
+  bvpXwoba,
+  emptyBvpTotals,
+  parseStatcastCsv,
+  STATCAST_SEARCH_URL,
+  StatcastPitch,
+} from './batterVsPitcher';
+import { isFinal } from './gameStatus';
+import { fixtureFetch, getFixtureMode } from './httpFixtures';
+import { mlbStatsApi, MlbStatsApiClient } from './mlbStatsApi';
+
+export type MatchupOutcome = Database['public']['Tables']['matchup_outcomes']['Row'];
+type MatchupOutcomeInsert = Database['public']['Tables']['matchup_outcomes']['Insert'];
+
+interface OutcomePair {
+  gamePk: number;
+  batterId: number;
+  pitcherId: number;
+}
+
+/** Statcast search for every pitch of one game. */
+export function buildGameSearchUrl(gamePk: number): string {
+  const params = new URLSearchParams({ all: 'true', type: 'details', game_pk: String(gamePk) });
+  return `${STATCAST_SEARCH_URL}?${params.toString()}`;
+}
+
+/**
+ * One game's outcome rows for its matchup pairs. `pitches` is the game's Statcast
+ * play-by-play; a pair without a PA gets zeros.
+ */
+export function buildOutcomeRows(pitches: StatcastPitch[], pairs: OutcomePair[], gameDate: string): MatchupOutcomeInsert[] {
+  const totals = aggregatePlateAppearances(pitches);
+  const gamePa = new Map<number, number>();
+  totals.forEach((t, key) => {
+    const batterId = Number(key.split('_')[0]);
+    gamePa.set(batterId, (gamePa.get(batterId) ?? 0) + t.pa);
+  });
+
+  return pairs.map(({ gamePk, batterId, pitcherId }) => {
+    const pair = totals.get(bvpKey(batterId, pitcherId)) ?? emptyBvpTotals();
+    return {
+      game_pk: gamePk,
+      batter_id: batterId,
+      pitcher_id: pitcherId,
+      game_date: gameDate,
+      pa: pair.pa,
+      ab: pair.ab,
+      hits: pair.hits,
+      home_runs: pair.home_runs,
+      strikeouts: pair.strikeouts,
+      walks: pair.walks,
+      xwoba_sum: pair.xwoba_sum,
+      xwoba_denom: pair.xwoba_denom,
+      xwoba: bvpXwoba(pair),
+      game_pa: gamePa.get(batterId) ?? 0,
+      recorded_at: new Date().toISOString(),
+    };
+  });
+}
+
+/** Stored outcomes for a set of games. */
+export async function fetchMatchupOutcomes(client: SupabaseClient, gamePks: number[]): Promise<MatchupOutcome[]> {
+  if (!gamePks.length) return [];
+  const pageSize = 1000;
+  let rows: MatchupOutcome[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await client
+      .from('matchup_outcomes')
+      .select('*')
+      .in('game_pk', gamePks)
+      .order('game_pk')
+      .order('batter_id')
+      .order('pitcher_id')
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+    if (error) throw new Error(`Failed to load matchup_outcomes: ${error.message}`);
+    rows = rows.concat((data || []) as MatchupOutcome[]);
+    if (!data || data.length < pageSize) break;
+  }
+  return rows;
+}
+
+export interface OutcomeRecordOptions {
+  // Fetch and total, but write nothing
+  dryRun?: boolean;
+  // Re-record games that already have outcomes (e.g. after a Statcast correction)
+  force?: boolean;
+  api?: MlbStatsApiClient;
+  fetchImpl?: typeof fetch;
+  delayMs?: number;
+  log?: (msg: string) => void;
+}
+
+export interface OutcomeRecordResult {
+  finalGames: number;
+  recordedGames: number;
+  alreadyRecorded: number;
+  rows: number;
+  failedGames: number[];
+}
+
+/**
+ * Records outcomes for every final game on `gameDate` that has matchups. Statuses come
+ * from the MLB schedule and are written back to games.detailed_state, since games rows
+ * are stored before first pitch and nothing else revisits them. One Statcast search per
+ * game; a failed search (or one with no pitches yet) leaves that game for the next run.
+ */
+export async function recordMatchupOutcomes(
+  client: SupabaseClient,
+  gameDate: string,
+  {
+    dryRun = false,
+    force = false,
+    api = mlbStatsApi,
+    fetchImpl = fixtureFetch,
+    delayMs = BVP_REQUEST_DELAY_MS,
+    log = console.log,
+  }: OutcomeRecordOptions = {}
+): Promise<OutcomeRecordResult> {
+  const result: OutcomeRecordResult = { finalGames: 0, recordedGames: 0, alreadyRecorded: 0, rows: 0, failedGames: [] };
+
+  const schedule = await api.getSchedule({ date: gameDate });
+  const finals = (schedule.dates[0]?.games || []).filter(g => isFinal(g.status.detailedState));
+  result.finalGames = finals.length;
+  if (!finals.length) {
+    log(`⏭️ No final games on ${gameDate}`);
+    return result;
+  }
+  if (!dryRun) {
+    for (const g of finals) {
+      const { error } = await client.from('games').update({ detailed_state: g.status.detailedState }).eq('game_pk', g.gamePk);
+      if (error) log(`⚠️ Could not update games.detailed_state for ${g.gamePk}: ${error.message}`);
+    }
+  }
+
+  const finalPks = finals.map(g => g.gamePk);
+  // Paged: a full slate's starter and bulk rows can pass PostgREST's 1,000-row cap
+  const pageSize = 1000;
+  let matchups: { game_pk: number; batter_id: number; pitcher_id: number }[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await client
+      .from('daily_matchups')
+      .select('game_pk, batter_id, pitcher_id')
+      .eq('game_date', gameDate)
+      .in('game_pk', finalPks)
+      .in('matchup_scope', ['starter', 'bulk'])
+      .is('superseded_at', null)
+      .order('game_pk')
+      .order('batter_id')
+      .order('pitcher_id')
+      .order('matchup_scope')
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+    if (error) throw new Error(`Failed to load daily_matchups for ${gameDate}: ${error.message}`);
+    matchups = matchups.concat(data || []);
+    if (!data || data.length < pageSize) break;
+  }
+
+  const pairsByGame = new Map<number, OutcomePair[]>();
+  const seen = new Set<string>();
+  matchups.forEach(m => {
+    const key = `${m.game_pk}_${bvpKey(m.batter_id, m.pitcher_id)}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    if (!pairsByGame.has(m.game_pk)) pairsByGame.set(m.game_pk, []);
+    pairsByGame.get(m.game_pk)!.push({ gamePk: m.game_pk, batterId: m.batter_id, pitcherId: m.pitcher_id });
+  });
+
+  const recorded = force ? new Set<number>() : new Set((await fetchMatchupOutcomes(client, finalPks)).map(o => o.game_pk));
+  result.alreadyRecorded = Array.from(pairsByGame.keys()).filter(pk => recorded.has(pk)).length;
+  log(`📋 ${gameDate}: ${finals.length} final games, ${pairsByGame.size} with matchups, ${result.alreadyRecorded} already recorded`);
+
+  let first = true;
+  for (const [gamePk, pairs] of pairsByGame) {
+    if (recorded.has(gamePk)) continue;
+    if (!first && delayMs > 0 && getFixtureMode() !== 'replay') await new Promise(resolve => setTimeout(resolve, delayMs));
+    first = false;
+
+    let pitches: StatcastPitch[];
+    try {
+      const response = await fetchImpl(buildGameSearchUrl(gamePk));
+      if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      pitches = parseStatcastCsv(await response.text()).filter(p => p.game_pk === gamePk);
+      // Statcast lags the final out; an empty game would store every pair as 0 PA
+      if (!pitches.length) throw new Error('no Statcast pitches yet');
+    } catch (err) {
+      log(`⚠️ Statcast play-by-play failed for game ${gamePk}: ${err instanceof Error ? err.message : String(err)}`);
+      result.failedGames.push(gamePk);
+      continue;
+    }
+
+    const rows = buildOutcomeRows(pitches, pairs, gameDate);
+    const faced = rows.filter(r => (r.pa ?? 0) > 0).length;
+    log(`  ${gamePk}: ${pitches.length} pitches, ${faced}/${rows.length} pairs faced each other`);
+    result.recordedGames++;
+    result.rows += rows.length;
+
+    if (!dryRun) {
+      const { error: upsertError } = await client.from('matchup_outcomes').upsert(rows, { onConflict: 'game_pk,batter_id,pitcher_id' });
+      if (upsertError) throw new Error(`Failed to store matchup_outcomes for game ${gamePk}: ${upsertError.message}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,423 @@
+// src/lib/mlbStatsApi.ts
+//
+// Typed client for the MLB Stats API (statsapi.mlb.com). Every response is checked
+// against the fields we read before it is returned, so an upstream rename fails
+// with the exact path instead of turning into nulls downstream. Retries with
+// exponential backoff (honouring Retry-After on 429) and caches GETs in memory.
+//
+// No path aliases here: scripts/ import this file directly.
+import { fixtureFetch } from './httpFixtures';
+
+// --- Response types (only the fields we use) ---
+
+export interface MlbPersonRef {
+  id: number;
+  fullName?: string;
+}
+
+export interface MlbTeamRef {
+  id: number;
+  name?: string;
+}
+
+export interface MlbScheduleGame {
+  gamePk: number;
+  gameDate: string;         // ISO timestamp of first pitch
+  officialDate: string;     // YYYY-MM-DD
+  status: { detailedState?: string; abstractGameState?: string; codedGameState?: string };
+  teams: {
+    home: { team: MlbTeamRef; probablePitcher?: MlbPersonRef };
+    away: { team: MlbTeamRef; probablePitcher?: MlbPersonRef };
+  };
+  venue?: { id: number; name?: string };
+  lineups?: { homePlayers?: MlbPersonRef[]; awayPlayers?: MlbPersonRef[] };
+  gameNumber?: number;      // 2 for the second game of a doubleheader
+  doubleHeader?: string;    // N, Y (traditional) or S (split admission)
+  // Postponed/suspended entries point at the new date; the makeup entry (same gamePk) points back
+  rescheduleGameDate?: string;
+  rescheduledFromDate?: string;
+  resumeGameDate?: string;
+  resumedFromDate?: string;
+}
+
+export interface MlbScheduleResponse {
+  dates: { date: string; games: MlbScheduleGame[] }[];
+}
+
+export interface MlbBoxscoreTeam {
+  team: MlbTeamRef;
+  battingOrder?: number[];
+  pitchers?: number[];
+  batters?: number[];
+}
+
+export interface MlbBoxscoreResponse {
+  teams: { home: MlbBoxscoreTeam; away: MlbBoxscoreTeam };
+}
+
+export interface MlbLiveFeedResponse {
+  gamePk: number;
+  gameData: {
+    players?: Record<string, MlbPersonRef>;
+    status?: { detailedState?: string };
+  };
+  liveData: {
+    boxscore?: MlbBoxscoreResponse;
+  };
+}
+
+export interface MlbTeam {
+  id: number;
+  name: string;
+  abbreviation: string;
+  teamName?: string;
+  locationName?: string;
+  shortName?: string;
+  active?: boolean;
+  venue: { id: number; name?: string };
+  league: { id: number; name?: string };
+  division: { id: number; name?: string };
+}
+
+export interface MlbRosterEntry {
+  person: MlbPersonRef & Partial<MlbPerson>;
+  position?: { type?: string; abbreviation?: string };
+  status?: { code?: string; description?: string };
+}
+
+export interface MlbPerson {
+  id: number;
+  fullName: string;
+  currentAge?: number;
+  height?: string;
+  weight?: number;
+  primaryPosition?: { name?: string; abbreviation?: string };
+  batSide?: { code: string };
+  pitchHand?: { code: string };
+  // hydrate=stats(...): one entry per stat type (season, gameLog); gameLog splits carry the game date and gamePk
+  stats?: {
+    type?: { displayName?: string };
+    group?: { displayName?: string };
+    splits?: { date?: string; game?: { gamePk?: number }; stat?: Record<string, unknown> }[];
+  }[];
+}
+
+// Coordinates, elevation and field dimensions arrive as numbers or numeric strings
+type Numeric = number | string;
+
+export interface MlbVenue {
+  id: number;
+  name: string;
+  active?: boolean;
+  location?: {
+    city?: string;
+    state?: string;
+    stateAbbrev?: string;
+    postalCode?: string;
+    elevation?: Numeric;
+    azimuthAngle?: Numeric;
+    defaultCoordinates?: { latitude?: Numeric; longitude?: Numeric };
+  };
+  fieldInfo?: {
+    roofType?: string;
+    leftLine?: Numeric;
+    leftCenter?: Numeric;
+    center?: Numeric;
+    rightCenter?: Numeric;
+    rightLine?: Numeric;
+  };
+}
+
+// --- Runtime validation ---
+// Each check throws with the failing path, e.g. "dates[0].games[3].gamePk: expected number, got undefined".
+// Responses stay `unknown` until a check has passed; a Check<T> asserts the value is a T.
+
+type Check<T = unknown> = (value: unknown, path: string) => asserts value is T;
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new Error(`${path}: expected ${expected}, got ${describe(value)}`);
+};
+
+const num: Check = (v, path) => { if (typeof v !== 'number' || isNaN(v)) fail(path, 'number', v); };
+const str: Check = (v, path) => { if (typeof v !== 'string') fail(path, 'string', v); };
+const bool: Check = (v, path) => { if (typeof v !== 'boolean') fail(path, 'boolean', v); };
+// The API sends some numbers as strings ("45.1", "39.7"); accept either
+const numeric: Check = (v, path) => { if (typeof v !== 'number' && (typeof v !== 'string' || isNaN(parseFloat(v)))) fail(path, 'numeric', v); };
+const optional = (check: Check): Check => (v, path) => { if (v !== undefined && v !== null) check(v, path); };
+const arrayOf = (check: Check): Check => (v, path) => {
+  if (!Array.isArray(v)) fail(path, 'array', v);
+  (v as unknown[]).forEach((item, i) => check(item, `${path}[${i}]`));
+};
+const recordOf = (check: Check): Check => (v, path) => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) fail(path, 'object', v);
+  Object.entries(v as Record<string, unknown>).forEach(([k, item]) => check(item, `${path}.${k}`));
+};
+const shape = (fields: Record<string, Check>): Check => (v, path) => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) fail(path, 'object', v);
+  const obj = v as Record<string, unknown>;
+  for (const key of Object.keys(fields)) {
+    const check: Check = fields[key];
+    check(obj[key], path ? `${path}.${key}` : key);
+  }
+};
+
+// A composed check covers the fields T declares (those we read); this states which T
+const responseOf = <T>(check: Check): Check<T> => check as Check<T>;
+
+const personRef = shape({ id: num, fullName: optional(str) });
+const teamRef = shape({ id: num, name: optional(str) });
+const idName = shape({ id: num, name: optional(str) });
+
+const scheduleGame = shape({
+  gamePk: num,
+  gameDate: str,
+  officialDate: str,
+  status: shape({ detailedState: optional(str), abstractGameState: optional(str), codedGameState: optional(str) }),
+  teams: shape({
+    home: shape({ team: teamRef, probablePitcher: optional(personRef) }),
+    away: shape({ team: teamRef, probablePitcher: optional(personRef) }),
+  }),
+  venue: optional(idName),
+  lineups: optional(shape({ homePlayers: optional(arrayOf(personRef)), awayPlayers: optional(arrayOf(personRef)) })),
+  gameNumber: optional(num),
+  doubleHeader: optional(str),
+  rescheduleGameDate: optional(str),
+  rescheduledFromDate: optional(str),
+  resumeGameDate: optional(str),
+  resumedFromDate: optional(str),
+});
+
+const scheduleResponse = responseOf<MlbScheduleResponse>(shape({
+  dates: arrayOf(shape({ date: str, games: arrayOf(scheduleGame) })),
+}));
+
+const boxscoreTeam = shape({
+  team: teamRef,
+  battingOrder: optional(arrayOf(num)),
+  pitchers: optional(arrayOf(num)),
+  batters: optional(arrayOf(num)),
+});
+
+const boxscoreResponse = responseOf<MlbBoxscoreResponse>(shape({ teams: shape({ home: boxscoreTeam, away: boxscoreTeam }) }));
+
+const liveFeedResponse = responseOf<MlbLiveFeedResponse>(shape({
+  gamePk: num,
+  gameData: shape({ players: optional(recordOf(personRef)), status: optional(shape({ detailedState: optional(str) })) }),
+  liveData: shape({ boxscore: optional(boxscoreResponse) }),
+}));
+
+const team = shape({
+  id: num,
+  name: str,
+  abbreviation: str,
+  teamName: optional(str),
+  locationName: optional(str),
+  shortName: optional(str),
+  active: optional(bool),
+  venue: idName,
+  league: idName,
+  division: idName,
+});
+
+const person = shape({
+  id: num,
+  fullName: str,
+  currentAge: optional(num),
+  height: optional(str),
+  weight: optional(num),
+  primaryPosition: optional(shape({ name: optional(str), abbreviation: optional(str) })),
+  batSide: optional(shape({ code: str })),
+  pitchHand: optional(shape({ code: str })),
+  stats: optional(arrayOf(shape({ splits: optional(arrayOf(shape({ stat: optional(recordOf(() => {})) }))) }))),
+});
+
+const rosterEntry = shape({
+  person: personRef,
+  position: optional(shape({ type: optional(str), abbreviation: optional(str) })),
+});
+
+const venue = shape({
+  id: num,
+  name: str,
+  active: optional(bool),
+  location: optional(shape({
+    city: optional(str),
+    elevation: optional(numeric),
+    azimuthAngle: optional(numeric),
+    defaultCoordinates: optional(shape({ latitude: optional(numeric), longitude: optional(numeric) })),
+  })),
+  fieldInfo: optional(shape({
+    roofType: optional(str),
+    leftLine: optional(numeric),
+    leftCenter: optional(numeric),
+    center: optional(numeric),
+    rightCenter: optional(numeric),
+    rightLine: optional(numeric),
+  })),
+});
+
+// --- Client ---
+
+export interface MlbStatsApiOptions {
+  baseUrl?: string;
+  retries?: number;
+  backoffMs?: number;      // First retry delay; doubles each attempt
+  cacheTtlMs?: number;     // 0 disables the cache
+  fetchImpl?: typeof fetch; // Defaults to fixtureFetch (record/replay via HTTP_FIXTURE_MODE)
+  log?: (msg: string) => void;
+}
+
+export const MLB_STATS_API_BASE_URL = 'https://statsapi.mlb.com/api';
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BACKOFF_MS = 500;
+const DEFAULT_CACHE_TTL_MS = 60_000;
+const MAX_RETRY_AFTER_MS = 30_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Values are encoded: hydrate strings carry (, [, = and commas
+const query = (params: Record<string, string | number | undefined>) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([k, v]) => { if (v !== undefined && v !== '') search.set(k, String(v)); });
+  const encoded = search.toString();
+  return encoded ? `?${encoded}` : '';
+};
+
+export function createMlbStatsApiClient(options: MlbStatsApiOptions = {}) {
+  const {
+    baseUrl = MLB_STATS_API_BASE_URL,
+    retries = DEFAULT_RETRIES,
+    backoffMs = DEFAULT_BACKOFF_MS,
+    cacheTtlMs = DEFAULT_CACHE_TTL_MS,
+    fetchImpl = fixtureFetch,
+    log = console.log,
+  } = options;
+
+  // In-flight and recent requests by URL; concurrent callers share one fetch
+  const cache = new Map<string, { expires: number; promise: Promise<unknown> }>();
+
+  async function fetchJson(url: string): Promise<unknown> {
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt <= retries;
+      // Exponential backoff with a little jitter so parallel callers don't retry in lockstep
+      let retryDelay = backoffMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+
+      let res: Response;
+      try {
+        res = await fetchImpl(url);
+      } catch (err) {
+        // Network error (DNS, reset, timeout)
+        const message = err instanceof Error ? err.message : String(err);
+        if (!canRetry) throw new Error(`Fetch ${url} failed after ${attempt} attempts: ${message}`);
+        log(`⏳ Fetch ${url} failed (attempt ${attempt}/${retries + 1}): ${message}`);
+        await sleep(retryDelay);
+        continue;
+      }
+
+      if (res.ok) return (await res.json()) as unknown;
+
+      // Only rate limits and server errors are worth retrying
+      const retryable = res.status === 429 || res.status >= 500;
+      if (!retryable || !canRetry) throw new Error(`HTTP ${res.status} ${res.statusText} for ${url}`);
+
+      if (res.status === 429) {
+        const retryAfter = parseFloat(res.headers.get('retry-after') ?? '');
+        if (!isNaN(retryAfter)) retryDelay = Math.min(MAX_RETRY_AFTER_MS, retryAfter * 1000);
+      }
+      log(`⏳ HTTP ${res.status} for ${url} (attempt ${attempt}/${retries + 1}); retrying in ${Math.round(retryDelay)}ms`);
+      await sleep(retryDelay);
+    }
+  }
+
+  async function get<T>(path: string, check: Check<T>, label: string): Promise<T> {
+    const url = `${baseUrl}${path}`;
+    const now = Date.now();
+    const cached = cache.get(url);
+    if (cached && cached.expires > now) return cached.promise as Promise<T>;
+
+    const promise = fetchJson(url).then((json): T => {
+      try {
+        check(json, '');
+      } catch (err) {
+        throw new Error(`MLB Stats API ${label} response failed validation (${url}): ${(err as Error).message}`);
+      }
+      return json;
+    });
+    if (cacheTtlMs > 0) {
+      // Expired entries go on every write, so a long-running server doesn't keep every URL it has seen
+      cache.forEach((entry, key) => { if (entry.expires <= now) cache.delete(key); });
+      cache.set(url, { expires: now + cacheTtlMs, promise });
+      promise.catch(() => cache.delete(url));
+    }
+    return promise;
+  }
+
+  return {
+    /** /v1/schedule for one date or a startDate..endDate window. */
+    getSchedule(params: { date?: string; startDate?: string; endDate?: string; hydrate?: string; sportId?: number }) {
+      const { sportId = 1, ...rest } = params;
+      return get<MlbScheduleResponse>(`/v1/schedule${query({ sportId, ...rest })}`, scheduleResponse, 'schedule');
+    },
+
+    getBoxscore(gamePk: number) {
+      return get<MlbBoxscoreResponse>(`/v1/game/${gamePk}/boxscore`, boxscoreResponse, 'boxscore');
+    },
+
+    getLiveFeed(gamePk: number) {
+      return get<MlbLiveFeedResponse>(`/v1.1/game/${gamePk}/feed/live`, liveFeedResponse, 'feed/live');
+    },
+
+    async getTeams(params: { sportId?: number; season?: number } = {}): Promise<MlbTeam[]> {
+      const { sportId = 1, season } = params;
+      const res = await get<{ teams: MlbTeam[] }>(`/v1/teams${query({ sportId, season })}`, responseOf<{ teams: MlbTeam[] }>(shape({ teams: arrayOf(team) })), 'teams');
+      return res.teams;
+    },
+
+    async getTeam(teamId: number): Promise<MlbTeam | null> {
+      const res = await get<{ teams: MlbTeam[] }>(`/v1/teams/${teamId}`, responseOf<{ teams: MlbTeam[] }>(shape({ teams: arrayOf(team) })), 'team');
+      return res.teams[0] ?? null;
+    },
+
+    /** /v1/teams/{id}/roster; `date` (YYYY-MM-DD) returns the roster as of that day instead of today's. */
+    async getRoster(teamId: number, params: { rosterType?: string; date?: string; hydrate?: string } = {}): Promise<MlbRosterEntry[]> {
+      const { rosterType = 'active', date, hydrate } = params;
+      const res = await get<{ roster?: MlbRosterEntry[] }>(
+        `/v1/teams/${teamId}/roster${query({ rosterType, date, sportId: 1, hydrate })}`,
+        responseOf<{ roster?: MlbRosterEntry[] }>(shape({ roster: optional(arrayOf(rosterEntry)) })),
+        'roster'
+      );
+      return res.roster ?? [];
+    },
+
+    async getPeople(personIds: number[], params: { hydrate?: string } = {}): Promise<MlbPerson[]> {
+      if (!personIds.length) return [];
+      const res = await get<{ people?: MlbPerson[] }>(
+        `/v1/people${query({ personIds: personIds.join(','), hydrate: params.hydrate })}`,
+        responseOf<{ people?: MlbPerson[] }>(shape({ people: optional(arrayOf(person)) })),
+        'people'
+      );
+      return res.people ?? [];
+    },
+
+    async getVenue(venueId: number, params: { hydrate?: string } = {}): Promise<MlbVenue | null> {
+      const res = await get<{ venues: MlbVenue[] }>(
+        `/v1/venues/${venueId}${query({ hydrate: params.hydrate })}`,
+        responseOf<{ venues: MlbVenue[] }>(shape({ venues: arrayOf(venue) })),
+        'venue'
+      );
+      return res.venues[0] ?? null;
+    },
+
+    clearCache() {
+      cache.clear();
+    },
+  };
+}
+
+export type MlbStatsApiClient = ReturnType<typeof createMlbStatsApiClient>;
+
+// Shared instance for API routes and scripts
+export const mlbStatsApi = createMlbStatsApiClient();
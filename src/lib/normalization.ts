@@ -0,0 +1,268 @@
+// src/lib/normalization.ts
+//
+// League-relative normalization. For every season × player type × opponent hand,
+// player_splits gives a PA-weighted league mean and a percentile distribution per
+// stat; matchup values are expressed against them as "+" indexes (100 = league
+// average) and percentiles. scripts/compute-league-distributions.ts stores the
+// distributions in league_distributions; readers fall back to computing them.
+//
+// No path aliases here: scripts/ import this file directly, and the search page
+// uses the pure helpers in the browser.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../types/database.types';
+import type { MatchupStatKey } from './matchupModel';
+
+type PlayerSplit = Database['public']['Tables']['player_splits']['Row'];
+type Matchup = Database['public']['Tables']['daily_matchups']['Row'];
+type SplitPlayerType = Database['public']['Enums']['split_player_type'];
+type Hand = Database['public']['Enums']['hand'];
+type LeagueDistributionRow = Database['public']['Tables']['league_distributions']['Row'];
+
+export interface StatDistribution {
+  mean: number;
+  quantiles: number[]; // quantiles[p] = value at percentile p, p = 0..100
+  sampleSize: number;
+}
+
+export type LeagueDistributions = Record<SplitPlayerType, Record<Hand, Partial<Record<MatchupStatKey, StatDistribution>>>>;
+
+export interface StatIndex {
+  plus: number; // 100 = league average
+  percentile: number; // 0-100, share of qualified players at or below the value
+}
+
+export type MatchupIndexes = Partial<Record<MatchupStatColumn, StatIndex>>;
+
+export type DistributionSplitRow = Pick<
+  PlayerSplit,
+  | 'player_type'
+  | 'vs_handedness'
+  | 'pa'
+  | 'xwoba'
+  | 'avg_launch_angle'
+  | 'barrels_per_pa'
+  | 'hard_hit_pct'
+  | 'avg_exit_velocity'
+  | 'k_percent'
+  | 'bb_percent'
+  | 'iso'
+  | 'swing_miss_percent'
+  | 'hrs'
+  | 'hr_per_pa'
+>;
+
+const DISTRIBUTION_SPLIT_COLUMNS =
+  'player_type, vs_handedness, pa, xwoba, avg_launch_angle, barrels_per_pa, hard_hit_pct, avg_exit_velocity, k_percent, bb_percent, iso, swing_miss_percent, hrs, hr_per_pa';
+
+// Players below this many PA in a split stay in the mean (PA-weighted) but not the percentiles
+export const DEFAULT_DISTRIBUTION_MIN_PA = 50;
+
+// daily_matchups column for each split stat
+export const MATCHUP_STAT_COLUMNS = {
+  xwoba: 'avg_xwoba',
+  avg_launch_angle: 'avg_launch_angle',
+  barrels_per_pa: 'avg_barrels_per_pa',
+  hard_hit_pct: 'avg_hard_hit_pct',
+  avg_exit_velocity: 'avg_exit_velocity',
+  k_percent: 'avg_k_percent',
+  bb_percent: 'avg_bb_percent',
+  iso: 'avg_iso',
+  swing_miss_percent: 'avg_swing_miss_percent',
+  hr_per_pa: 'avg_hr_per_pa',
+} as const satisfies Record<MatchupStatKey, keyof Matchup>;
+
+export type MatchupStatColumn = (typeof MATCHUP_STAT_COLUMNS)[MatchupStatKey];
+
+// From the batter's side: +1 when higher is better, -1 when lower is better, 0 when neither
+export const STAT_DIRECTION: Record<MatchupStatKey, 1 | -1 | 0> = {
+  xwoba: 1,
+  avg_launch_angle: 0,
+  barrels_per_pa: 1,
+  hard_hit_pct: 1,
+  avg_exit_velocity: 1,
+  k_percent: -1,
+  bb_percent: 1,
+  iso: 1,
+  swing_miss_percent: -1,
+  hr_per_pa: 1,
+};
+
+const statValue = (row: DistributionSplitRow, stat: MatchupStatKey): number | null => {
+  // Regressed rate when the weighted row has one, like the other (regressed) rate stats
+  if (stat === 'hr_per_pa') return row.hr_per_pa ?? (row.hrs != null && row.pa ? row.hrs / row.pa : null);
+  const value = row[stat];
+  return typeof value === 'number' ? value : null;
+};
+
+/** Value at each integer percentile of an ascending list, linearly interpolated. */
+function buildQuantiles(sorted: number[]): number[] {
+  return Array.from({ length: 101 }, (_, p) => {
+    const pos = (p / 100) * (sorted.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+  });
+}
+
+/** Mean (PA-weighted) and percentiles (players with at least minPa) for one bucket of split rows. */
+export function computeStatDistribution(
+  rows: DistributionSplitRow[],
+  stat: MatchupStatKey,
+  minPa = DEFAULT_DISTRIBUTION_MIN_PA
+): StatDistribution | null {
+  let sum = 0;
+  let weight = 0;
+  const qualified: number[] = [];
+  for (const row of rows) {
+    const value = statValue(row, stat);
+    if (value == null || !row.pa || row.pa <= 0) continue;
+    sum += value * row.pa;
+    weight += row.pa;
+    if (row.pa >= minPa) qualified.push(value);
+  }
+  if (weight <= 0 || !qualified.length) return null;
+  return { mean: sum / weight, quantiles: buildQuantiles(qualified.sort((a, b) => a - b)), sampleSize: qualified.length };
+}
+
+/** Distributions for every player_type × vs_handedness bucket and stat. Buckets without data are left empty. */
+export function computeLeagueDistributions(rows: DistributionSplitRow[], minPa = DEFAULT_DISTRIBUTION_MIN_PA): LeagueDistributions {
+  const distributions = { batter: { L: {}, R: {} }, pitcher: { L: {}, R: {} } } as LeagueDistributions;
+  for (const playerType of ['batter', 'pitcher'] as SplitPlayerType[]) {
+    for (const hand of ['L', 'R'] as Hand[]) {
+      const bucket = rows.filter(r => r.player_type === playerType && r.vs_handedness === hand);
+      for (const stat of Object.keys(MATCHUP_STAT_COLUMNS) as MatchupStatKey[]) {
+        const dist = computeStatDistribution(bucket, stat, minPa);
+        if (dist) distributions[playerType][hand][stat] = dist;
+      }
+    }
+  }
+  return distributions;
+}
+
+/** Percentile (0-100) of a value within a distribution, interpolated between the stored quantiles. */
+export function percentileOf(dist: StatDistribution, value: number): number {
+  const q = dist.quantiles;
+  if (value <= q[0]) return 0;
+  if (value >= q[100]) return 100;
+  let lo = 0;
+  let hi = 100;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (q[mid] <= value) lo = mid;
+    else hi = mid;
+  }
+  const span = q[hi] - q[lo];
+  return span > 0 ? lo + (value - q[lo]) / span : lo;
+}
+
+export function plusIndex(dist: StatDistribution, value: number): number {
+  return dist.mean !== 0 ? Math.round((100 * value) / dist.mean) : 100;
+}
+
+/**
+ * Indexes for every stat on a matchup row, against batters facing the same
+ * pitcher hand (the population a matchup line is comparable to).
+ */
+export function indexMatchup(
+  matchup: Pick<Matchup, MatchupStatColumn | 'pitcher_hand'>,
+  distributions: LeagueDistributions
+): MatchupIndexes {
+  const indexes: MatchupIndexes = {};
+  const hand = matchup.pitcher_hand;
+  const bucket = hand === 'L' || hand === 'R' ? distributions.batter[hand] : undefined;
+  if (!bucket) return indexes;
+  for (const [stat, column] of Object.entries(MATCHUP_STAT_COLUMNS) as [MatchupStatKey, MatchupStatColumn][]) {
+    const dist = bucket[stat];
+    const value = matchup[column];
+    if (!dist || value == null) continue;
+    indexes[column] = { plus: plusIndex(dist, value), percentile: Math.round(percentileOf(dist, value)) };
+  }
+  return indexes;
+}
+
+/** Percentile flipped so that higher is always better for the batter; null for direction-less stats. */
+export function favorablePercentile(column: MatchupStatColumn, index: StatIndex | undefined): number | null {
+  const stat = (Object.keys(MATCHUP_STAT_COLUMNS) as MatchupStatKey[]).find(s => MATCHUP_STAT_COLUMNS[s] === column);
+  if (!index || !stat || STAT_DIRECTION[stat] === 0) return null;
+  return STAT_DIRECTION[stat] === 1 ? index.percentile : 100 - index.percentile;
+}
+
+export type PercentileBand = 'elite' | 'good' | 'average' | 'poor';
+
+/** Color band for a favorable percentile; the UI maps bands to its own classes. */
+export function percentileBand(favorable: number): PercentileBand {
+  if (favorable >= 90) return 'elite';
+  if (favorable >= 65) return 'good';
+  if (favorable >= 35) return 'average';
+  return 'poor';
+}
+
+const toStoredRows = (season: number, minPa: number, distributions: LeagueDistributions) =>
+  (['batter', 'pitcher'] as SplitPlayerType[]).flatMap(playerType =>
+    (['L', 'R'] as Hand[]).flatMap(hand =>
+      (Object.entries(distributions[playerType][hand]) as [MatchupStatKey, StatDistribution][]).map(([stat, dist]) => ({
+        season,
+        player_type: playerType,
+        vs_handedness: hand,
+        stat,
+        mean: dist.mean,
+        quantiles: dist.quantiles,
+        sample_size: dist.sampleSize,
+        min_pa: minPa,
+        computed_at: new Date().toISOString(),
+      }))
+    )
+  );
+
+async function loadSplitRows(client: SupabaseClient, season: number): Promise<DistributionSplitRow[]> {
+  const pageSize = 1000;
+  let rows: DistributionSplitRow[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await client
+      .from('player_splits')
+      .select(DISTRIBUTION_SPLIT_COLUMNS)
+      .eq('season', season)
+      .eq('split_context', 'all')
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+    if (error) throw new Error(`Failed to load player_splits for season ${season}: ${error.message}`);
+    rows = rows.concat((data || []) as DistributionSplitRow[]);
+    if (!data || data.length < pageSize) break;
+  }
+  return rows;
+}
+
+/** Recomputes one season's distributions from player_splits and stores them. Returns how many rows were written. */
+export async function refreshLeagueDistributions(
+  client: SupabaseClient,
+  season: number,
+  minPa = DEFAULT_DISTRIBUTION_MIN_PA
+): Promise<number> {
+  const rows = toStoredRows(season, minPa, computeLeagueDistributions(await loadSplitRows(client, season), minPa));
+  if (!rows.length) return 0;
+  const { error } = await client
+    .from('league_distributions')
+    .upsert(rows, { onConflict: 'season,player_type,vs_handedness,stat' });
+  if (error) throw new Error(`Failed to store league distributions for season ${season}: ${error.message}`);
+  return rows.length;
+}
+
+/**
+ * Stored distributions for a season (0 = the weighted splits ingest uses). A
+ * season that was never stored is computed from player_splits on the spot.
+ */
+export async function fetchLeagueDistributions(client: SupabaseClient, season = 0): Promise<LeagueDistributions> {
+  const { data, error } = await client.from('league_distributions').select('*').eq('season', season);
+  if (error) throw new Error(`Failed to load league distributions for season ${season}: ${error.message}`);
+  if (!data?.length) return computeLeagueDistributions(await loadSplitRows(client, season));
+
+  const distributions = { batter: { L: {}, R: {} }, pitcher: { L: {}, R: {} } } as LeagueDistributions;
+  (data as LeagueDistributionRow[]).forEach(row => {
+    distributions[row.player_type][row.vs_handedness][row.stat as MatchupStatKey] = {
+      mean: row.mean,
+      quantiles: row.quantiles,
+      sampleSize: row.sample_size,
+    };
+  });
+  return distributions;
+}
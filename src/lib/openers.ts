@@ -0,0 +1,114 @@
+// src/lib/openers.ts
+//
+// Opener detection. A probable who has been starting but only lasting an inning or
+// two, or a reliever handed a start, is treated as an opener; the bulk arm behind
+// them is the rested member of the same staff with the longest recent relief outings.
+// Both come from the game logs hydrated with PITCHING_STATS_HYDRATE.
+//
+// No path aliases here: scripts/ import this file directly.
+import { GAME_INNINGS, inningsPitchedStat, isReliever, numericStat, PitcherUsage } from './bullpen';
+import type { MlbPerson } from './mlbStatsApi';
+
+export interface PitcherAppearance {
+  date: string; // YYYY-MM-DD
+  started: boolean;
+  inningsPitched: number;
+}
+
+export interface OpenerAssessment {
+  isOpener: boolean;
+  expectedInnings: number; // Only meaningful for openers
+  reason: string | null;
+}
+
+export interface BulkPitcher {
+  id: number;
+  fullName: string;
+  hand: 'L' | 'R';
+  expectedInnings: number;
+}
+
+const RECENT_APPEARANCES = 10;
+const MIN_RECENT_STARTS = 2;
+const OPENER_MAX_INNINGS_PER_START = 2;
+const MIN_APPEARANCES_FOR_ROLE = 5; // A debut or early-season call-up isn't flagged on role alone
+const DEFAULT_OPENER_INNINGS = 1.5;
+const MAX_OPENER_INNINGS = 2.5;
+const MIN_BULK_OUTINGS = 2;
+const MIN_BULK_INNINGS = 2.5; // Average per recent relief outing
+const MAX_BULK_INNINGS = 6;
+const MIN_BULK_REST_DAYS = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const daysBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / 86_400_000;
+
+/** Most recent appearances before gameDate, newest first, from a people-endpoint player's game log. */
+export function parseRecentAppearances(person: MlbPerson | null | undefined, gameDate: string, limit = RECENT_APPEARANCES): PitcherAppearance[] {
+  const log = person?.stats?.find(s => s.group?.displayName === 'pitching' && s.type?.displayName === 'gameLog');
+  const appearances: PitcherAppearance[] = [];
+  log?.splits?.forEach(({ date, stat }) => {
+    if (!date || date >= gameDate || !stat) return;
+    appearances.push({
+      date,
+      started: (numericStat(stat.gamesStarted) ?? 0) > 0,
+      inningsPitched: inningsPitchedStat(stat.inningsPitched),
+    });
+  });
+  return appearances.sort((a, b) => b.date.localeCompare(a.date)).slice(0, limit);
+}
+
+/**
+ * Flags a probable as an opener when their recent starts average at most
+ * OPENER_MAX_INNINGS_PER_START innings, or, without enough recent starts, when
+ * their season line is a reliever's.
+ */
+export function detectOpener(
+  usage: PitcherUsage | null | undefined,
+  appearances: PitcherAppearance[]
+): OpenerAssessment {
+  const starts = appearances.filter(a => a.started);
+  const inningsPerStart = starts.length ? average(starts.map(a => a.inningsPitched)) : null;
+  const expectedInnings = clamp(inningsPerStart ?? DEFAULT_OPENER_INNINGS, 1, MAX_OPENER_INNINGS);
+
+  if (inningsPerStart != null && starts.length >= MIN_RECENT_STARTS) {
+    return inningsPerStart <= OPENER_MAX_INNINGS_PER_START
+      ? { isOpener: true, expectedInnings, reason: `${inningsPerStart.toFixed(1)} IP per start over the last ${starts.length} starts` }
+      : { isOpener: false, expectedInnings, reason: null };
+  }
+  if (usage && usage.gamesPitched >= MIN_APPEARANCES_FOR_ROLE && isReliever(usage)) {
+    return { isOpener: true, expectedInnings, reason: `reliever (${usage.gamesStarted} starts in ${usage.gamesPitched} appearances)` };
+  }
+  return { isOpener: false, expectedInnings, reason: null };
+}
+
+/**
+ * The likely bulk pitcher behind an opener: among rested candidates with at least
+ * MIN_BULK_OUTINGS recent relief outings averaging MIN_BULK_INNINGS or more, the
+ * one who goes longest. Null when nobody on the staff pitches like a bulk arm.
+ */
+export function pickBulkPitcher(
+  candidates: { id: number; fullName: string; hand: 'L' | 'R' | undefined }[],
+  appearances: Map<number, PitcherAppearance[]>,
+  gameDate: string
+): BulkPitcher | null {
+  let best: BulkPitcher | null = null;
+  for (const c of candidates) {
+    const recent = appearances.get(c.id) || [];
+    if (!c.hand || !recent.length || daysBetween(recent[0].date, gameDate) < MIN_BULK_REST_DAYS) continue;
+    const reliefOutings = recent.filter(a => !a.started);
+    if (reliefOutings.length < MIN_BULK_OUTINGS) continue;
+    const inningsPerOuting = average(reliefOutings.map(a => a.inningsPitched));
+    if (inningsPerOuting < MIN_BULK_INNINGS) continue;
+    if (!best || inningsPerOuting > best.expectedInnings) {
+      best = { id: c.id, fullName: c.fullName, hand: c.hand, expectedInnings: inningsPerOuting };
+    }
+  }
+  return best && { ...best, expectedInnings: clamp(best.expectedInnings, MIN_BULK_INNINGS, MAX_BULK_INNINGS) };
+}
+
+/** Shares of the game for the opener and bulk pitcher; the bullpen covers whatever is left. */
+export function openerGameShares(openerInnings: number, bulkInnings: number): { opener: number; bulk: number } {
+  const opener = openerInnings / GAME_INNINGS;
+  return { opener, bulk: Math.min(bulkInnings / GAME_INNINGS, 1 - opener) };
+}
@@ -0,0 +1,143 @@
+// src/lib/parkFactors.ts
+//
+// Per-venue, per-batter-hand park factors. Imported factors (park_factors table,
+// loaded by scripts/import-park-factors.ts) win; otherwise a factor is estimated
+// from the venue's fence distances and elevation. 1.0 is neutral throughout.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { Database } from '@/types/database.types';
+
+type Venue = Database['public']['Tables']['venues']['Row'];
+type ParkFactorRow = Database['public']['Tables']['park_factors']['Row'];
+type Hand = Database['public']['Enums']['hand'];
+
+export type ParkFactorSource = 'table' | 'estimate' | 'neutral';
+
+export interface ParkFactor {
+  hr: number;
+  doublesTriples: number;
+  xwobacon: number;
+  source: ParkFactorSource;
+}
+
+export const NEUTRAL_PARK_FACTOR: ParkFactor = { hr: 1, doublesTriples: 1, xwobacon: 1, source: 'neutral' };
+
+// Approximate league-average fence distances (feet)
+const AVERAGE_DIMENSIONS = {
+  leftLine: 330,
+  leftCenter: 377,
+  center: 404,
+  rightCenter: 377,
+  rightLine: 328,
+};
+
+// How much of a hitter's home-run distance comes from each part of the field
+// when looking from the batter's pull side: line, gap, straightaway center.
+const PULL_WEIGHTS = { line: 0.5, gap: 0.35, center: 0.15 };
+
+const HR_PER_FOOT = 0.015;             // +1.5% HR for every foot closer than average
+const HR_PER_1000_FT_ELEVATION = 0.035;
+const XBH_PER_FOOT = 0.008;            // Deeper gaps and center mean more doubles/triples
+const XBH_PER_1000_FT_ELEVATION = 0.02;
+export const XWOBACON_SHARE_OF_HR_EFFECT = 0.25;
+const MIN_FACTOR = 0.75;
+const MAX_FACTOR = 1.35;
+
+// Walks carry the same wOBA weight in every park; only the contact part of xwOBA moves.
+const BB_WOBA_WEIGHT = 0.69;
+
+const clampFactor = (f: number) => Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, f));
+
+/**
+ * Estimate a park factor from fence distances and elevation. Right-handed batters
+ * pull to left field and left-handed batters to right field.
+ */
+export function estimateParkFactor(venue: Venue, batterHand: Hand): ParkFactor {
+  const pullLine = batterHand === 'R' ? venue.field_left_line : venue.field_right_line;
+  const pullGap = batterHand === 'R' ? venue.field_left_center : venue.field_right_center;
+  const avgLine = batterHand === 'R' ? AVERAGE_DIMENSIONS.leftLine : AVERAGE_DIMENSIONS.rightLine;
+  const avgGap = batterHand === 'R' ? AVERAGE_DIMENSIONS.leftCenter : AVERAGE_DIMENSIONS.rightCenter;
+
+  const parts: { actual: number | null; average: number; weight: number }[] = [
+    { actual: pullLine, average: avgLine, weight: PULL_WEIGHTS.line },
+    { actual: pullGap, average: avgGap, weight: PULL_WEIGHTS.gap },
+    { actual: venue.field_center, average: AVERAGE_DIMENSIONS.center, weight: PULL_WEIGHTS.center },
+  ];
+  const known = parts.filter(p => p.actual != null && p.actual > 0);
+  if (!known.length && venue.elevation == null) return NEUTRAL_PARK_FACTOR;
+
+  // Positive when the fences are closer than average
+  const knownWeight = known.reduce((sum, p) => sum + p.weight, 0);
+  const feetShorter = knownWeight > 0
+    ? known.reduce((sum, p) => sum + (p.average - p.actual!) * p.weight, 0) / knownWeight
+    : 0;
+  const elevationThousands = (venue.elevation ?? 0) / 1000;
+
+  const hr = clampFactor(1 + feetShorter * HR_PER_FOOT + elevationThousands * HR_PER_1000_FT_ELEVATION);
+  const doublesTriples = clampFactor(1 - feetShorter * XBH_PER_FOOT + elevationThousands * XBH_PER_1000_FT_ELEVATION);
+  const xwobacon = clampFactor(1 + (hr - 1) * XWOBACON_SHARE_OF_HR_EFFECT);
+
+  return { hr, doublesTriples, xwobacon, source: 'estimate' };
+}
+
+/**
+ * Builds a lookup that prefers imported factors and falls back to the estimate.
+ */
+export function buildParkFactorLookup(
+  venues: Venue[],
+  rows: ParkFactorRow[]
+): (venueId: number | null | undefined, batterHand: Hand) => ParkFactor {
+  const venueMap = new Map<number, Venue>();
+  venues.forEach(v => venueMap.set(v.id, v));
+
+  const tableMap = new Map<string, ParkFactor>();
+  rows.forEach(r => {
+    tableMap.set(`${r.venue_id}_${r.batter_hand}`, {
+      hr: r.hr_factor ?? 1,
+      doublesTriples: r.doubles_triples_factor ?? 1,
+      xwobacon: r.xwobacon_factor ?? 1,
+      source: 'table',
+    });
+  });
+
+  return (venueId, batterHand) => {
+    if (venueId == null) return NEUTRAL_PARK_FACTOR;
+    const imported = tableMap.get(`${venueId}_${batterHand}`);
+    if (imported) return imported;
+    const venue = venueMap.get(venueId);
+    return venue ? estimateParkFactor(venue, batterHand) : NEUTRAL_PARK_FACTOR;
+  };
+}
+
+/**
+ * Applies a park (or any other environment) factor to a matchup's xwOBA and HR/PA.
+ * The walk component of xwOBA is left alone; the rest is scaled by the
+ * xwOBA-on-contact factor.
+ */
+export function applyParkFactor(
+  stats: { xwoba: number; hr_per_pa: number; bb_percent: number },
+  factor: Pick<ParkFactor, 'hr' | 'xwobacon'>
+): { xwoba: number; hr_per_pa: number } {
+  const contactPart = Math.max(0, stats.xwoba - stats.bb_percent * BB_WOBA_WEIGHT);
+  return {
+    xwoba: stats.xwoba + contactPart * (factor.xwobacon - 1),
+    hr_per_pa: stats.hr_per_pa * factor.hr,
+  };
+}
+
+/** Loads venues and imported park factors for a set of venue IDs. */
+export async function fetchParkFactorInputs(
+  client: SupabaseClient,
+  venueIds: number[]
+): Promise<{ venues: Venue[]; rows: ParkFactorRow[] }> {
+  if (!venueIds.length) return { venues: [], rows: [] };
+
+  const [{ data: venues, error: venuesError }, { data: rows, error: rowsError }] = await Promise.all([
+    client.from('venues').select('*').in('id', venueIds),
+    client.from('park_factors').select('*').in('venue_id', venueIds),
+  ]);
+  if (venuesError) throw new Error(`Failed to load venues for park factors: ${venuesError.message}`);
+  if (rowsError) throw new Error(`Failed to load park_factors: ${rowsError.message}`);
+
+  return { venues: (venues || []) as Venue[], rows: (rows || []) as ParkFactorRow[] };
+}
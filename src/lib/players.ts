@@ -0,0 +1,78 @@
+// src/lib/players.ts
+//
+// Player handedness for ingest. The players table (filled by populate-static-data.ts)
+// answers most lookups; IDs it doesn't know yet (call-ups, trades) are fetched from
+// the MLB people endpoint in batches and written back so the next run has them.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { Database } from '@/types/database.types';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { MlbPerson, MlbStatsApiClient } from '@/lib/mlbStatsApi';
+
+type PlayerInsert = Database['public']['Tables']['players']['Insert'];
+
+export interface PlayerHandedness {
+  batSide: string | null;
+  pitchHand: string | null;
+}
+
+const PLAYER_QUERY_BATCH_SIZE = 500;
+// Keeps /people URLs well under URL length limits
+export const PEOPLE_BATCH_SIZE = 100;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/** Handedness for the given IDs from the players table. IDs without a row are absent from the map. */
+export async function fetchStoredHandedness(
+  client: SupabaseClient,
+  playerIds: number[]
+): Promise<Map<number, PlayerHandedness>> {
+  const handedness = new Map<number, PlayerHandedness>();
+  for (const batch of chunk(playerIds, PLAYER_QUERY_BATCH_SIZE)) {
+    const { data, error } = await client
+      .from('players')
+      .select('player_id, bat_side_code, pitch_hand_code')
+      .in('player_id', batch);
+    if (error) throw new Error(`Failed to load players: ${error.message}`);
+    (data || []).forEach((p: { player_id: number; bat_side_code: string | null; pitch_hand_code: string | null }) => {
+      handedness.set(p.player_id, { batSide: p.bat_side_code, pitchHand: p.pitch_hand_code });
+    });
+  }
+  return handedness;
+}
+
+/** People-endpoint lookup split into PEOPLE_BATCH_SIZE chunks, at most `concurrency` in flight. */
+export async function fetchPeopleInBatches(
+  api: MlbStatsApiClient,
+  personIds: number[],
+  { hydrate, concurrency = 4 }: { hydrate?: string; concurrency?: number } = {}
+): Promise<MlbPerson[]> {
+  const batches = await mapWithConcurrency(chunk(personIds, PEOPLE_BATCH_SIZE), concurrency, batch =>
+    api.getPeople(batch, { hydrate })
+  );
+  return batches.flat();
+}
+
+export function toPlayerRow(person: MlbPerson): PlayerInsert {
+  return {
+    player_id: person.id,
+    full_name: person.fullName,
+    current_age: person.currentAge ?? null,
+    height: person.height ?? null,
+    weight: person.weight ?? null,
+    primary_position_name: person.primaryPosition?.name ?? null,
+    primary_position_abbreviation: person.primaryPosition?.abbreviation ?? null,
+    bat_side_code: person.batSide?.code ?? null,
+    pitch_hand_code: person.pitchHand?.code ?? null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/** Upserts people-endpoint players into the players table. Returns how many rows were written. */
+export async function upsertPlayers(client: SupabaseClient, people: MlbPerson[]): Promise<number> {
+  if (!people.length) return 0;
+  const { error } = await client.from('players').upsert(people.map(toPlayerRow), { onConflict: 'player_id' });
+  if (error) throw new Error(`Failed to upsert players: ${error.message}`);
+  return people.length;
+}
@@ -0,0 +1,86 @@
+// src/lib/projections.ts
+//
+// Per-game counting-stat projections. Expected plate appearances come from the
+// lineup slot, home/away and the batting team's run environment; multiplying by
+// the matchup's per-PA rates gives expected HR, K, BB and total bases.
+
+// League-average PA per game by lineup slot (1-9). Each slot down loses ~0.1 PA.
+const PA_BY_LINEUP_SLOT = [4.65, 4.55, 4.45, 4.35, 4.25, 4.15, 4.05, 3.95, 3.85];
+// Lineup not posted yet: assume a middle-of-the-order slot
+const DEFAULT_LINEUP_PA = 4.25;
+// Home teams skip the bottom of the 9th about half the time
+const HOME_PA_ADJUSTMENT = -0.12;
+
+const LEAGUE_RUNS_PER_GAME = 4.5;
+const LEAGUE_TEAM_PA_PER_GAME = 38.2;
+const TEAM_PA_PER_RUN = 0.85;           // Team PA added per extra run scored
+const RUNS_XWOBA_EXPONENT = 2;          // Runs scale faster than linearly with team wOBA
+const MIN_TEAM_RUNS = 2.5;
+const MAX_TEAM_RUNS = 7.5;
+
+// wOBA linear weights used to back singles out of xwOBA
+const WOBA_WEIGHTS = { bb: 0.69, single: 0.89, extraBase: 1.27, hr: 2.1 };
+
+export interface ProjectionRates {
+  xwoba: number;
+  hr_per_pa: number;
+  k_percent: number;
+  bb_percent: number;
+  iso: number;
+}
+
+export interface CountingStatProjection {
+  expected_pa: number;
+  proj_hr: number;
+  proj_k: number;
+  proj_bb: number;
+  proj_tb: number;
+}
+
+/** Team runs per game implied by the lineup's average matchup xwOBA against the league. */
+export function estimateTeamRuns(lineupXwoba: number, leagueXwoba: number): number {
+  if (!(lineupXwoba > 0) || !(leagueXwoba > 0)) return LEAGUE_RUNS_PER_GAME;
+  const runs = LEAGUE_RUNS_PER_GAME * Math.pow(lineupXwoba / leagueXwoba, RUNS_XWOBA_EXPONENT);
+  return Math.min(MAX_TEAM_RUNS, Math.max(MIN_TEAM_RUNS, runs));
+}
+
+/** Expected PA for one batter. Null lineup position means the lineup isn't posted. */
+export function expectedPlateAppearances(
+  lineupPosition: number | null,
+  isHome: boolean,
+  teamRunsPerGame = LEAGUE_RUNS_PER_GAME
+): number {
+  const base = lineupPosition != null && lineupPosition >= 1 && lineupPosition <= 9
+    ? PA_BY_LINEUP_SLOT[lineupPosition - 1]
+    : DEFAULT_LINEUP_PA;
+  const extraTeamPa = (teamRunsPerGame - LEAGUE_RUNS_PER_GAME) * TEAM_PA_PER_RUN;
+  const runEnvironment = 1 + extraTeamPa / LEAGUE_TEAM_PA_PER_GAME;
+  return Math.max(0, (base + (isHome ? HOME_PA_ADJUSTMENT : 0)) * runEnvironment);
+}
+
+/**
+ * Total bases per PA, rebuilt from the rates we carry. ISO gives the extra bases
+ * beyond singles; xwOBA (less walks, HR and extra-base hits) gives the singles.
+ * Triples are folded into doubles.
+ */
+export function totalBasesPerPa(rates: ProjectionRates): number {
+  const abPerPa = Math.max(0, 1 - rates.bb_percent);
+  const extraBasesPerPa = rates.iso * abPerPa;
+  const doublesPerPa = Math.max(0, extraBasesPerPa - 3 * rates.hr_per_pa);
+  const singlesPerPa = Math.max(
+    0,
+    (rates.xwoba - WOBA_WEIGHTS.bb * rates.bb_percent - WOBA_WEIGHTS.extraBase * doublesPerPa - WOBA_WEIGHTS.hr * rates.hr_per_pa) /
+      WOBA_WEIGHTS.single
+  );
+  return singlesPerPa + 2 * doublesPerPa + 4 * rates.hr_per_pa;
+}
+
+export function projectCountingStats(rates: ProjectionRates, expectedPa: number): CountingStatProjection {
+  return {
+    expected_pa: expectedPa,
+    proj_hr: rates.hr_per_pa * expectedPa,
+    proj_k: rates.k_percent * expectedPa,
+    proj_bb: rates.bb_percent * expectedPa,
+    proj_tb: totalBasesPerPa(rates) * expectedPa,
+  };
+}
@@ -0,0 +1,128 @@
+// src/lib/recentForm.ts
+//
+// Recent form. player_form_splits holds each player's splits over the last 14 and
+// 30 days; ingest regresses the season-0 split toward them (longest window first,
+// then the shorter one on top, so the last two weeks count twice) and reruns the
+// matchup model. The difference from the regular matchup is the trend: positive
+// when recent form favors the batter, negative when it favors the pitcher.
+//
+// No path aliases here: scripts/ import this file directly, and the search page
+// uses the trend helpers in the browser.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../types/database.types';
+
+export type FormSplitRow = Database['public']['Tables']['player_form_splits']['Row'];
+type SplitPlayerType = Database['public']['Enums']['split_player_type'];
+
+// Window lengths fetch-savant-stats.ts downloads, in days
+export const FORM_WINDOWS = [14, 30] as const;
+
+// A window this many days older than the game is stale and ignored
+const MAX_FORM_AGE_DAYS = 7;
+
+// PA at which a window's rate counts as much as the split it adjusts. Well above the
+// season regression constants: a hot fortnight is mostly noise.
+const FORM_REGRESSION_PA: Record<SplitPlayerType, number> = { batter: 300, pitcher: 400 };
+
+// |form_trend| at or above this shows as hot/cold
+export const FORM_TREND_THRESHOLD = 0.015;
+
+export type FormTrend = 'hot' | 'cold' | 'neutral';
+
+// Split fields a form window (or context split) can move; hrs is handled as a rate per PA
+const FORM_RATE_FIELDS = [
+  'xwoba', 'avg_launch_angle', 'barrels_per_pa', 'hard_hit_pct', 'avg_exit_velocity',
+  'k_percent', 'bb_percent', 'iso', 'swing_miss_percent',
+] as const;
+
+export type FormAdjustable = { [K in (typeof FORM_RATE_FIELDS)[number] | 'hrs' | 'pa']?: number | null };
+
+export const formSplitKey = (playerId: number, playerType: string, vsHand: string) => `${playerId}_${playerType}_${vsHand}`;
+
+/**
+ * Moves a split's rates toward each sample in turn by pa / (pa + k), skipping samples
+ * with no PA. Returns the adjusted split and the PA of the first sample applied.
+ * Also used for home/road and day/night splits (gameContext.ts).
+ */
+export function regressSplitToward<T extends FormAdjustable>(
+  split: T,
+  samples: FormAdjustable[],
+  k: number
+): { split: T; firstPa: number | null } {
+  const adjusted = { ...split };
+  let hrRate = split.hrs != null && split.pa ? split.hrs / split.pa : null;
+  let firstPa: number | null = null;
+
+  for (const sample of samples) {
+    const pa = sample.pa ?? 0;
+    if (pa <= 0) continue;
+    const pull = pa / (pa + k);
+    FORM_RATE_FIELDS.forEach(field => {
+      const current = adjusted[field];
+      const target = sample[field];
+      if (current == null || target == null) return;
+      (adjusted as FormAdjustable)[field] = current + pull * (target - current);
+    });
+    if (hrRate != null && sample.hrs != null) hrRate += pull * (sample.hrs / pa - hrRate);
+    firstPa ??= pa;
+  }
+
+  if (hrRate != null && split.pa) (adjusted as FormAdjustable).hrs = hrRate * split.pa;
+  return { split: adjusted, firstPa };
+}
+
+/**
+ * A season split regressed toward its recent-form windows. Each window pulls a rate
+ * by pa / (pa + K); windows are applied longest first. `formPa` is the PA of the
+ * longest window used (null when none applied).
+ */
+export function applyRecentForm<T extends FormAdjustable>(
+  split: T,
+  windows: FormSplitRow[],
+  playerType: SplitPlayerType
+): { split: T; formPa: number | null } {
+  const longestFirst = [...windows].sort((a, b) => b.window_days - a.window_days);
+  const { split: adjusted, firstPa } = regressSplitToward(split, longestFirst, FORM_REGRESSION_PA[playerType]);
+  return { split: adjusted, formPa: firstPa };
+}
+
+export function formTrend(delta: number | null | undefined): FormTrend | null {
+  if (delta == null) return null;
+  if (delta >= FORM_TREND_THRESHOLD) return 'hot';
+  if (delta <= -FORM_TREND_THRESHOLD) return 'cold';
+  return 'neutral';
+}
+
+const PLAYER_QUERY_BATCH_SIZE = 500;
+
+/**
+ * Form windows for the given players that end before `gameDate` and within a week of
+ * it, keyed by formSplitKey. Windows ending on or after the game date would leak
+ * results into a backfilled matchup, so they are left out.
+ */
+export async function fetchFormSplits(
+  client: SupabaseClient,
+  playerIds: number[],
+  gameDate: string
+): Promise<Map<string, FormSplitRow[]>> {
+  const oldest = new Date(`${gameDate}T00:00:00Z`);
+  oldest.setUTCDate(oldest.getUTCDate() - MAX_FORM_AGE_DAYS);
+  const windows = new Map<string, FormSplitRow[]>();
+
+  for (let i = 0; i < playerIds.length; i += PLAYER_QUERY_BATCH_SIZE) {
+    const { data, error } = await client
+      .from('player_form_splits')
+      .select('*')
+      .in('player_id', playerIds.slice(i, i + PLAYER_QUERY_BATCH_SIZE))
+      .lt('window_end', gameDate)
+      .gte('window_end', oldest.toISOString().slice(0, 10));
+    if (error) throw new Error(`Failed to load player_form_splits: ${error.message}`);
+    (data as FormSplitRow[] | null)?.forEach(row => {
+      const key = formSplitKey(row.player_id, row.player_type, row.vs_handedness);
+      if (!windows.has(key)) windows.set(key, []);
+      windows.get(key)!.push(row);
+    });
+  }
+  return windows;
+}
@@ -0,0 +1,100 @@
+// src/lib/scoreProfiles.ts
+//
+// Composite matchup scores. A profile is a named set of signed weights over the
+// daily_matchups stat columns (stored in score_profiles). The score averages the
+// stats' league percentiles (src/lib/normalization.ts) by those weights, so every
+// profile lands on the same 0-100 scale with 50 = a league-average line.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { Database } from '@/types/database.types';
+import { MATCHUP_STAT_COLUMNS, MatchupIndexes, MatchupStatColumn } from '@/lib/normalization';
+
+type ScoreProfileRow = Database['public']['Tables']['score_profiles']['Row'];
+
+export type ScoreWeights = Partial<Record<MatchupStatColumn, number>>;
+
+export interface ScoreProfile {
+  name: string;
+  label: string;
+  description: string | null;
+  // Negative weights reward low values (e.g. strikeouts in points leagues)
+  weights: ScoreWeights;
+}
+
+// Same rows the score_profiles migration seeds; used when the table can't be read
+export const DEFAULT_SCORE_PROFILES: ScoreProfile[] = [
+  {
+    name: 'power',
+    label: 'Power',
+    description: 'HR and extra-base thump for power-heavy roto categories.',
+    weights: { avg_hr_per_pa: 0.35, avg_barrels_per_pa: 0.25, avg_iso: 0.2, avg_hard_hit_pct: 0.1, avg_exit_velocity: 0.1 },
+  },
+  {
+    name: 'obp',
+    label: 'OBP',
+    description: 'Getting on base: overall quality, walks, and avoiding strikeouts.',
+    weights: { avg_xwoba: 0.4, avg_bb_percent: 0.35, avg_k_percent: -0.25 },
+  },
+  {
+    name: 'contact',
+    label: 'Contact',
+    description: 'Balls in play for AVG formats: low K% and whiff rate, with some quality of contact.',
+    weights: { avg_k_percent: -0.4, avg_swing_miss_percent: -0.3, avg_xwoba: 0.2, avg_hard_hit_pct: 0.1 },
+  },
+  {
+    name: 'points',
+    label: 'Points',
+    description: 'Points leagues: total bases and walks count, strikeouts cost points.',
+    weights: { avg_xwoba: 0.35, avg_iso: 0.2, avg_hr_per_pa: 0.15, avg_bb_percent: 0.1, avg_k_percent: -0.2 },
+  },
+];
+
+const STAT_COLUMNS = new Set<string>(Object.values(MATCHUP_STAT_COLUMNS));
+
+/** Keeps only known stat columns with finite, non-zero weights. */
+export function sanitizeWeights(raw: unknown): ScoreWeights {
+  const weights: ScoreWeights = {};
+  if (!raw || typeof raw !== 'object') return weights;
+  for (const [column, weight] of Object.entries(raw as Record<string, unknown>)) {
+    if (STAT_COLUMNS.has(column) && typeof weight === 'number' && Number.isFinite(weight) && weight !== 0) {
+      weights[column as MatchupStatColumn] = weight;
+    }
+  }
+  return weights;
+}
+
+/**
+ * Weighted average of the stats' percentiles around 50, on a 0-100 scale.
+ * Stats without an index are dropped and the remaining weights renormalized;
+ * null when none of the profile's stats have one.
+ */
+export function compositeScore(indexes: MatchupIndexes, weights: ScoreWeights): number | null {
+  let total = 0;
+  let weightSum = 0;
+  for (const [column, weight] of Object.entries(weights) as [MatchupStatColumn, number][]) {
+    const index = indexes[column];
+    if (!index) continue;
+    total += weight * (index.percentile - 50);
+    weightSum += Math.abs(weight);
+  }
+  return weightSum > 0 ? Math.round((50 + total / weightSum) * 10) / 10 : null;
+}
+
+/** Profiles from score_profiles, ordered by sort_order; the built-in defaults if the table is empty or unreadable. */
+export async function fetchScoreProfiles(
+  client: SupabaseClient,
+  log: (msg: string) => void = console.log
+): Promise<ScoreProfile[]> {
+  const { data, error } = await client.from('score_profiles').select('*').order('sort_order', { ascending: true });
+  if (error) {
+    log(`⚠️ Could not load score_profiles (${error.message}); using built-in profiles.`);
+    return DEFAULT_SCORE_PROFILES;
+  }
+  if (!data?.length) return DEFAULT_SCORE_PROFILES;
+  return (data as ScoreProfileRow[]).map(row => ({
+    name: row.name,
+    label: row.label,
+    description: row.description,
+    weights: sanitizeWeights(row.weights),
+  }));
+}
@@ -0,0 +1,163 @@
+// src/lib/weather.ts
+//
+// Game-time weather for matchups. Providers are pluggable: Open-Meteo for live
+// forecasts, or a JSON file keyed by game_pk for offline runs and tests. Pick one
+// with WEATHER_PROVIDER=open-meteo|file|none (file reads WEATHER_FIXTURE_PATH).
+import fs from 'fs/promises';
+
+import { Database } from '@/types/database.types';
+import { XWOBACON_SHARE_OF_HR_EFFECT } from '@/lib/parkFactors';
+import { fixtureFetch } from '@/lib/httpFixtures';
+
+type Venue = Database['public']['Tables']['venues']['Row'];
+
+export interface WeatherSnapshot {
+  temperature_f: number | null;
+  wind_speed_mph: number | null;
+  wind_direction_deg: number | null; // Direction the wind blows FROM, degrees clockwise from north
+  precipitation_probability: number | null; // 0-100
+  precipitation_mm: number | null;
+  forecast_time_utc: string | null;
+}
+
+export interface WeatherRequest {
+  gamePk: number;
+  latitude: number;
+  longitude: number;
+  gameTimeUtc: string;
+}
+
+export interface WeatherProvider {
+  name: string;
+  getForecast(request: WeatherRequest): Promise<WeatherSnapshot | null>;
+}
+
+export type WeatherAdjustmentReason =
+  | 'applied'
+  | 'dome'
+  | 'roof_closed'
+  | 'no_forecast';
+
+export interface WeatherAdjustment {
+  hr: number;
+  xwobacon: number;
+  reason: WeatherAdjustmentReason;
+}
+
+export const NEUTRAL_WEATHER_ADJUSTMENT: WeatherAdjustment = { hr: 1, xwobacon: 1, reason: 'no_forecast' };
+
+const BASELINE_TEMPERATURE_F = 70;
+const HR_PER_DEGREE_F = 0.005;      // Warmer air is thinner: ~+5% HR per 10°F
+const HR_PER_MPH_OUT = 0.015;       // Per mph of wind blowing straight out to center
+const MIN_WEATHER_FACTOR = 0.8;
+const MAX_WEATHER_FACTOR = 1.25;
+
+// Retractable roofs are assumed closed in conditions a team would close them for
+const RETRACTABLE_CLOSE_PRECIP_PROBABILITY = 50;
+const RETRACTABLE_CLOSE_BELOW_F = 55;
+const RETRACTABLE_CLOSE_ABOVE_F = 90;
+
+/** Open-Meteo hourly forecast, matched to the hour closest to first pitch. */
+export function createOpenMeteoProvider(baseUrl = 'https://api.open-meteo.com/v1/forecast'): WeatherProvider {
+  return {
+    name: 'open-meteo',
+    async getForecast({ latitude, longitude, gameTimeUtc }) {
+      const date = gameTimeUtc.slice(0, 10);
+      const url = `${baseUrl}?latitude=${latitude}&longitude=${longitude}` +
+        `&hourly=temperature_2m,precipitation_probability,precipitation,wind_speed_10m,wind_direction_10m` +
+        `&temperature_unit=fahrenheit&wind_speed_unit=mph&timezone=UTC&start_date=${date}&end_date=${date}`;
+
+      const res = await fixtureFetch(url);
+      if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText} for ${url}`);
+      const json = await res.json();
+
+      const times: string[] = json.hourly?.time || [];
+      if (!times.length) return null;
+
+      const target = new Date(gameTimeUtc).getTime();
+      let best = 0;
+      times.forEach((t, i) => {
+        if (Math.abs(new Date(`${t}Z`).getTime() - target) < Math.abs(new Date(`${times[best]}Z`).getTime() - target)) {
+          best = i;
+        }
+      });
+      const at = (series: string) => (json.hourly?.[series]?.[best] as number | null | undefined) ?? null;
+
+      return {
+        temperature_f: at('temperature_2m'),
+        wind_speed_mph: at('wind_speed_10m'),
+        wind_direction_deg: at('wind_direction_10m'),
+        precipitation_probability: at('precipitation_probability'),
+        precipitation_mm: at('precipitation'),
+        forecast_time_utc: `${times[best]}:00Z`,
+      };
+    },
+  };
+}
+
+/**
+ * Reads snapshots from a JSON file shaped like { "<game_pk>": WeatherSnapshot }.
+ * Games missing from the file have no forecast.
+ */
+export function createFileWeatherProvider(filePath: string): WeatherProvider {
+  let cache: Promise<Record<string, WeatherSnapshot>> | null = null;
+  return {
+    name: 'file',
+    async getForecast({ gamePk }) {
+      cache ??= fs.readFile(filePath, 'utf-8').then(text => JSON.parse(text));
+      const snapshots = await cache;
+      return snapshots[String(gamePk)] ?? null;
+    },
+  };
+}
+
+/** Provider from WEATHER_PROVIDER / WEATHER_FIXTURE_PATH, or null when weather is disabled. */
+export function getWeatherProvider(): WeatherProvider | null {
+  const name = process.env.WEATHER_PROVIDER || 'open-meteo';
+  if (name === 'none') return null;
+  if (name === 'file') {
+    if (!process.env.WEATHER_FIXTURE_PATH) {
+      throw new Error('WEATHER_PROVIDER=file requires WEATHER_FIXTURE_PATH');
+    }
+    return createFileWeatherProvider(process.env.WEATHER_FIXTURE_PATH);
+  }
+  if (name === 'open-meteo') return createOpenMeteoProvider();
+  throw new Error(`Unknown WEATHER_PROVIDER "${name}". Expected open-meteo, file or none.`);
+}
+
+/**
+ * Carry adjustment for HR and xwOBA on contact. Domes and retractable roofs that
+ * are likely closed get no adjustment. Wind only counts when the venue's
+ * center-field bearing is known.
+ */
+export function computeWeatherAdjustment(
+  snapshot: WeatherSnapshot | null,
+  venue: Venue | null | undefined
+): WeatherAdjustment {
+  if (!snapshot) return NEUTRAL_WEATHER_ADJUSTMENT;
+
+  const roof = venue?.roof_type?.toLowerCase() ?? '';
+  if (roof.includes('dome')) return { hr: 1, xwobacon: 1, reason: 'dome' };
+  if (roof.includes('retractable')) {
+    const temp = snapshot.temperature_f;
+    const likelyClosed =
+      (snapshot.precipitation_probability ?? 0) >= RETRACTABLE_CLOSE_PRECIP_PROBABILITY ||
+      (temp != null && (temp < RETRACTABLE_CLOSE_BELOW_F || temp > RETRACTABLE_CLOSE_ABOVE_F));
+    if (likelyClosed) return { hr: 1, xwobacon: 1, reason: 'roof_closed' };
+  }
+
+  let hr = 1;
+  if (snapshot.temperature_f != null) {
+    hr += (snapshot.temperature_f - BASELINE_TEMPERATURE_F) * HR_PER_DEGREE_F;
+  }
+  const bearing = venue?.center_field_bearing;
+  if (bearing != null && snapshot.wind_speed_mph != null && snapshot.wind_direction_deg != null) {
+    // Meteorological direction is where the wind comes from; it blows toward the opposite bearing
+    const blowingToward = (snapshot.wind_direction_deg + 180) % 360;
+    const outComponent = snapshot.wind_speed_mph * Math.cos(((blowingToward - bearing) * Math.PI) / 180);
+    hr += outComponent * HR_PER_MPH_OUT;
+  }
+  hr = Math.min(MAX_WEATHER_FACTOR, Math.max(MIN_WEATHER_FACTOR, hr));
+
+  return { hr, xwobacon: 1 + (hr - 1) * XWOBACON_SHARE_OF_HR_EFFECT, reason: 'applied' };
+}
@@ -2,26 +2,93 @@
 // src/pages/api/add-games.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseServer } from '@/lib/supabaseServerClient';
+import { addDays, enumerateDates, parseDateRangeQuery } from '@/lib/dateRange';
+import { mapWithConcurrency, parseConcurrency } from '@/lib/concurrency';
+import { mlbStatsApi, MlbScheduleGame } from '@/lib/mlbStatsApi';
+import { isCalledOff } from '@/lib/gameStatus';
 
 import { Database } from '@/types/database.types';
 type Game = Database['public']['Tables']['games']['Row'];
 
-// Re-using the fetchWithRetry utility from ingest.ts
-const fetchWithRetry = async (url: string, retries = 3): Promise<any> => {
-  for (let i = 1; i <= retries; i++) {
-    try {
-      const res = await fetch(url);
-      if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText} for ${url}`);
-      console.log(`Fetch success: ${url}`);
-      return res.json();
-    } catch (err) {
-      console.error(`Fetch ${url} (attempt ${i}) failed:`, err);
-      if (i === retries) throw err;
-      await new Promise(resolve => setTimeout(resolve, 1000 * i)); // Exponential backoff
+// Schedule calls are light; a week of dates at a time is fine
+const DEFAULT_DATE_CONCURRENCY = 4;
+const MAX_DATE_CONCURRENCY = 8;
+// Without ?start=&end=: today plus the next 7 days
+const DEFAULT_FORWARD_DAYS = 7;
+
+type DateSummary = { date: string; success: true; games: number } | { date: string; success: false; error: string };
+
+// Maps one schedule date to games rows, skipping games without the IDs we key on
+const buildGameRecords = (gamesForDate: MlbScheduleGame[], log: (msg: string) => void): Omit<Game, 'last_updated'>[] => {
+  const records: Omit<Game, 'last_updated'>[] = [];
+  gamesForDate.forEach(apiGame => {
+    if (!apiGame.gamePk || !apiGame.teams?.away?.team?.id || !apiGame.teams?.home?.team?.id || !apiGame.venue?.id) {
+      log(`⚠️ Skipping game due to missing critical data: ${JSON.stringify(apiGame)}`);
+      return;
     }
-  }
-  // Should not be reached if retries are exhausted and an error is thrown
-  throw new Error(`Failed to fetch ${url} after multiple retries.`);
+
+    // MLB keeps the gamePk when a game moves, so the same game is listed on both dates
+    const movedTo = isCalledOff(apiGame.status.detailedState)
+      ? (apiGame.rescheduleGameDate ?? apiGame.resumeGameDate ?? null)
+      : null;
+    const movedFromDate = apiGame.rescheduledFromDate ?? apiGame.resumedFromDate ?? null;
+    const movedFrom = movedFromDate && movedFromDate !== apiGame.officialDate ? movedFromDate : null;
+
+    const awayBattingOrder = apiGame.lineups?.awayPlayers
+      ?.map(player => player.id) || null;
+    const homeBattingOrder = apiGame.lineups?.homePlayers
+      ?.map(player => player.id) || null;
+
+    records.push({
+      game_pk: apiGame.gamePk,
+      official_date: apiGame.officialDate, // YYYY-MM-DD
+      game_datetime_utc: apiGame.gameDate, // ISO timestamp
+      detailed_state: apiGame.status?.detailedState || 'Unknown',
+      away_team_id: apiGame.teams.away.team.id,
+      home_team_id: apiGame.teams.home.team.id,
+      venue_id: apiGame.venue.id,
+      away_batting_order: awayBattingOrder || null,
+      home_batting_order: homeBattingOrder || null,
+      home_team_probable_pitcher_id: apiGame.teams.home.probablePitcher?.id || null,
+      away_team_probable_pitcher_id: apiGame.teams.away.probablePitcher?.id || null,
+      game_number: apiGame.gameNumber ?? 1,
+      double_header: apiGame.doubleHeader ?? 'N',
+      rescheduled_to_date: movedTo,
+      rescheduled_from_date: movedFrom,
+    });
+  });
+  return records;
+};
+
+/**
+ * A game that moved shares its gamePk with its makeup listing, and games has one
+ * row per gamePk. The makeup listing wins (it carries rescheduled_from_date, so
+ * /api/matchups still shows the game as postponed on the original date): drop
+ * the called-off listing when its new date is in this run, or when the makeup
+ * row is already stored.
+ */
+const dropListingsReplacedByMakeups = async (
+  records: Omit<Game, 'last_updated'>[],
+  datesInRun: Set<string>,
+  log: (msg: string) => void
+): Promise<Omit<Game, 'last_updated'>[]> => {
+  const moved = records.filter(r => r.rescheduled_to_date);
+  if (!moved.length) return records;
+
+  const { data: storedRows, error } = await supabaseServer
+    .from('games')
+    .select('game_pk, official_date, rescheduled_from_date')
+    .in('game_pk', moved.map(r => r.game_pk));
+  if (error) throw new Error(`Error loading moved games: ${error.message}`);
+  const storedByPk = new Map((storedRows || []).map(g => [g.game_pk, g]));
+
+  return records.filter(r => {
+    if (!r.rescheduled_to_date) return true;
+    const stored = storedByPk.get(r.game_pk);
+    const replaced = datesInRun.has(r.rescheduled_to_date) || stored?.rescheduled_from_date === r.official_date;
+    if (replaced) log(`↪️ Game ${r.game_pk} (${r.detailed_state}) moved ${r.official_date} → ${r.rescheduled_to_date}; keeping the makeup listing`);
+    return !replaced;
+  });
 };
 
 export default async function handler(
@@ -37,86 +104,55 @@ export default async function handler(
   try {
     log('🚀 Starting add-games script...');
 
-    // Use a Map to store games, ensuring uniqueness by game_pk
-    const gamesMap = new Map<number, Omit<Game, 'last_updated'>>();
-    const today = new Date();
-
-    for (let i = 0; i < 8; i++) { // Today + next 7 days
-      const targetDate = new Date(today);
-      targetDate.setDate(today.getDate() + i);
-      const dateString = targetDate.toISOString().slice(0, 10);
-
-      log(`🗓️ Fetching schedule for date: ${dateString}`);
-
-      const scheduleApiUrl = `https://statsapi.mlb.com/api/v1/schedule?sportId=1&hydrate=lineups,probablePitcher(All)&date=${dateString}`;
-      const scheduleData: any = await fetchWithRetry(scheduleApiUrl);
-
-      const gamesForDate: any[] = scheduleData.dates?.[0]?.games || [];
-
-      if (!gamesForDate.length) {
-        log(`⏭️ No games found for ${dateString}`);
-        continue;
-      }
-      log(`🏟️ Found ${gamesForDate.length} games for ${dateString}`);
-
-      // Log game_pks for the current date
-      const gamePksForDate = gamesForDate.map((g: any) => g.gamePk).filter(Boolean);
-      log(`🔢 Game PKs for ${dateString}: [${gamePksForDate.join(', ')}]`);
-
-
-      gamesForDate.forEach((apiGame: any) => {
-        if (!apiGame.gamePk || !apiGame.teams?.away?.team?.id || !apiGame.teams?.home?.team?.id || !apiGame.venue?.id) {
-          log(`⚠️ Skipping game due to missing critical data: ${JSON.stringify(apiGame)}`);
-          return;
-        }
-
-        const awayBattingOrder = apiGame.lineups?.awayPlayers
-          ?.map((player: any) => player.id)
-          .filter((id: number | undefined) => id != null) as number[] | null
-          || null;
-        const homeBattingOrder = apiGame.lineups?.homePlayers
-          ?.map((player: any) => player.id)
-          .filter((id: number | undefined) => id != null) as number[] | null
-          || null;
-
-        const gameRecord: Omit<Game, 'last_updated'> = {
-          game_pk: apiGame.gamePk,
-          official_date: apiGame.officialDate, // YYYY-MM-DD
-          game_datetime_utc: apiGame.gameDate, // ISO timestamp
-          detailed_state: apiGame.status?.detailedState || 'Unknown',
-          away_team_id: apiGame.teams.away.team.id,
-          home_team_id: apiGame.teams.home.team.id,
-          venue_id: apiGame.venue.id,
-          away_batting_order: awayBattingOrder || null,
-          home_batting_order: homeBattingOrder || null,
-          home_team_probable_pitcher_id: apiGame.teams.home.probablePitcher?.id || null,
-          away_team_probable_pitcher_id: apiGame.teams.away.probablePitcher?.id || null
-        };
-        // If a game with the same game_pk is encountered again, it will overwrite the previous one in the Map.
-        // This ensures we only have the latest version if duplicates exist across date fetches.
-        gamesMap.set(gameRecord.game_pk, gameRecord);
-      });
+    const range = parseDateRangeQuery(req?.query?.start, req?.query?.end);
+    if (range && 'error' in range) {
+      return res.status(400).json({ error: range.error });
     }
+    const today = new Date().toISOString().slice(0, 10);
+    const dates = range ? range.dates : enumerateDates(today, addDays(today, DEFAULT_FORWARD_DAYS));
+    const concurrency = parseConcurrency(req?.query?.concurrency, DEFAULT_DATE_CONCURRENCY, MAX_DATE_CONCURRENCY);
+    log(`🗓️ Dates: ${dates[0]} → ${dates[dates.length - 1]} (${dates.length} dates, concurrency ${concurrency})`);
+
+    const datesInRun = new Set(dates);
+
+    // Each date is fetched and upserted on its own, so one bad date doesn't sink the rest
+    let completed = 0;
+    const summaries = await mapWithConcurrency(dates, concurrency, async (dateString): Promise<DateSummary> => {
+      try {
+        log(`🗓️ Fetching schedule for date: ${dateString}`);
+        const scheduleData = await mlbStatsApi.getSchedule({ date: dateString, hydrate: 'lineups,probablePitcher(All)' });
+
+        const gamesForDate = scheduleData.dates[0]?.games || [];
+        if (!gamesForDate.length) {
+          log(`⏭️ No games found for ${dateString}`);
+        } else {
+          log(`🏟️ Found ${gamesForDate.length} games for ${dateString}`);
+          log(`🔢 Game PKs for ${dateString}: [${gamesForDate.map(g => g.gamePk).join(', ')}]`);
+        }
 
-    const uniqueGamesToUpsert = Array.from(gamesMap.values());
-
-    if (uniqueGamesToUpsert.length > 0) {
-      log(`💾 Preparing to upsert ${uniqueGamesToUpsert.length} unique game records into 'games' table...`);
-      const { error: upsertError } = await supabaseServer
-        .from('games')
-        .upsert(uniqueGamesToUpsert, { onConflict: 'game_pk' });
+        const records = await dropListingsReplacedByMakeups(buildGameRecords(gamesForDate, log), datesInRun, log);
+        if (records.length) {
+          const { error: upsertError } = await supabaseServer
+            .from('games')
+            .upsert(records, { onConflict: 'game_pk' });
+          if (upsertError) throw new Error(`Error upserting games: ${upsertError.message}`);
+        }
 
-      if (upsertError) {
-        log(`❌ Error upserting games: ${upsertError.message}`);
-        console.error('Upsert error details:', upsertError);
-        throw upsertError;
+        completed++;
+        log(`📅 [${completed}/${dates.length}] ${dateString}: ✅ ${records.length} games`);
+        return { date: dateString, success: true, games: records.length };
+      } catch (err: any) {
+        completed++;
+        log(`📅 [${completed}/${dates.length}] ${dateString}: ❌ ${err.message}`);
+        return { date: dateString, success: false, error: err.message };
       }
-      log(`✅ Successfully upserted/updated ${uniqueGamesToUpsert.length} game records.`);
-    } else {
-      log('🤷 No game records to upsert.');
-    }
+    });
+
+    const failed = summaries.filter(s => !s.success).length;
+    const gamesProcessed = summaries.reduce((sum, s) => sum + (s.success ? s.games : 0), 0);
+    log(failed ? `⚠️ Upserted ${gamesProcessed} games; ${failed} date(s) failed.` : `✅ Successfully upserted/updated ${gamesProcessed} game records.`);
 
-    const result: any = { success: true, gamesProcessed: uniqueGamesToUpsert.length };
+    const result: any = { success: failed === 0, gamesProcessed, datesFailed: failed, dates: summaries };
     if (req?.query?.debug === 'true') result.logs = logs; // Use optional chaining for req
     return res.status(200).json(result);
 
@@ -125,4 +161,4 @@ export default async function handler(
     console.error('Add-games script error:', err);
     return res.status(500).json({ error: err.message, logs });
   }
-}
\ No newline at end of file
+}
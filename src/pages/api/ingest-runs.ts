@@ -0,0 +1,149 @@
+// src/pages/api/ingest-runs.ts
+//
+// Ingest run history and skip reasons.
+//   GET /api/ingest-runs?date=YYYY-MM-DD               → runs for the date, newest first
+//   GET /api/ingest-runs?runId=123                     → one run with all of its skips
+//   GET /api/ingest-runs?date=YYYY-MM-DD&playerId=123  → why a player is (not) in that day's table
+//   GET /api/ingest-runs?date=YYYY-MM-DD&player=judge  → same, matching skips by batter/pitcher name
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseServer } from '@/lib/supabaseServerClient';
+
+import { Database } from '@/types/database.types';
+type IngestRun = Database['public']['Tables']['ingest_runs']['Row'];
+type IngestSkip = Database['public']['Tables']['ingest_skips']['Row'];
+type PlayerMatchup = Pick<
+  Database['public']['Tables']['daily_matchups']['Row'],
+  'game_pk' | 'batter_id' | 'batter_name' | 'pitcher_id' | 'pitcher_name' | 'matchup_scope' | 'lineup_position' | 'avg_xwoba'
+>;
+
+type IngestRunsResponse =
+  | { run: IngestRun; skips: IngestSkip[] }
+  | { date: string; runs: IngestRun[] }
+  | { date: string; run: IngestRun | null; gameRuns: IngestRun[]; matchups: PlayerMatchup[]; skips: IngestSkip[] };
+type ErrorResponse = { error: string };
+
+const DEFAULT_RUN_LIMIT = 20;
+const MAX_RUN_LIMIT = 100;
+const MAX_SKIPS = 5000;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<IngestRunsResponse | ErrorResponse>
+) {
+  try {
+    const runIdParam = typeof req.query.runId === 'string' ? parseInt(req.query.runId, 10) : null;
+    const playerIdParam = typeof req.query.playerId === 'string' ? parseInt(req.query.playerId, 10) : null;
+    // Commas and parentheses would break the PostgREST or() filter below
+    const playerName = typeof req.query.player === 'string' ? req.query.player.replace(/[,()%*]/g, '').trim() : null;
+    const limitParam = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : DEFAULT_RUN_LIMIT;
+    const limit = Math.min(MAX_RUN_LIMIT, Math.max(1, isNaN(limitParam) ? DEFAULT_RUN_LIMIT : limitParam));
+
+    // 1. A single run with its skips
+    if (runIdParam != null) {
+      if (isNaN(runIdParam)) return res.status(400).json({ error: 'runId must be a number' });
+
+      const { data: run, error: runError } = await supabaseServer
+        .from('ingest_runs')
+        .select('*')
+        .eq('id', runIdParam)
+        .maybeSingle();
+      if (runError) return res.status(500).json({ error: runError.message });
+      if (!run) return res.status(404).json({ error: `Ingest run ${runIdParam} not found` });
+
+      const { data: skips, error: skipsError } = await supabaseServer
+        .from('ingest_skips')
+        .select('*')
+        .eq('run_id', runIdParam)
+        .order('reason')
+        .limit(MAX_SKIPS);
+      if (skipsError) return res.status(500).json({ error: skipsError.message });
+
+      return res.status(200).json({ run, skips: skips || [] });
+    }
+
+    // 2. Runs for a date (default today)
+    const dateParam = typeof req.query.date === 'string' ? req.query.date : null;
+    const gameDate = dateParam || new Date().toISOString().slice(0, 10);
+
+    const { data: runs, error: runsError } = await supabaseServer
+      .from('ingest_runs')
+      .select('*')
+      .eq('game_date', gameDate)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+    if (runsError) return res.status(500).json({ error: runsError.message });
+
+    if (playerIdParam == null && !playerName) {
+      return res.status(200).json({ date: gameDate, runs: runs || [] });
+    }
+    if (playerIdParam != null && isNaN(playerIdParam)) {
+      return res.status(400).json({ error: 'playerId must be a number' });
+    }
+
+    // 3. Player lookup: their current matchups plus, for each game, the skips from the
+    //    latest completed, non-dry run that covered it. Lineup watch re-ingests single
+    //    games (game_pks set), so that is the latest full-slate run for most games and
+    //    a newer game-scoped run for the rest.
+    const completedRuns = () => supabaseServer
+      .from('ingest_runs')
+      .select('*')
+      .eq('game_date', gameDate)
+      .eq('status', 'succeeded')
+      .eq('dry_run', false)
+      .order('started_at', { ascending: false });
+
+    const { data: fullRuns, error: fullRunError } = await completedRuns().is('game_pks', null).limit(1);
+    if (fullRunError) return res.status(500).json({ error: fullRunError.message });
+    const latestRun = ((fullRuns || []) as IngestRun[])[0] ?? null;
+
+    let gameRunsQuery = completedRuns().not('game_pks', 'is', null).limit(MAX_RUN_LIMIT);
+    if (latestRun) gameRunsQuery = gameRunsQuery.gt('started_at', latestRun.started_at);
+    const { data: gameRunRows, error: gameRunsError } = await gameRunsQuery;
+    if (gameRunsError) return res.status(500).json({ error: gameRunsError.message });
+    const gameRuns = (gameRunRows || []) as IngestRun[];
+
+    // Newest first, so the first run to claim a game owns it
+    const runForGame = new Map<number, number>();
+    gameRuns.forEach(r => r.game_pks?.forEach(pk => { if (!runForGame.has(pk)) runForGame.set(pk, r.id); }));
+    const ownsSkip = (skip: IngestSkip) =>
+      skip.game_pk != null && runForGame.has(skip.game_pk)
+        ? runForGame.get(skip.game_pk) === skip.run_id
+        : skip.run_id === latestRun?.id;
+
+    const runIds = [...(latestRun ? [latestRun.id] : []), ...new Set(runForGame.values())];
+    let skipsQuery = supabaseServer
+      .from('ingest_skips')
+      .select('*')
+      .in('run_id', runIds.length ? runIds : [-1]);
+    skipsQuery = playerIdParam != null
+      ? skipsQuery.or(`batter_id.eq.${playerIdParam},pitcher_id.eq.${playerIdParam}`)
+      : skipsQuery.or(`batter_name.ilike.%${playerName}%,pitcher_name.ilike.%${playerName}%`);
+
+    let matchupsQuery = supabaseServer
+      .from('daily_matchups')
+      .select('game_pk, batter_id, batter_name, pitcher_id, pitcher_name, matchup_scope, lineup_position, avg_xwoba')
+      .eq('game_date', gameDate)
+      .is('superseded_at', null);
+    matchupsQuery = playerIdParam != null
+      ? matchupsQuery.or(`batter_id.eq.${playerIdParam},pitcher_id.eq.${playerIdParam}`)
+      : matchupsQuery.or(`batter_name.ilike.%${playerName}%,pitcher_name.ilike.%${playerName}%`);
+
+    const [{ data: skips, error: skipsError }, { data: matchups, error: matchupsError }] = await Promise.all([
+      skipsQuery.limit(MAX_SKIPS),
+      matchupsQuery,
+    ]);
+    if (skipsError) return res.status(500).json({ error: skipsError.message });
+    if (matchupsError) return res.status(500).json({ error: matchupsError.message });
+
+    return res.status(200).json({
+      date: gameDate,
+      run: latestRun,
+      gameRuns: gameRuns.filter(r => runIds.includes(r.id)),
+      matchups: matchups || [],
+      skips: ((skips || []) as IngestSkip[]).filter(ownsSkip),
+    });
+  } catch (err) {
+    console.error('Unexpected error in /api/ingest-runs:', err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
@@ -0,0 +1,31 @@
+// src/pages/api/league-distributions.ts
+//
+// League means and percentile distributions that matchup indexes are computed against.
+//   GET /api/league-distributions            → season 0 (the weighted splits ingest uses)
+//   GET /api/league-distributions?season=2025
+// Shape: { season, distributions: { batter|pitcher: { L|R: { <stat>: { mean, quantiles, sampleSize } } } } }
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseServer } from '@/lib/supabaseServerClient';
+import { fetchLeagueDistributions, LeagueDistributions } from '@/lib/normalization';
+
+type ErrorResponse = { error: string };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ season: number; distributions: LeagueDistributions } | ErrorResponse>
+) {
+  const seasonParam = typeof req.query.season === 'string' ? parseInt(req.query.season, 10) : 0;
+  if (isNaN(seasonParam) || seasonParam < 0) {
+    return res.status(400).json({ error: 'season must be 0 (weighted) or a year' });
+  }
+
+  try {
+    const distributions = await fetchLeagueDistributions(supabaseServer, seasonParam);
+    // Distributions only change when splits are re-uploaded
+    res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate=86400');
+    return res.status(200).json({ season: seasonParam, distributions });
+  } catch (err) {
+    console.error('Unexpected error in /api/league-distributions:', err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
@@ -0,0 +1,80 @@
+// src/pages/api/lineup-watch.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseServer } from '@/lib/supabaseServerClient';
+import { getMatchupModel, MATCHUP_MODELS } from '@/lib/matchupModel';
+import { parseConcurrency } from '@/lib/concurrency';
+import { mlbStatsApi } from '@/lib/mlbStatsApi';
+import { DEFAULT_FETCH_CONCURRENCY } from '@/lib/ingestMatchups';
+import { LineupWatchResult, watchLineups } from '@/lib/lineupWatch';
+
+const MAX_FETCH_CONCURRENCY = 12;
+
+type LineupWatchResponse = Pick<LineupWatchResult, 'date' | 'gamesChecked' | 'changedGamePks' | 'changes'> & {
+  success: true;
+  dryRun: boolean;
+  count: number;
+  superseded: number;
+  runId: number | null;
+  logs?: string[];
+};
+type ErrorResponse = { error: string; logs?: string[] };
+
+// Meant to be polled (e.g. every 10-15 minutes on game days); each pass only re-ingests changed games
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<LineupWatchResponse | ErrorResponse>
+) {
+  const logs: string[] = [];
+  const log = (msg: string) => {
+    console.log(msg);
+    logs.push(msg);
+  };
+
+  try {
+    const dateQueryParam = req?.query?.date;
+    const gameDate = typeof dateQueryParam === 'string' ? dateQueryParam : new Date().toISOString().slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(gameDate)) {
+      return res.status(400).json({ error: `Invalid date "${gameDate}". Expected YYYY-MM-DD.` });
+    }
+
+    const modelQueryParam = req?.query?.model;
+    const modelName = typeof modelQueryParam === 'string' ? modelQueryParam : null;
+    if (modelName && !MATCHUP_MODELS[modelName]) {
+      return res.status(400).json({ error: `Unknown model "${modelName}". Expected one of: ${Object.keys(MATCHUP_MODELS).join(', ')}` });
+    }
+    const model = getMatchupModel(modelName);
+
+    // Dry run: report what changed without touching games, matchups or lineup_changes
+    const dryRun = req?.query?.dryRun === 'true';
+    const fetchConcurrency = parseConcurrency(req?.query?.fetchConcurrency, DEFAULT_FETCH_CONCURRENCY, MAX_FETCH_CONCURRENCY);
+    log(`👀 Lineup watch for ${gameDate}${dryRun ? ' (dry run)' : ''}`);
+
+    const { gamesChecked, changes, changedGamePks, ingest } = await watchLineups(supabaseServer, mlbStatsApi, gameDate, {
+      model,
+      dryRun,
+      fetchConcurrency,
+      log,
+    });
+
+    const result: LineupWatchResponse = {
+      success: true,
+      dryRun,
+      date: gameDate,
+      gamesChecked,
+      changedGamePks,
+      changes,
+      count: ingest?.count ?? 0,
+      superseded: ingest?.superseded ?? 0,
+      runId: ingest?.runId ?? null,
+    };
+    if (req.query.debug === 'true') result.logs = logs;
+    return res.status(200).json(result);
+  } catch (err) {
+    console.error('Lineup watch error:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(500).json({
+      error: message,
+      logs: ['Error: ' + message],
+    });
+  }
+}
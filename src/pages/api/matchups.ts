@@ -3,18 +3,46 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { supabaseServer } from '@/lib/supabaseServerClient';
+import { isCalledOff } from '@/lib/gameStatus';
+import { parseMinConfidence } from '@/lib/confidence';
+import { fetchLeagueDistributions, indexMatchup, LeagueDistributions, MatchupIndexes } from '@/lib/normalization';
+import { bvpKey, BvpRecord, fetchBvpRecords } from '@/lib/batterVsPitcher';
+import { compositeScore, fetchScoreProfiles, ScoreProfile } from '@/lib/scoreProfiles';
 
 import { Database } from '@/types/database.types';
 type Game = Database['public']['Tables']['games']['Row'];
 type Matchup = Database['public']['Tables']['daily_matchups']['Row'];
 type Venue = Database['public']['Tables']['venues']['Row'];
+type GameWeather = Database['public']['Tables']['game_weather']['Row'];
+
+// Each row also carries "+" indexes and percentiles against the league (src/lib/normalization.ts)
+// With ?score=<profile>, also the composite score (0-100, 50 = league average) and its
+// rank among the date's rows of the same matchup_scope (1 = best).
+// bvp is the pair's current career head-to-head line (batter_vs_pitcher), null if never refreshed.
+export type IndexedMatchup = Matchup & {
+  indexes: MatchupIndexes;
+  score?: number | null;
+  score_rank?: number | null;
+  bvp: BvpRecord | null;
+};
 
 export interface GamesWithMatchupsAndVenues extends Game {
   venue?: Venue;
+  weather?: GameWeather | null;
   home_pitcher_details?: { name: string | null; hand: 'L' | 'R' | null } | null;
   away_pitcher_details?: { name: string | null; hand: 'L' | 'R' | null } | null;
-  away_team_matchups: Matchup[];
-  home_team_matchups: Matchup[];
+  away_team_matchups: IndexedMatchup[];
+  home_team_matchups: IndexedMatchup[];
+  // Starter blended with the opposing bullpen (matchup_scope = 'full_game'), same batters and order
+  away_team_full_game_matchups: IndexedMatchup[];
+  home_team_full_game_matchups: IndexedMatchup[];
+  // Opener games: the same batters vs the bulk pitcher expected to follow the opener (matchup_scope = 'bulk')
+  away_team_bulk_matchups: IndexedMatchup[];
+  home_team_bulk_matchups: IndexedMatchup[];
+  // Postponed/suspended/cancelled on this date; matchup lists are empty
+  called_off: boolean;
+  // Makeup date for a called-off game, when MLB has set one
+  rescheduled_to_date: string | null;
 }
 
 type ErrorResponse = { error: string };
@@ -33,29 +61,69 @@ export default async function handler(
       gameDate = now.toISOString().slice(0, 10);
     }
 
-    // 2. Load games
-    const { data: games, error: gamesError } = await supabaseServer
+    const hideCalledOff = req.query.hideCalledOff === 'true';
+
+    // Tier name or 0-1 score; rows below it (or ingested before confidence existed) are left out
+    const minConfidenceParam = typeof req.query.minConfidence === 'string' ? req.query.minConfidence : null;
+    const minConfidence = minConfidenceParam != null ? parseMinConfidence(minConfidenceParam) : null;
+    if (minConfidenceParam != null && minConfidence == null) {
+      return res.status(400).json({ error: `Invalid minConfidence "${minConfidenceParam}". Expected low, medium, high or a score from 0 to 1.` });
+    }
+
+    // Composite score profile (score_profiles); unknown names are rejected before any work
+    let scoreProfile: ScoreProfile | null = null;
+    if (typeof req.query.score === 'string' && req.query.score) {
+      const profiles = await fetchScoreProfiles(supabaseServer, msg => console.warn(msg));
+      scoreProfile = profiles.find(p => p.name === (req.query.score as string).toLowerCase()) ?? null;
+      if (!scoreProfile) {
+        return res.status(400).json({ error: `Unknown score profile "${req.query.score}". Expected one of: ${profiles.map(p => p.name).join(', ')}` });
+      }
+    }
+
+    // 2. Load games: the date's slate, plus games moved off this date to a makeup
+    // (their row now carries the makeup date as official_date)
+    const { data: slate, error: gamesError } = await supabaseServer
       .from('games')
       .select('*')
-      .eq('official_date', gameDate)
-      .order('game_datetime_utc', { ascending: true });
+      .or(`official_date.eq.${gameDate},rescheduled_from_date.eq.${gameDate}`)
+      .order('game_datetime_utc', { ascending: true })
+      .order('game_number', { ascending: true });
 
     if (gamesError) {
       console.error('Error querying games:', gamesError);
       return res.status(500).json({ error: gamesError.message });
     }
-    if (!games || games.length === 0) return res.status(200).json([]);
+    const movedAway = (g: Game) => g.official_date !== gameDate;
+    const calledOff = (g: Game) => movedAway(g) || isCalledOff(g.detailed_state);
+    const games = (slate || []).filter(g => !hideCalledOff || !calledOff(g));
+    if (games.length === 0) return res.status(200).json([]);
 
-    // 3. Load all matchups for date
-    const { data: allMatchups, error: matchupsError } = await supabaseServer
-      .from('daily_matchups')
-      .select('*')
-      .eq('game_date', gameDate)
-      .order('avg_xwoba', { ascending: false });
+    // 3. Load all matchups for date. Starter, full-game and bulk rows run past PostgREST's
+    // 1,000-row cap on a full slate, so page through them (primary key as the tiebreak keeps
+    // pages stable)
+    const pageSize = 1000;
+    let allMatchups: Matchup[] = [];
+    for (let page = 0; ; page++) {
+      let matchupsQuery = supabaseServer
+        .from('daily_matchups')
+        .select('*')
+        .eq('game_date', gameDate)
+        .is('superseded_at', null);
+      if (minConfidence != null) matchupsQuery = matchupsQuery.gte('confidence_score', minConfidence);
+      const { data, error: matchupsError } = await matchupsQuery
+        .order('avg_xwoba', { ascending: false })
+        .order('game_pk')
+        .order('batter_id')
+        .order('pitcher_id')
+        .order('matchup_scope')
+        .range(page * pageSize, (page + 1) * pageSize - 1);
 
-    if (matchupsError) {
-      console.error('Error querying matchups:', matchupsError);
-      return res.status(500).json({ error: matchupsError.message });
+      if (matchupsError) {
+        console.error('Error querying matchups:', matchupsError);
+        return res.status(500).json({ error: matchupsError.message });
+      }
+      allMatchups = allMatchups.concat(data || []);
+      if (!data || data.length < pageSize) break;
     }
 
     // 4. Load venue info
@@ -68,21 +136,43 @@ export default async function handler(
     const venueMap = new Map<number, Venue>();
     venues?.forEach(v => venueMap.set(v.id, v));
 
-    // 4.5 Fetch all teams to map abbreviations to IDs
-    const { data: teamsData, error: teamsError } = await supabaseServer
-      .from('teams')
-      .select('id, abbreviation');
+    // 4.2 Load weather snapshots stored by ingest
+    const { data: weatherRows, error: weatherError } = await supabaseServer
+      .from('game_weather')
+      .select('*')
+      .in('game_pk', games.map(g => g.game_pk));
+
+    if (weatherError) {
+      console.error('Error querying game_weather:', weatherError);
+      // Continue without weather; game cards just omit the forecast
+    }
+    const weatherMap = new Map<number, GameWeather>();
+    weatherRows?.forEach(w => weatherMap.set(w.game_pk, w));
 
-    if (teamsError) {
-      console.error('Error querying teams for abbreviation mapping:', teamsError);
-      // Continue without this mapping, fallback might not work as well
+    // 4.6 League distributions for indexes; without them rows just have no indexes
+    let distributions: LeagueDistributions | null = null;
+    try {
+      distributions = await fetchLeagueDistributions(supabaseServer);
+    } catch (err) {
+      console.error('Error loading league distributions:', err);
     }
-    const teamAbbrToIdMap = new Map<string, number>();
-    teamsData?.forEach(team => {
-      if (team.abbreviation) {
-        teamAbbrToIdMap.set(team.abbreviation, team.id);
-      }
-    });
+
+    // 4.7 Head-to-head history; rows without it just show none
+    let bvpRecords = new Map<string, BvpRecord>();
+    try {
+      bvpRecords = await fetchBvpRecords(supabaseServer, allMatchups.map(m => ({ batterId: m.batter_id, pitcherId: m.pitcher_id })));
+    } catch (err) {
+      console.error('Error loading batter_vs_pitcher:', err);
+    }
+
+    const withIndexes = (rows: Matchup[]): IndexedMatchup[] =>
+      rows.map(m => {
+        const indexes = distributions ? indexMatchup(m, distributions) : {};
+        const bvp = bvpRecords.get(bvpKey(m.batter_id, m.pitcher_id)) ?? null;
+        return scoreProfile
+          ? { ...m, indexes, bvp, score: compositeScore(indexes, scoreProfile.weights), score_rank: null }
+          : { ...m, indexes, bvp };
+      });
 
     // 5. Fetch probable‐pitcher details from 'players' table
     const pitcherIds = new Set<number>();
@@ -105,31 +195,16 @@ export default async function handler(
 
     // 6. Build and return combined payload
     const result: GamesWithMatchupsAndVenues[] = games.map(game => {
-      // all matchups for *this* game
-      const gameMatchups = (allMatchups || []).filter(m => m.game_pk === game.game_pk);
-      let awayTeamMatchups: Matchup[];
-      let homeTeamMatchups: Matchup[];
-
-      // Determine Away Team Matchups (vs. Home Pitcher)
-      if (game.away_batting_order && game.away_batting_order.length > 0) {
-        // Lineup is published
-        awayTeamMatchups = gameMatchups.filter(
-          m =>
-            game.away_batting_order!.includes(m.batter_id) &&
-            m.pitcher_id === game.home_team_probable_pitcher_id
-        );
-      } else {
-        // Lineup not published, use full active roster for the away team
-        // Fallback: Compare batter_team (abbreviation) from matchup with game's away_team_id
-        awayTeamMatchups = gameMatchups.filter(
-          m => {
-            const awayTeamIdFromAbbr = m.batter_team ? teamAbbrToIdMap.get(m.batter_team) : null;
-            return awayTeamIdFromAbbr === game.away_team_id &&
-            m.pitcher_id === game.home_team_probable_pitcher_id
-          });
-      }
-      // Sort awayTeamMatchups: by lineup_position (nulls last), then by avg_xwoba descending
-      awayTeamMatchups.sort((a, b) => {
+      // all matchups for *this* game, split by scope. Rows are keyed on game_pk, so the
+      // two games of a doubleheader never share rows; called-off games get none.
+      const isOff = calledOff(game);
+      const gameMatchups = isOff ? [] : withIndexes(allMatchups.filter(m => m.game_pk === game.game_pk));
+      const starterMatchups = gameMatchups.filter(m => m.matchup_scope === 'starter');
+      const fullGameMatchups = gameMatchups.filter(m => m.matchup_scope === 'full_game');
+      const bulkMatchups = gameMatchups.filter(m => m.matchup_scope === 'bulk');
+
+      // Sort: by lineup_position (nulls last), then by avg_xwoba descending
+      const byLineupThenXwoba = (a: Matchup, b: Matchup) => {
         if (a.lineup_position !== null && b.lineup_position === null) return -1; // a comes first
         if (a.lineup_position === null && b.lineup_position !== null) return 1;  // b comes first
         if (a.lineup_position !== null && b.lineup_position !== null) {
@@ -139,42 +214,49 @@ export default async function handler(
         }
         // If lineup_position is the same or both are null, sort by avg_xwoba descending
         return b.avg_xwoba - a.avg_xwoba;
-      });
-
+      };
 
+      // Away Team Matchups (vs. Home Pitcher)
+      const selectAwayMatchups = (rows: IndexedMatchup[]): IndexedMatchup[] => {
+        if (game.away_batting_order && game.away_batting_order.length > 0) {
+          // Lineup is published
+          return rows.filter(
+            m =>
+              game.away_batting_order!.includes(m.batter_id) &&
+              m.pitcher_id === game.home_team_probable_pitcher_id
+          ).sort(byLineupThenXwoba);
+        }
+        // Lineup not published: every batter in this game facing the home starter (the away roster)
+        return rows.filter(m => m.pitcher_id === game.home_team_probable_pitcher_id).sort(byLineupThenXwoba);
+      };
 
-      // Determine Home Team Matchups (vs. Away Pitcher)
-      if (game.home_batting_order && game.home_batting_order.length > 0) {
-        homeTeamMatchups = gameMatchups.filter(
-          m =>
-            game.home_batting_order!.includes(m.batter_id) &&
-            m.pitcher_id === game.away_team_probable_pitcher_id
-        );
-      } else {
-        // Fallback: Compare batter_team (abbreviation) from matchup with game's home_team_id
-        homeTeamMatchups = gameMatchups.filter(
-          m => {
-            const homeTeamIdFromAbbr = m.batter_team ? teamAbbrToIdMap.get(m.batter_team) : null;
-            return homeTeamIdFromAbbr === game.home_team_id &&
-            m.pitcher_id === game.away_team_probable_pitcher_id
-          });
-      }
-      // Sort homeTeamMatchups: by lineup_position (nulls last), then by avg_xwoba descending
-      homeTeamMatchups.sort((a, b) => {
-        if (a.lineup_position !== null && b.lineup_position === null) return -1; // a comes first
-        if (a.lineup_position === null && b.lineup_position !== null) return 1;  // b comes first
-        if (a.lineup_position !== null && b.lineup_position !== null) {
-          if (a.lineup_position !== b.lineup_position) {
-            return a.lineup_position - b.lineup_position; // Sort by lineup position
-          }
+      // Home Team Matchups (vs. Away Pitcher)
+      const selectHomeMatchups = (rows: IndexedMatchup[]): IndexedMatchup[] => {
+        if (game.home_batting_order && game.home_batting_order.length > 0) {
+          return rows.filter(
+            m =>
+              game.home_batting_order!.includes(m.batter_id) &&
+              m.pitcher_id === game.away_team_probable_pitcher_id
+          ).sort(byLineupThenXwoba);
         }
-        // If lineup_position is the same or both are null, sort by avg_xwoba descending
-        return b.avg_xwoba - a.avg_xwoba;
-      });
+        return rows.filter(m => m.pitcher_id === game.away_team_probable_pitcher_id).sort(byLineupThenXwoba);
+      };
+
+      // Bulk rows are keyed by the bulk pitcher, which the starter rows name for each side
+      const selectBulkMatchups = (starterRows: IndexedMatchup[]): IndexedMatchup[] => {
+        const bulkPitcherId = starterRows.find(m => m.bulk_pitcher_id != null)?.bulk_pitcher_id;
+        const batterIds = new Set(starterRows.map(m => m.batter_id));
+        return bulkPitcherId == null
+          ? []
+          : bulkMatchups.filter(m => m.pitcher_id === bulkPitcherId && batterIds.has(m.batter_id)).sort(byLineupThenXwoba);
+      };
+      const awayTeamMatchups = selectAwayMatchups(starterMatchups);
+      const homeTeamMatchups = selectHomeMatchups(starterMatchups);
 
       return {
         ...game,
         venue: venueMap.get(game.venue_id) || undefined,
+        weather: weatherMap.get(game.game_pk) || null,
         home_pitcher_details: game.home_team_probable_pitcher_id
           ? pitcherDetailsMap.get(game.home_team_probable_pitcher_id) || null
           : null,
@@ -183,9 +265,37 @@ export default async function handler(
           : null,
         away_team_matchups: awayTeamMatchups,
         home_team_matchups: homeTeamMatchups,
+        away_team_full_game_matchups: selectAwayMatchups(fullGameMatchups),
+        home_team_full_game_matchups: selectHomeMatchups(fullGameMatchups),
+        away_team_bulk_matchups: selectBulkMatchups(awayTeamMatchups),
+        home_team_bulk_matchups: selectBulkMatchups(homeTeamMatchups),
+        called_off: isOff,
+        // A row found via rescheduled_from_date has already moved to its makeup date
+        rescheduled_to_date: movedAway(game) ? game.official_date : game.rescheduled_to_date,
       };
     });
 
+    // 7. Rank scores across the whole date, per scope
+    if (scoreProfile) {
+      const byScope = new Map<string, IndexedMatchup[]>();
+      result.forEach(g =>
+        [
+          ...g.away_team_matchups, ...g.home_team_matchups,
+          ...g.away_team_full_game_matchups, ...g.home_team_full_game_matchups,
+          ...g.away_team_bulk_matchups, ...g.home_team_bulk_matchups,
+        ].forEach(m => {
+          if (!byScope.has(m.matchup_scope)) byScope.set(m.matchup_scope, []);
+          byScope.get(m.matchup_scope)!.push(m);
+        })
+      );
+      byScope.forEach(rows =>
+        rows
+          .filter(m => m.score != null)
+          .sort((a, b) => b.score! - a.score!)
+          .forEach((m, i) => { m.score_rank = i + 1; })
+      );
+    }
+
     return res.status(200).json(result);
   } catch (err: any) {
     console.error('Unexpected error in /api/matchups:', err);
@@ -0,0 +1,21 @@
+// src/pages/api/score-profiles.ts
+//
+// Composite score profiles for /api/matchups?score=<name> and the Top N selector.
+//   GET /api/score-profiles → [{ name, label, description, weights }]
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseServer } from '@/lib/supabaseServerClient';
+import { fetchScoreProfiles, ScoreProfile } from '@/lib/scoreProfiles';
+
+type ErrorResponse = { error: string };
+
+export default async function handler(
+  _req: NextApiRequest,
+  res: NextApiResponse<ScoreProfile[] | ErrorResponse>
+) {
+  try {
+    return res.status(200).json(await fetchScoreProfiles(supabaseServer, msg => console.warn(msg)));
+  } catch (err) {
+    console.error('Unexpected error in /api/score-profiles:', err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
@@ -9,6 +9,60 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      batter_vs_pitcher: {
+        Row: {
+          ab: number
+          batter_id: number
+          first_game_date: string | null
+          hits: number
+          home_runs: number
+          last_game_date: string | null
+          pa: number
+          pitcher_id: number
+          refreshed_through: string
+          strikeouts: number
+          updated_at: string
+          walks: number
+          xwoba: number | null
+          xwoba_denom: number
+          xwoba_sum: number
+        }
+        Insert: {
+          ab?: number
+          batter_id: number
+          first_game_date?: string | null
+          hits?: number
+          home_runs?: number
+          last_game_date?: string | null
+          pa?: number
+          pitcher_id: number
+          refreshed_through: string
+          strikeouts?: number
+          updated_at?: string
+          walks?: number
+          xwoba?: number | null
+          xwoba_denom?: number
+          xwoba_sum?: number
+        }
+        Update: {
+          ab?: number
+          batter_id?: number
+          first_game_date?: string | null
+          hits?: number
+          home_runs?: number
+          last_game_date?: string | null
+          pa?: number
+          pitcher_id?: number
+          refreshed_through?: string
+          strikeouts?: number
+          updated_at?: string
+          walks?: number
+          xwoba?: number | null
+          xwoba_denom?: number
+          xwoba_sum?: number
+        }
+        Relationships: []
+      }
       daily_matchups: {
         Row: {
           avg_barrels_per_pa: number
@@ -16,26 +70,65 @@ export type Database = {
           avg_exit_velocity: number
           avg_hard_hit_pct: number
           avg_hr_per_pa: number | null
+          avg_hr_per_pa_raw: number | null
           avg_iso: number | null
           avg_k_percent: number | null
           avg_launch_angle: number
           avg_swing_miss_percent: number | null
           avg_xwoba: number
+          avg_xwoba_raw: number | null
           away_team_id: number | null
+          batter_form_pa: number | null
           batter_hand: string | null
           batter_id: number
           batter_name: string | null
+          batter_split_pa: number | null
+          batter_split_seasons: number | null
           batter_team: string | null
+          bulk_pitcher_id: number | null
+          bulk_share: number | null
+          bullpen_lhp_share: number | null
+          bullpen_pitcher_count: number | null
+          bvp_pa: number | null
+          bvp_weight: number | null
+          bvp_xwoba: number | null
+          confidence_score: number | null
+          confidence_tier: string | null
+          context_adjustment: number | null
+          day_night: string | null
+          expected_innings: number | null
+          expected_pa: number | null
+          form_trend: number | null
+          form_xwoba: number | null
           game_away_team_abbreviation: string | null
           game_date: string
           game_home_team_abbreviation: string | null
-          game_pk: number | null
+          game_pk: number
           home_team_id: number | null
           lineup_position: number | null
+          matchup_model: string | null
+          matchup_scope: Database["public"]["Enums"]["matchup_scope"]
+          park_factor_source: string | null
+          park_hr_factor: number | null
+          park_xwobacon_factor: number | null
+          pitcher_form_pa: number | null
           pitcher_hand: string | null
           pitcher_id: number
           pitcher_name: string | null
+          pitcher_role: string
+          pitcher_split_pa: number | null
+          pitcher_split_seasons: number | null
           pitcher_team: string | null
+          proj_bb: number | null
+          proj_hr: number | null
+          proj_k: number | null
+          proj_tb: number | null
+          projected_team_runs: number | null
+          starter_share: number | null
+          superseded_at: string | null
+          superseded_reason: string | null
+          weather_hr_factor: number | null
+          weather_xwobacon_factor: number | null
         }
         Insert: {
           avg_barrels_per_pa: number
@@ -43,52 +136,178 @@ export type Database = {
           avg_exit_velocity: number
           avg_hard_hit_pct: number
           avg_hr_per_pa?: number | null
+          avg_hr_per_pa_raw?: number | null
           avg_iso?: number | null
           avg_k_percent?: number | null
           avg_launch_angle: number
           avg_swing_miss_percent?: number | null
           avg_xwoba: number
+          avg_xwoba_raw?: number | null
           away_team_id?: number | null
+          batter_form_pa?: number | null
           batter_hand?: string | null
           batter_id: number
           batter_name?: string | null
+          batter_split_pa?: number | null
+          batter_split_seasons?: number | null
           batter_team?: string | null
+          bulk_pitcher_id?: number | null
+          bulk_share?: number | null
+          bullpen_lhp_share?: number | null
+          bullpen_pitcher_count?: number | null
+          bvp_pa?: number | null
+          bvp_weight?: number | null
+          bvp_xwoba?: number | null
+          confidence_score?: number | null
+          confidence_tier?: string | null
+          context_adjustment?: number | null
+          day_night?: string | null
+          expected_innings?: number | null
+          expected_pa?: number | null
+          form_trend?: number | null
+          form_xwoba?: number | null
           game_away_team_abbreviation?: string | null
           game_date: string
           game_home_team_abbreviation?: string | null
-          game_pk?: number | null
+          game_pk: number
           home_team_id?: number | null
           lineup_position?: number | null
+          matchup_model?: string | null
+          matchup_scope?: Database["public"]["Enums"]["matchup_scope"]
+          park_factor_source?: string | null
+          park_hr_factor?: number | null
+          park_xwobacon_factor?: number | null
+          pitcher_form_pa?: number | null
           pitcher_hand?: string | null
           pitcher_id: number
           pitcher_name?: string | null
+          pitcher_role?: string
+          pitcher_split_pa?: number | null
+          pitcher_split_seasons?: number | null
           pitcher_team?: string | null
+          proj_bb?: number | null
+          proj_hr?: number | null
+          proj_k?: number | null
+          proj_tb?: number | null
+          projected_team_runs?: number | null
+          starter_share?: number | null
+          superseded_at?: string | null
+          superseded_reason?: string | null
+          weather_hr_factor?: number | null
+          weather_xwobacon_factor?: number | null
         }
         Update: {
           avg_barrels_per_pa?: number
           avg_bb_percent?: number | null
           avg_exit_velocity?: number
           avg_hard_hit_pct?: number
+          avg_hr_per_pa_raw?: number | null
           avg_iso?: number | null
           avg_k_percent?: number | null
           avg_launch_angle?: number
           avg_swing_miss_percent?: number | null
           avg_xwoba?: number
+          avg_xwoba_raw?: number | null
           away_team_id?: number | null
+          batter_form_pa?: number | null
           batter_hand?: string | null
           batter_id?: number
           batter_name?: string | null
+          batter_split_pa?: number | null
+          batter_split_seasons?: number | null
           batter_team?: string | null
+          bulk_pitcher_id?: number | null
+          bulk_share?: number | null
+          bullpen_lhp_share?: number | null
+          bullpen_pitcher_count?: number | null
+          bvp_pa?: number | null
+          bvp_weight?: number | null
+          bvp_xwoba?: number | null
+          confidence_score?: number | null
+          confidence_tier?: string | null
+          context_adjustment?: number | null
+          day_night?: string | null
+          expected_innings?: number | null
+          expected_pa?: number | null
+          form_trend?: number | null
+          form_xwoba?: number | null
           game_away_team_abbreviation?: string | null
           game_date?: string
           game_home_team_abbreviation?: string | null
-          game_pk?: number | null
+          game_pk?: number
           home_team_id?: number | null
           lineup_position?: number | null
+          matchup_model?: string | null
+          matchup_scope?: Database["public"]["Enums"]["matchup_scope"]
+          park_factor_source?: string | null
+          park_hr_factor?: number | null
+          park_xwobacon_factor?: number | null
+          pitcher_form_pa?: number | null
           pitcher_hand?: string | null
           pitcher_id?: number
           pitcher_name?: string | null
+          pitcher_role?: string
+          pitcher_split_pa?: number | null
+          pitcher_split_seasons?: number | null
           pitcher_team?: string | null
+          proj_bb?: number | null
+          proj_hr?: number | null
+          proj_k?: number | null
+          proj_tb?: number | null
+          projected_team_runs?: number | null
+          starter_share?: number | null
+          superseded_at?: string | null
+          superseded_reason?: string | null
+          weather_hr_factor?: number | null
+          weather_xwobacon_factor?: number | null
+        }
+        Relationships: []
+      }
+      game_weather: {
+        Row: {
+          adjustment_reason: string | null
+          fetched_at: string
+          forecast_time_utc: string | null
+          game_pk: number
+          hr_factor: number | null
+          precipitation_mm: number | null
+          precipitation_probability: number | null
+          provider: string
+          temperature_f: number | null
+          venue_id: number | null
+          wind_direction_deg: number | null
+          wind_speed_mph: number | null
+          xwobacon_factor: number | null
+        }
+        Insert: {
+          adjustment_reason?: string | null
+          fetched_at?: string
+          forecast_time_utc?: string | null
+          game_pk: number
+          hr_factor?: number | null
+          precipitation_mm?: number | null
+          precipitation_probability?: number | null
+          provider: string
+          temperature_f?: number | null
+          venue_id?: number | null
+          wind_direction_deg?: number | null
+          wind_speed_mph?: number | null
+          xwobacon_factor?: number | null
+        }
+        Update: {
+          adjustment_reason?: string | null
+          fetched_at?: string
+          forecast_time_utc?: string | null
+          game_pk?: number
+          hr_factor?: number | null
+          precipitation_mm?: number | null
+          precipitation_probability?: number | null
+          provider?: string
+          temperature_f?: number | null
+          venue_id?: number | null
+          wind_direction_deg?: number | null
+          wind_speed_mph?: number | null
+          xwobacon_factor?: number | null
         }
         Relationships: []
       }
@@ -98,13 +317,17 @@ export type Database = {
           away_team_id: number | null
           away_team_probable_pitcher_id: number | null
           detailed_state: string | null
+          double_header: string
           game_datetime_utc: string | null
+          game_number: number
           game_pk: number
           home_batting_order: number[] | null
           home_team_id: number | null
           home_team_probable_pitcher_id: number | null
           last_updated: string
           official_date: string
+          rescheduled_from_date: string | null
+          rescheduled_to_date: string | null
           venue_id: number | null
         }
         Insert: {
@@ -112,13 +335,17 @@ export type Database = {
           away_team_id?: number | null
           away_team_probable_pitcher_id?: number | null
           detailed_state?: string | null
+          double_header?: string
           game_datetime_utc?: string | null
+          game_number?: number
           game_pk: number
           home_batting_order?: number[] | null
           home_team_id?: number | null
           home_team_probable_pitcher_id?: number | null
           last_updated?: string
           official_date: string
+          rescheduled_from_date?: string | null
+          rescheduled_to_date?: string | null
           venue_id?: number | null
         }
         Update: {
@@ -126,13 +353,17 @@ export type Database = {
           away_team_id?: number | null
           away_team_probable_pitcher_id?: number | null
           detailed_state?: string | null
+          double_header?: string
           game_datetime_utc?: string | null
+          game_number?: number
           game_pk?: number
           home_batting_order?: number[] | null
           home_team_id?: number | null
           home_team_probable_pitcher_id?: number | null
           last_updated?: string
           official_date?: string
+          rescheduled_from_date?: string | null
+          rescheduled_to_date?: string | null
           venue_id?: number | null
         }
         Relationships: [
@@ -159,6 +390,342 @@ export type Database = {
           },
         ]
       }
+      ingest_runs: {
+        Row: {
+          dry_run: boolean
+          error: string | null
+          finished_at: string | null
+          game_date: string
+          game_pks: number[] | null
+          games_count: number | null
+          id: number
+          matchup_model: string | null
+          matchups_count: number | null
+          skipped_count: number | null
+          started_at: string
+          status: string
+          superseded_count: number | null
+        }
+        Insert: {
+          dry_run?: boolean
+          error?: string | null
+          finished_at?: string | null
+          game_date: string
+          game_pks?: number[] | null
+          games_count?: number | null
+          id?: number
+          matchup_model?: string | null
+          matchups_count?: number | null
+          skipped_count?: number | null
+          started_at?: string
+          status?: string
+          superseded_count?: number | null
+        }
+        Update: {
+          dry_run?: boolean
+          error?: string | null
+          finished_at?: string | null
+          game_date?: string
+          game_pks?: number[] | null
+          games_count?: number | null
+          id?: number
+          matchup_model?: string | null
+          matchups_count?: number | null
+          skipped_count?: number | null
+          started_at?: string
+          status?: string
+          superseded_count?: number | null
+        }
+        Relationships: []
+      }
+      ingest_skips: {
+        Row: {
+          batter_id: number | null
+          batter_name: string | null
+          created_at: string
+          detail: string | null
+          game_date: string
+          game_pk: number | null
+          id: number
+          pitcher_id: number | null
+          pitcher_name: string | null
+          reason: string
+          run_id: number
+        }
+        Insert: {
+          batter_id?: number | null
+          batter_name?: string | null
+          created_at?: string
+          detail?: string | null
+          game_date: string
+          game_pk?: number | null
+          id?: number
+          pitcher_id?: number | null
+          pitcher_name?: string | null
+          reason: string
+          run_id: number
+        }
+        Update: {
+          batter_id?: number | null
+          batter_name?: string | null
+          created_at?: string
+          detail?: string | null
+          game_date?: string
+          game_pk?: number | null
+          id?: number
+          pitcher_id?: number | null
+          pitcher_name?: string | null
+          reason?: string
+          run_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingest_skips_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "ingest_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      league_distributions: {
+        Row: {
+          computed_at: string
+          mean: number
+          min_pa: number
+          player_type: Database["public"]["Enums"]["split_player_type"]
+          quantiles: number[]
+          sample_size: number
+          season: number
+          stat: string
+          vs_handedness: Database["public"]["Enums"]["hand"]
+        }
+        Insert: {
+          computed_at?: string
+          mean: number
+          min_pa: number
+          player_type: Database["public"]["Enums"]["split_player_type"]
+          quantiles: number[]
+          sample_size: number
+          season: number
+          stat: string
+          vs_handedness: Database["public"]["Enums"]["hand"]
+        }
+        Update: {
+          computed_at?: string
+          mean?: number
+          min_pa?: number
+          player_type?: Database["public"]["Enums"]["split_player_type"]
+          quantiles?: number[]
+          sample_size?: number
+          season?: number
+          stat?: string
+          vs_handedness?: Database["public"]["Enums"]["hand"]
+        }
+        Relationships: []
+      }
+      lineup_changes: {
+        Row: {
+          change_type: string
+          current_value: number[] | null
+          detected_at: string
+          game_date: string
+          game_pk: number
+          id: number
+          previous_value: number[] | null
+          run_id: number | null
+          team_side: string
+        }
+        Insert: {
+          change_type: string
+          current_value?: number[] | null
+          detected_at?: string
+          game_date: string
+          game_pk: number
+          id?: number
+          previous_value?: number[] | null
+          run_id?: number | null
+          team_side: string
+        }
+        Update: {
+          change_type?: string
+          current_value?: number[] | null
+          detected_at?: string
+          game_date?: string
+          game_pk?: number
+          id?: number
+          previous_value?: number[] | null
+          run_id?: number | null
+          team_side?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lineup_changes_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "ingest_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      matchup_outcomes: {
+        Row: {
+          ab: number
+          batter_id: number
+          game_date: string
+          game_pa: number
+          game_pk: number
+          hits: number
+          home_runs: number
+          pa: number
+          pitcher_id: number
+          recorded_at: string
+          strikeouts: number
+          walks: number
+          xwoba: number | null
+          xwoba_denom: number
+          xwoba_sum: number
+        }
+        Insert: {
+          ab?: number
+          batter_id: number
+          game_date: string
+          game_pa?: number
+          game_pk: number
+          hits?: number
+          home_runs?: number
+          pa?: number
+          pitcher_id: number
+          recorded_at?: string
+          strikeouts?: number
+          walks?: number
+          xwoba?: number | null
+          xwoba_denom?: number
+          xwoba_sum?: number
+        }
+        Update: {
+          ab?: number
+          batter_id?: number
+          game_date?: string
+          game_pa?: number
+          game_pk?: number
+          hits?: number
+          home_runs?: number
+          pa?: number
+          pitcher_id?: number
+          recorded_at?: string
+          strikeouts?: number
+          walks?: number
+          xwoba?: number | null
+          xwoba_denom?: number
+          xwoba_sum?: number
+        }
+        Relationships: []
+      }
+      park_factors: {
+        Row: {
+          batter_hand: Database["public"]["Enums"]["hand"]
+          doubles_triples_factor: number | null
+          hr_factor: number | null
+          last_updated: string
+          source: string | null
+          venue_id: number
+          xwobacon_factor: number | null
+        }
+        Insert: {
+          batter_hand: Database["public"]["Enums"]["hand"]
+          doubles_triples_factor?: number | null
+          hr_factor?: number | null
+          last_updated?: string
+          source?: string | null
+          venue_id: number
+          xwobacon_factor?: number | null
+        }
+        Update: {
+          batter_hand?: Database["public"]["Enums"]["hand"]
+          doubles_triples_factor?: number | null
+          hr_factor?: number | null
+          last_updated?: string
+          source?: string | null
+          venue_id?: number
+          xwobacon_factor?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "park_factors_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      player_form_splits: {
+        Row: {
+          avg_exit_velocity: number | null
+          avg_launch_angle: number | null
+          barrels_per_pa: number | null
+          bb_percent: number | null
+          hard_hit_pct: number | null
+          hrs: number | null
+          iso: number | null
+          k_percent: number | null
+          last_updated: string
+          pa: number | null
+          player_id: number
+          player_name: string | null
+          player_type: Database["public"]["Enums"]["split_player_type"]
+          swing_miss_percent: number | null
+          vs_handedness: Database["public"]["Enums"]["hand"]
+          window_days: number
+          window_end: string
+          window_start: string
+          xwoba: number | null
+        }
+        Insert: {
+          avg_exit_velocity?: number | null
+          avg_launch_angle?: number | null
+          barrels_per_pa?: number | null
+          bb_percent?: number | null
+          hard_hit_pct?: number | null
+          hrs?: number | null
+          iso?: number | null
+          k_percent?: number | null
+          last_updated?: string
+          pa?: number | null
+          player_id: number
+          player_name?: string | null
+          player_type: Database["public"]["Enums"]["split_player_type"]
+          swing_miss_percent?: number | null
+          vs_handedness: Database["public"]["Enums"]["hand"]
+          window_days: number
+          window_end: string
+          window_start: string
+          xwoba?: number | null
+        }
+        Update: {
+          avg_exit_velocity?: number | null
+          avg_launch_angle?: number | null
+          barrels_per_pa?: number | null
+          bb_percent?: number | null
+          hard_hit_pct?: number | null
+          hrs?: number | null
+          iso?: number | null
+          k_percent?: number | null
+          last_updated?: string
+          pa?: number | null
+          player_id?: number
+          player_name?: string | null
+          player_type?: Database["public"]["Enums"]["split_player_type"]
+          swing_miss_percent?: number | null
+          vs_handedness?: Database["public"]["Enums"]["hand"]
+          window_days?: number
+          window_end?: string
+          window_start?: string
+          xwoba?: number | null
+        }
+        Relationships: []
+      }
       player_splits: {
         Row: {
           ab: number | null
@@ -169,9 +736,12 @@ export type Database = {
           barrels: number | null
           barrels_per_pa: number | null
           bb_percent: number | null
+          contributing_seasons: number[] | null
           flyball_pct: number | null
           groundball_pct: number | null
           hard_hit_pct: number | null
+          hr_per_pa: number | null
+          hr_per_pa_shrinkage: number | null
           hrs: number | null
           hyper_speed: number | null
           iso: number | null
@@ -186,6 +756,7 @@ export type Database = {
           player_type: Database["public"]["Enums"]["split_player_type"]
           season: number
           slg: number | null
+          split_context: Database["public"]["Enums"]["split_context"]
           swing_miss_percent: number | null
           vs_handedness: Database["public"]["Enums"]["hand"]
           woba: number | null
@@ -193,6 +764,7 @@ export type Database = {
           xobp: number | null
           xslg: number | null
           xwoba: number | null
+          xwoba_shrinkage: number | null
         }
         Insert: {
           ab?: number | null
@@ -203,9 +775,12 @@ export type Database = {
           barrels?: number | null
           barrels_per_pa?: number | null
           bb_percent?: number | null
+          contributing_seasons?: number[] | null
           flyball_pct?: number | null
           groundball_pct?: number | null
           hard_hit_pct?: number | null
+          hr_per_pa?: number | null
+          hr_per_pa_shrinkage?: number | null
           hrs?: number | null
           hyper_speed?: number | null
           iso?: number | null
@@ -220,6 +795,7 @@ export type Database = {
           player_type: Database["public"]["Enums"]["split_player_type"]
           season: number
           slg?: number | null
+          split_context?: Database["public"]["Enums"]["split_context"]
           swing_miss_percent?: number | null
           vs_handedness: Database["public"]["Enums"]["hand"]
           woba?: number | null
@@ -227,6 +803,7 @@ export type Database = {
           xobp?: number | null
           xslg?: number | null
           xwoba?: number | null
+          xwoba_shrinkage?: number | null
         }
         Update: {
           ab?: number | null
@@ -237,9 +814,12 @@ export type Database = {
           barrels?: number | null
           barrels_per_pa?: number | null
           bb_percent?: number | null
+          contributing_seasons?: number[] | null
           flyball_pct?: number | null
           groundball_pct?: number | null
           hard_hit_pct?: number | null
+          hr_per_pa?: number | null
+          hr_per_pa_shrinkage?: number | null
           hrs?: number | null
           hyper_speed?: number | null
           iso?: number | null
@@ -254,6 +834,7 @@ export type Database = {
           player_type?: Database["public"]["Enums"]["split_player_type"]
           season?: number
           slg?: number | null
+          split_context?: Database["public"]["Enums"]["split_context"]
           swing_miss_percent?: number | null
           vs_handedness?: Database["public"]["Enums"]["hand"]
           woba?: number | null
@@ -261,6 +842,7 @@ export type Database = {
           xobp?: number | null
           xslg?: number | null
           xwoba?: number | null
+          xwoba_shrinkage?: number | null
         }
         Relationships: []
       }
@@ -306,6 +888,33 @@ export type Database = {
         }
         Relationships: []
       }
+      score_profiles: {
+        Row: {
+          description: string | null
+          label: string
+          name: string
+          sort_order: number
+          updated_at: string
+          weights: Json
+        }
+        Insert: {
+          description?: string | null
+          label: string
+          name: string
+          sort_order?: number
+          updated_at?: string
+          weights: Json
+        }
+        Update: {
+          description?: string | null
+          label?: string
+          name?: string
+          sort_order?: number
+          updated_at?: string
+          weights?: Json
+        }
+        Relationships: []
+      }
       teams: {
         Row: {
           abbreviation: string | null
@@ -368,6 +977,7 @@ export type Database = {
       venues: {
         Row: {
           active: boolean | null
+          center_field_bearing: number | null
           city: string | null
           elevation: number | null
           field_center: number | null
@@ -386,6 +996,7 @@ export type Database = {
         }
         Insert: {
           active?: boolean | null
+          center_field_bearing?: number | null
           city?: string | null
           elevation?: number | null
           field_center?: number | null
@@ -404,6 +1015,7 @@ export type Database = {
         }
         Update: {
           active?: boolean | null
+          center_field_bearing?: number | null
           city?: string | null
           elevation?: number | null
           field_center?: number | null
@@ -431,6 +1043,8 @@ export type Database = {
     }
     Enums: {
       hand: "L" | "R"
+      matchup_scope: "starter" | "full_game" | "bulk"
+      split_context: "all" | "home" | "road" | "day" | "night"
       split_player_type: "batter" | "pitcher"
     }
     CompositeTypes: {
@@ -548,6 +1162,8 @@ export const Constants = {
   public: {
     Enums: {
       hand: ["L", "R"],
+      matchup_scope: ["starter", "full_game", "bulk"],
+      split_context: ["all", "home", "road", "day", "night"],
       split_player_type: ["batter", "pitcher"],
     },
   },
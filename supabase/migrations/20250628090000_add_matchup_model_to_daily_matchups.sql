@@ -0,0 +1,6 @@
+-- Migration script to record which matchup model produced each daily_matchups row
+
+ALTER TABLE public.daily_matchups
+ADD COLUMN IF NOT EXISTS matchup_model TEXT;
+
+COMMENT ON COLUMN public.daily_matchups.matchup_model IS 'Name of the matchup model used to combine the batter and pitcher splits (e.g., "log5", "average"). NULL for rows ingested before models were recorded.';
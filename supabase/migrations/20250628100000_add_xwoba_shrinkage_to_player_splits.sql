@@ -0,0 +1,6 @@
+-- Migration script to record how far weighted (season 0) splits were regressed toward league average
+
+ALTER TABLE public.player_splits
+ADD COLUMN IF NOT EXISTS xwoba_shrinkage NUMERIC(5,4) NULL;
+
+COMMENT ON COLUMN public.player_splits.xwoba_shrinkage IS 'For season 0 rows: share of the weighted xwOBA that comes from the league mean, K / (total PA + K). 0 = no regression, 1 = league average. NULL for single-season rows.';
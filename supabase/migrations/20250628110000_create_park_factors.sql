@@ -0,0 +1,32 @@
+-- Migration script for park factors and park-adjusted matchup columns
+
+CREATE TABLE IF NOT EXISTS public.park_factors (
+    venue_id BIGINT NOT NULL REFERENCES public.venues(id),
+    batter_hand public.hand NOT NULL,
+    hr_factor NUMERIC(5,3),
+    doubles_triples_factor NUMERIC(5,3),
+    xwobacon_factor NUMERIC(5,3),
+    source TEXT,
+    last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (venue_id, batter_hand)
+);
+
+COMMENT ON TABLE public.park_factors IS 'Imported per-venue, per-batter-hand park factors (1.000 = neutral). Venues without a row fall back to an estimate from dimensions and elevation.';
+COMMENT ON COLUMN public.park_factors.batter_hand IS 'Side the batter hits from (switch hitters use the side they bat from in the matchup).';
+COMMENT ON COLUMN public.park_factors.hr_factor IS 'Home run factor, as a ratio (e.g., 1.150 for +15%).';
+COMMENT ON COLUMN public.park_factors.doubles_triples_factor IS 'Doubles and triples factor, as a ratio.';
+COMMENT ON COLUMN public.park_factors.xwobacon_factor IS 'xwOBA on contact factor, as a ratio.';
+COMMENT ON COLUMN public.park_factors.source IS 'Where the factors came from (e.g., "savant_2022_2024").';
+
+ALTER TABLE public.daily_matchups
+ADD COLUMN IF NOT EXISTS avg_xwoba_raw REAL,
+ADD COLUMN IF NOT EXISTS avg_hr_per_pa_raw NUMERIC(7,4),
+ADD COLUMN IF NOT EXISTS park_hr_factor REAL,
+ADD COLUMN IF NOT EXISTS park_xwobacon_factor REAL,
+ADD COLUMN IF NOT EXISTS park_factor_source TEXT;
+
+COMMENT ON COLUMN public.daily_matchups.avg_xwoba_raw IS 'Matchup xwOBA before park adjustment. avg_xwoba holds the park-adjusted value.';
+COMMENT ON COLUMN public.daily_matchups.avg_hr_per_pa_raw IS 'Matchup HR/PA before park adjustment. avg_hr_per_pa holds the park-adjusted value.';
+COMMENT ON COLUMN public.daily_matchups.park_hr_factor IS 'HR park factor applied to avg_hr_per_pa.';
+COMMENT ON COLUMN public.daily_matchups.park_xwobacon_factor IS 'xwOBA-on-contact park factor applied to avg_xwoba.';
+COMMENT ON COLUMN public.daily_matchups.park_factor_source IS 'table (imported park_factors row), estimate (from venue dimensions/elevation) or neutral.';
@@ -0,0 +1,36 @@
+-- Migration script for per-game weather snapshots and weather-adjusted matchup columns
+
+CREATE TABLE IF NOT EXISTS public.game_weather (
+    game_pk BIGINT PRIMARY KEY,
+    venue_id BIGINT,
+    provider TEXT NOT NULL,
+    forecast_time_utc TIMESTAMP WITH TIME ZONE,
+    temperature_f REAL,
+    wind_speed_mph REAL,
+    wind_direction_deg REAL,
+    precipitation_probability REAL,
+    precipitation_mm REAL,
+    hr_factor REAL,
+    xwobacon_factor REAL,
+    adjustment_reason TEXT,
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE public.game_weather IS 'Latest game-time weather forecast per game, refreshed on every ingest run.';
+COMMENT ON COLUMN public.game_weather.provider IS 'Forecast provider that produced the snapshot (e.g., "open-meteo", "file").';
+COMMENT ON COLUMN public.game_weather.forecast_time_utc IS 'Forecast hour used, the one closest to first pitch.';
+COMMENT ON COLUMN public.game_weather.wind_direction_deg IS 'Direction the wind blows from, in degrees clockwise from north.';
+COMMENT ON COLUMN public.game_weather.hr_factor IS 'Weather HR factor applied on top of the park factor (1.0 = neutral).';
+COMMENT ON COLUMN public.game_weather.adjustment_reason IS 'applied, dome, roof_closed or no_forecast.';
+
+ALTER TABLE public.venues
+ADD COLUMN IF NOT EXISTS center_field_bearing REAL;
+
+COMMENT ON COLUMN public.venues.center_field_bearing IS 'Compass bearing from home plate to center field, in degrees (MLB API location.azimuthAngle). Needed to tell wind blowing out from wind blowing in.';
+
+ALTER TABLE public.daily_matchups
+ADD COLUMN IF NOT EXISTS weather_hr_factor REAL,
+ADD COLUMN IF NOT EXISTS weather_xwobacon_factor REAL;
+
+COMMENT ON COLUMN public.daily_matchups.weather_hr_factor IS 'Weather HR factor applied to avg_hr_per_pa after the park factor.';
+COMMENT ON COLUMN public.daily_matchups.weather_xwobacon_factor IS 'Weather xwOBA-on-contact factor applied to avg_xwoba after the park factor.';
@@ -0,0 +1,22 @@
+-- Migration script for full-game (starter + bullpen) matchup rows
+
+CREATE TYPE public.matchup_scope AS ENUM (
+    'starter',
+    'full_game'
+);
+
+ALTER TABLE public.daily_matchups
+ADD COLUMN IF NOT EXISTS matchup_scope public.matchup_scope DEFAULT 'starter' NOT NULL,
+ADD COLUMN IF NOT EXISTS starter_share REAL,
+ADD COLUMN IF NOT EXISTS bullpen_lhp_share REAL,
+ADD COLUMN IF NOT EXISTS bullpen_pitcher_count INTEGER;
+
+-- A batter now has a starter-only row and a full-game row against the same probable starter
+ALTER TABLE public.daily_matchups DROP CONSTRAINT IF EXISTS daily_matchups_pkey;
+ALTER TABLE public.daily_matchups
+    ADD CONSTRAINT daily_matchups_pkey PRIMARY KEY (game_date, batter_id, pitcher_id, matchup_scope);
+
+COMMENT ON COLUMN public.daily_matchups.matchup_scope IS 'starter: batter vs the probable starter only. full_game: starter blended with the opposing bullpen by expected innings; pitcher_id is still the starter.';
+COMMENT ON COLUMN public.daily_matchups.starter_share IS 'Full-game rows: expected share of the game pitched by the starter (0-1).';
+COMMENT ON COLUMN public.daily_matchups.bullpen_lhp_share IS 'Full-game rows: share of expected bullpen innings thrown by left-handed relievers (0-1).';
+COMMENT ON COLUMN public.daily_matchups.bullpen_pitcher_count IS 'Full-game rows: number of relievers with usable splits blended into the row.';
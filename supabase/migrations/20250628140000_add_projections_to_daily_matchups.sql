@@ -0,0 +1,18 @@
+-- Migration script for per-game counting-stat projections on daily_matchups
+
+ALTER TABLE public.daily_matchups
+ADD COLUMN IF NOT EXISTS expected_pa REAL,
+ADD COLUMN IF NOT EXISTS projected_team_runs REAL,
+ADD COLUMN IF NOT EXISTS proj_hr REAL,
+ADD COLUMN IF NOT EXISTS proj_k REAL,
+ADD COLUMN IF NOT EXISTS proj_bb REAL,
+ADD COLUMN IF NOT EXISTS proj_tb REAL;
+
+COMMENT ON COLUMN public.daily_matchups.expected_pa IS 'Expected plate appearances from lineup slot, home/away and projected_team_runs. Assumes a mid-order slot when the lineup is not posted.';
+COMMENT ON COLUMN public.daily_matchups.projected_team_runs IS 'Runs per game implied by the batting lineup''s average matchup xwOBA.';
+COMMENT ON COLUMN public.daily_matchups.proj_hr IS 'Expected home runs in the game (avg_hr_per_pa x expected_pa).';
+COMMENT ON COLUMN public.daily_matchups.proj_k IS 'Expected strikeouts in the game (avg_k_percent x expected_pa).';
+COMMENT ON COLUMN public.daily_matchups.proj_bb IS 'Expected walks in the game (avg_bb_percent x expected_pa).';
+COMMENT ON COLUMN public.daily_matchups.proj_tb IS 'Expected total bases in the game, rebuilt from xwOBA, ISO, BB% and HR/PA.';
+
+CREATE INDEX IF NOT EXISTS idx_matchups_game_date_proj_tb ON public.daily_matchups USING btree (game_date, proj_tb DESC);
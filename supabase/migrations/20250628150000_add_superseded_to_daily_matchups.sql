@@ -0,0 +1,10 @@
+-- Migration script for soft-deleting stale matchups (changed probables, removed batters)
+
+ALTER TABLE public.daily_matchups
+ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS superseded_reason TEXT;
+
+COMMENT ON COLUMN public.daily_matchups.superseded_at IS 'Set when a later ingest run no longer produces this row for its game. NULL means the row is current; every read path should filter on it.';
+COMMENT ON COLUMN public.daily_matchups.superseded_reason IS 'probable_changed (the pitcher is no longer the probable starter) or batter_removed (the batter is no longer on the active roster or has no usable splits).';
+
+CREATE INDEX IF NOT EXISTS idx_matchups_active_game_date ON public.daily_matchups USING btree (game_date, avg_xwoba DESC) WHERE (superseded_at IS NULL);
@@ -0,0 +1,43 @@
+-- Migration script for ingest run history and per-matchup skip reasons
+
+CREATE TABLE IF NOT EXISTS public.ingest_runs (
+    id BIGSERIAL PRIMARY KEY,
+    game_date DATE NOT NULL,
+    status TEXT DEFAULT 'running' NOT NULL,
+    dry_run BOOLEAN DEFAULT FALSE NOT NULL,
+    matchup_model TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    games_count INTEGER,
+    matchups_count INTEGER,
+    superseded_count INTEGER,
+    skipped_count INTEGER,
+    error TEXT
+);
+
+COMMENT ON TABLE public.ingest_runs IS 'One row per /api/ingest run per game date.';
+COMMENT ON COLUMN public.ingest_runs.status IS 'running, succeeded or failed. A run stuck in running was interrupted.';
+COMMENT ON COLUMN public.ingest_runs.skipped_count IS 'Number of ingest_skips rows recorded for the run.';
+
+CREATE INDEX IF NOT EXISTS idx_ingest_runs_game_date ON public.ingest_runs USING btree (game_date, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.ingest_skips (
+    id BIGSERIAL PRIMARY KEY,
+    run_id BIGINT NOT NULL REFERENCES public.ingest_runs(id) ON DELETE CASCADE,
+    game_date DATE NOT NULL,
+    game_pk BIGINT,
+    batter_id BIGINT,
+    batter_name TEXT,
+    pitcher_id BIGINT,
+    pitcher_name TEXT,
+    reason TEXT NOT NULL,
+    detail TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE public.ingest_skips IS 'Every batter/pitcher pair an ingest run could not turn into a matchup, and why.';
+COMMENT ON COLUMN public.ingest_skips.reason IS 'unknown_starter, missing_handedness, unknown_effective_hand, missing_pitcher_split, missing_batter_split or null_stat.';
+COMMENT ON COLUMN public.ingest_skips.detail IS 'Human-readable specifics, e.g. which stats were null.';
+
+CREATE INDEX IF NOT EXISTS idx_ingest_skips_run ON public.ingest_skips USING btree (run_id);
+CREATE INDEX IF NOT EXISTS idx_ingest_skips_date_batter ON public.ingest_skips USING btree (game_date, batter_id);
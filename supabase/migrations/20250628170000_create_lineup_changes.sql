@@ -0,0 +1,28 @@
+-- Migration script for the lineup watcher: per-game change events and game-scoped ingest runs
+
+CREATE TABLE IF NOT EXISTS public.lineup_changes (
+    id BIGSERIAL PRIMARY KEY,
+    game_pk BIGINT NOT NULL,
+    game_date DATE NOT NULL,
+    team_side TEXT NOT NULL,
+    change_type TEXT NOT NULL,
+    previous_value BIGINT[],
+    current_value BIGINT[],
+    run_id BIGINT REFERENCES public.ingest_runs(id) ON DELETE SET NULL,
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE public.lineup_changes IS 'One row per lineup or probable-pitcher change the lineup watcher detected for a game side.';
+COMMENT ON COLUMN public.lineup_changes.team_side IS 'home or away.';
+COMMENT ON COLUMN public.lineup_changes.change_type IS 'batting_order (lineup posted or changed) or probable_pitcher.';
+COMMENT ON COLUMN public.lineup_changes.previous_value IS 'Stored batting order (player IDs in order) or a one-element probable pitcher ID; NULL if nothing was stored.';
+COMMENT ON COLUMN public.lineup_changes.current_value IS 'Value from the MLB API at detection time.';
+COMMENT ON COLUMN public.lineup_changes.run_id IS 'The game-scoped ingest run that rebuilt matchups for this change. NULL for dry runs or if the run could not be recorded.';
+
+CREATE INDEX IF NOT EXISTS idx_lineup_changes_date ON public.lineup_changes USING btree (game_date, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lineup_changes_game ON public.lineup_changes USING btree (game_pk);
+
+ALTER TABLE public.ingest_runs
+    ADD COLUMN IF NOT EXISTS game_pks BIGINT[];
+
+COMMENT ON COLUMN public.ingest_runs.game_pks IS 'Games the run was limited to (lineup watcher re-ingests). NULL means the whole slate.';
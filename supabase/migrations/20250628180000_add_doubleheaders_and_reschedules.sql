@@ -0,0 +1,27 @@
+-- Migration script for doubleheaders, postponed/suspended games and game-scoped matchup keys
+
+ALTER TABLE public.games
+ADD COLUMN IF NOT EXISTS game_number SMALLINT DEFAULT 1 NOT NULL,
+ADD COLUMN IF NOT EXISTS double_header TEXT DEFAULT 'N' NOT NULL,
+ADD COLUMN IF NOT EXISTS rescheduled_to_date DATE,
+ADD COLUMN IF NOT EXISTS rescheduled_from_date DATE;
+
+COMMENT ON COLUMN public.games.game_number IS 'MLB gameNumber: 1, or 2 for the second game of a doubleheader.';
+COMMENT ON COLUMN public.games.double_header IS 'MLB doubleHeader flag: N (single game), Y (traditional doubleheader) or S (split admission).';
+COMMENT ON COLUMN public.games.rescheduled_to_date IS 'Postponed/suspended games: the date the game was moved to or resumes on.';
+COMMENT ON COLUMN public.games.rescheduled_from_date IS 'Makeup/resumed games: the original date. MLB keeps the game_pk, so this row is also shown (as postponed) on that date.';
+
+CREATE INDEX IF NOT EXISTS idx_games_rescheduled_from_date ON public.games USING btree (rescheduled_from_date) WHERE (rescheduled_from_date IS NOT NULL);
+
+-- Rows without a game can't be shown on any game card; key every matchup on its game so
+-- the two games of a doubleheader never share (or overwrite) a row
+DELETE FROM public.daily_matchups WHERE game_pk IS NULL;
+ALTER TABLE public.daily_matchups ALTER COLUMN game_pk SET NOT NULL;
+
+ALTER TABLE public.daily_matchups DROP CONSTRAINT IF EXISTS daily_matchups_pkey;
+ALTER TABLE public.daily_matchups
+    ADD CONSTRAINT daily_matchups_pkey PRIMARY KEY (game_pk, batter_id, pitcher_id, matchup_scope);
+
+CREATE INDEX IF NOT EXISTS idx_matchups_game_date_batter ON public.daily_matchups USING btree (game_date, batter_id);
+
+COMMENT ON COLUMN public.daily_matchups.superseded_reason IS 'probable_changed (the pitcher is no longer the probable starter), batter_removed (the batter is no longer on the active roster or has no usable splits) or game_called_off (the game was postponed, suspended or cancelled).';
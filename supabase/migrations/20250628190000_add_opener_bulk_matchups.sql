@@ -0,0 +1,18 @@
+-- Migration script for opener games: opener/bulk pitcher roles and bulk-pitcher matchup rows
+
+ALTER TYPE public.matchup_scope ADD VALUE IF NOT EXISTS 'bulk';
+
+ALTER TABLE public.daily_matchups
+ADD COLUMN IF NOT EXISTS pitcher_role TEXT DEFAULT 'starter' NOT NULL,
+ADD COLUMN IF NOT EXISTS expected_innings REAL,
+ADD COLUMN IF NOT EXISTS bulk_pitcher_id BIGINT,
+ADD COLUMN IF NOT EXISTS bulk_share REAL;
+
+ALTER TABLE public.daily_matchups
+    ADD CONSTRAINT daily_matchups_pitcher_role_check CHECK (pitcher_role IN ('starter', 'opener', 'bulk'));
+
+COMMENT ON COLUMN public.daily_matchups.matchup_scope IS 'starter: batter vs the probable starter only. full_game: starter blended with the opposing bullpen by expected innings; pitcher_id is still the starter. bulk: batter vs the bulk pitcher expected behind an opener; pitcher_id is the bulk pitcher.';
+COMMENT ON COLUMN public.daily_matchups.pitcher_role IS 'Role of pitcher_id: starter, opener (probable expected to pitch an inning or two), or bulk (pitcher expected to follow the opener).';
+COMMENT ON COLUMN public.daily_matchups.expected_innings IS 'Starter and bulk rows: innings pitcher_id is expected to pitch, from innings per start or recent outings.';
+COMMENT ON COLUMN public.daily_matchups.bulk_pitcher_id IS 'Opener games: the bulk pitcher expected to follow pitcher_id. Null otherwise.';
+COMMENT ON COLUMN public.daily_matchups.bulk_share IS 'Full-game rows in opener games: expected share of the game pitched by the bulk pitcher (0-1).';
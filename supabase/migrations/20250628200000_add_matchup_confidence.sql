@@ -0,0 +1,27 @@
+-- Migration script for per-matchup confidence from split sample sizes
+
+ALTER TABLE public.player_splits
+ADD COLUMN IF NOT EXISTS contributing_seasons INTEGER[];
+
+COMMENT ON COLUMN public.player_splits.contributing_seasons IS 'Seasons behind the row: the season itself for single-season rows, every weighted season for season 0 rows.';
+
+ALTER TABLE public.daily_matchups
+ADD COLUMN IF NOT EXISTS batter_split_pa INTEGER,
+ADD COLUMN IF NOT EXISTS pitcher_split_pa INTEGER,
+ADD COLUMN IF NOT EXISTS batter_split_seasons SMALLINT,
+ADD COLUMN IF NOT EXISTS pitcher_split_seasons SMALLINT,
+ADD COLUMN IF NOT EXISTS confidence_score REAL,
+ADD COLUMN IF NOT EXISTS confidence_tier TEXT;
+
+ALTER TABLE public.daily_matchups
+    ADD CONSTRAINT daily_matchups_confidence_tier_check CHECK (confidence_tier IN ('low', 'medium', 'high'));
+
+-- /api/matchups?minConfidence= filters on the score within a date
+CREATE INDEX IF NOT EXISTS daily_matchups_game_date_confidence_idx ON public.daily_matchups (game_date, confidence_score);
+
+COMMENT ON COLUMN public.daily_matchups.batter_split_pa IS 'PA behind the batter split the row was built from (total_pa of the weighted split).';
+COMMENT ON COLUMN public.daily_matchups.pitcher_split_pa IS 'PA behind the pitcher split the row was built from. Full-game rows carry the starter''s.';
+COMMENT ON COLUMN public.daily_matchups.batter_split_seasons IS 'Number of seasons contributing to the batter split.';
+COMMENT ON COLUMN public.daily_matchups.pitcher_split_seasons IS 'Number of seasons contributing to the pitcher split.';
+COMMENT ON COLUMN public.daily_matchups.confidence_score IS 'Sample-size confidence, 0-1 (src/lib/confidence.ts).';
+COMMENT ON COLUMN public.daily_matchups.confidence_tier IS 'low (< 0.4), medium (< 0.6) or high, from confidence_score.';
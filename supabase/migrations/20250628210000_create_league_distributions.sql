@@ -0,0 +1,20 @@
+-- Migration script for league distributions (means and percentiles per season, player type, hand and stat)
+
+CREATE TABLE IF NOT EXISTS public.league_distributions (
+    season INTEGER NOT NULL,
+    player_type public.split_player_type NOT NULL,
+    vs_handedness public.hand NOT NULL,
+    stat TEXT NOT NULL,
+    mean REAL NOT NULL,
+    quantiles REAL[] NOT NULL,
+    sample_size INTEGER NOT NULL,
+    min_pa INTEGER NOT NULL,
+    computed_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (season, player_type, vs_handedness, stat)
+);
+
+COMMENT ON TABLE public.league_distributions IS 'League mean and percentile distribution of each split stat, from player_splits (scripts/compute-league-distributions.ts). Season 0 = the weighted splits.';
+COMMENT ON COLUMN public.league_distributions.stat IS 'Split stat key (xwoba, hard_hit_pct, k_percent, hr_per_pa, ...).';
+COMMENT ON COLUMN public.league_distributions.mean IS 'PA-weighted league mean; the denominator of the "+" index (100 = average).';
+COMMENT ON COLUMN public.league_distributions.quantiles IS '101 values: quantiles[p + 1] is the value at percentile p (0-100) among players with at least min_pa PA.';
+COMMENT ON COLUMN public.league_distributions.sample_size IS 'Players with at least min_pa PA in the split.';
@@ -0,0 +1,24 @@
+-- Migration script for composite score profiles (named weight sets over daily_matchups stat columns)
+
+CREATE TABLE IF NOT EXISTS public.score_profiles (
+    name TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    description TEXT,
+    weights JSONB NOT NULL,
+    sort_order SMALLINT DEFAULT 0 NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.score_profiles IS 'Named weight profiles for the composite matchup score (/api/matchups?score=<name>, src/lib/scoreProfiles.ts).';
+COMMENT ON COLUMN public.score_profiles.weights IS 'daily_matchups stat column → signed weight, e.g. {"avg_hr_per_pa": 0.35, "avg_k_percent": -0.2}. Negative weights reward low values.';
+
+INSERT INTO public.score_profiles (name, label, description, weights, sort_order) VALUES
+    ('power', 'Power', 'HR and extra-base thump for power-heavy roto categories.',
+     '{"avg_hr_per_pa": 0.35, "avg_barrels_per_pa": 0.25, "avg_iso": 0.2, "avg_hard_hit_pct": 0.1, "avg_exit_velocity": 0.1}', 1),
+    ('obp', 'OBP', 'Getting on base: overall quality, walks, and avoiding strikeouts.',
+     '{"avg_xwoba": 0.4, "avg_bb_percent": 0.35, "avg_k_percent": -0.25}', 2),
+    ('contact', 'Contact', 'Balls in play for AVG formats: low K% and whiff rate, with some quality of contact.',
+     '{"avg_k_percent": -0.4, "avg_swing_miss_percent": -0.3, "avg_xwoba": 0.2, "avg_hard_hit_pct": 0.1}', 3),
+    ('points', 'Points', 'Points leagues: total bases and walks count, strikeouts cost points.',
+     '{"avg_xwoba": 0.35, "avg_iso": 0.2, "avg_hr_per_pa": 0.15, "avg_bb_percent": 0.1, "avg_k_percent": -0.2}', 4)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,37 @@
+-- Migration script for career batter-vs-pitcher history and its (optional) use in daily_matchups
+
+CREATE TABLE IF NOT EXISTS public.batter_vs_pitcher (
+    batter_id INTEGER NOT NULL,
+    pitcher_id INTEGER NOT NULL,
+    pa INTEGER NOT NULL DEFAULT 0,
+    ab INTEGER NOT NULL DEFAULT 0,
+    hits INTEGER NOT NULL DEFAULT 0,
+    home_runs INTEGER NOT NULL DEFAULT 0,
+    strikeouts INTEGER NOT NULL DEFAULT 0,
+    walks INTEGER NOT NULL DEFAULT 0,
+    xwoba_sum REAL NOT NULL DEFAULT 0,
+    xwoba_denom INTEGER NOT NULL DEFAULT 0,
+    xwoba REAL,
+    first_game_date DATE,
+    last_game_date DATE,
+    refreshed_through DATE NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (batter_id, pitcher_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batter_vs_pitcher_pitcher ON public.batter_vs_pitcher (pitcher_id);
+
+COMMENT ON TABLE public.batter_vs_pitcher IS 'Career regular-season plate appearances of a batter against a pitcher, from Statcast pitch data (scripts/refresh-batter-vs-pitcher.ts). Only pairs that appeared in daily_matchups are tracked.';
+COMMENT ON COLUMN public.batter_vs_pitcher.xwoba_sum IS 'Sum of per-PA xwOBA: estimated_woba_using_speedangle on batted balls, woba_value otherwise.';
+COMMENT ON COLUMN public.batter_vs_pitcher.xwoba_denom IS 'PAs counted in xwOBA (Statcast woba_denom; excludes intentional walks, sacrifice bunts, catcher interference).';
+COMMENT ON COLUMN public.batter_vs_pitcher.xwoba IS 'xwoba_sum / xwoba_denom; null without any counted PA.';
+COMMENT ON COLUMN public.batter_vs_pitcher.refreshed_through IS 'Last game date included. Refreshes only fetch pitches after it.';
+
+ALTER TABLE public.daily_matchups
+    ADD COLUMN IF NOT EXISTS bvp_pa INTEGER,
+    ADD COLUMN IF NOT EXISTS bvp_xwoba REAL,
+    ADD COLUMN IF NOT EXISTS bvp_weight REAL;
+
+COMMENT ON COLUMN public.daily_matchups.bvp_pa IS 'Career PA of this batter against this pitcher at ingest time; null when no history was stored.';
+COMMENT ON COLUMN public.daily_matchups.bvp_xwoba IS 'Career head-to-head xwOBA at ingest time.';
+COMMENT ON COLUMN public.daily_matchups.bvp_weight IS 'Weight the head-to-head xwOBA got in avg_xwoba (0 = not blended). Grows with bvp_pa up to the ingest bvpWeight cap.';
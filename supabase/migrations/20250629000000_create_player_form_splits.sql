@@ -0,0 +1,42 @@
+-- Migration script for rolling recent-form splits (last N days) and form-adjusted matchups
+
+CREATE TABLE IF NOT EXISTS public.player_form_splits (
+    player_id BIGINT NOT NULL,
+    player_type public.split_player_type NOT NULL,
+    vs_handedness public.hand NOT NULL,
+    window_days INTEGER NOT NULL,
+    window_start DATE NOT NULL,
+    window_end DATE NOT NULL,
+    player_name TEXT,
+    pa INTEGER,
+    xwoba NUMERIC(4,3),
+    avg_launch_angle NUMERIC(5,2),
+    barrels_per_pa NUMERIC(5,4),
+    hard_hit_pct NUMERIC(5,4),
+    avg_exit_velocity NUMERIC(5,2),
+    k_percent NUMERIC(5,4),
+    bb_percent NUMERIC(5,4),
+    iso NUMERIC(4,3),
+    swing_miss_percent NUMERIC(5,4),
+    hrs INTEGER,
+    last_updated TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (player_id, player_type, vs_handedness, window_days),
+    CONSTRAINT player_form_splits_window_check CHECK (window_days > 0 AND window_start <= window_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_form_splits_window_end ON public.player_form_splits (window_end);
+
+COMMENT ON TABLE public.player_form_splits IS 'Rolling Statcast splits over the last window_days (fetch-savant-stats.ts, update-savant-csvs-to-supabase.ts). Only the latest window per player is kept; season splits stay in player_splits.';
+COMMENT ON COLUMN public.player_form_splits.window_days IS 'Window length in days (14, 30).';
+COMMENT ON COLUMN public.player_form_splits.window_end IS 'Last game date in the window. Ingest only uses windows that end before the game date.';
+
+ALTER TABLE public.daily_matchups
+    ADD COLUMN IF NOT EXISTS form_xwoba REAL,
+    ADD COLUMN IF NOT EXISTS form_trend REAL,
+    ADD COLUMN IF NOT EXISTS batter_form_pa INTEGER,
+    ADD COLUMN IF NOT EXISTS pitcher_form_pa INTEGER;
+
+COMMENT ON COLUMN public.daily_matchups.form_xwoba IS 'avg_xwoba recomputed with both players'' splits regressed toward their recent-form windows; null without form data or on full_game rows.';
+COMMENT ON COLUMN public.daily_matchups.form_trend IS 'form_xwoba - avg_xwoba: positive when recent form favors the batter (hot), negative when it favors the pitcher (cold).';
+COMMENT ON COLUMN public.daily_matchups.batter_form_pa IS 'Batter PA in the longest recent-form window used.';
+COMMENT ON COLUMN public.daily_matchups.pitcher_form_pa IS 'Pitcher PA (batters faced) in the longest recent-form window used.';
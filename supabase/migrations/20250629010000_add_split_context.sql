@@ -0,0 +1,26 @@
+-- Migration script for home/road and day/night split contexts on player_splits
+
+CREATE TYPE public.split_context AS ENUM (
+    'all',
+    'home',
+    'road',
+    'day',
+    'night'
+);
+
+ALTER TABLE public.player_splits
+    ADD COLUMN IF NOT EXISTS split_context public.split_context DEFAULT 'all' NOT NULL;
+
+-- Context rows sit next to the regular split, so the context joins the key
+ALTER TABLE ONLY public.player_splits DROP CONSTRAINT IF EXISTS player_splits_pkey;
+ALTER TABLE ONLY public.player_splits
+    ADD CONSTRAINT player_splits_pkey PRIMARY KEY (player_id, season, player_type, vs_handedness, split_context);
+
+COMMENT ON COLUMN public.player_splits.split_context IS 'all = every game. home/road come from Savant''s home_road filter; day/night from per-game Savant rows classified by first pitch (game_datetime_utc) in local solar time at the venue. Readers that want the regular split filter on all.';
+
+ALTER TABLE public.daily_matchups
+    ADD COLUMN IF NOT EXISTS day_night TEXT,
+    ADD COLUMN IF NOT EXISTS context_adjustment REAL;
+
+COMMENT ON COLUMN public.daily_matchups.day_night IS 'day or night, from game_datetime_utc and the venue longitude (first pitch before 17:00 local = day).';
+COMMENT ON COLUMN public.daily_matchups.context_adjustment IS 'avg_xwoba change from blending both players'' home/road and day/night splits into their regular splits; 0 when no context split had enough PA, null on full_game rows.';
@@ -0,0 +1,29 @@
+-- Migration script for matchup outcomes: what actually happened in each forecast matchup
+
+CREATE TABLE IF NOT EXISTS public.matchup_outcomes (
+    game_pk INTEGER NOT NULL,
+    batter_id INTEGER NOT NULL,
+    pitcher_id INTEGER NOT NULL,
+    game_date DATE NOT NULL,
+    pa INTEGER NOT NULL DEFAULT 0,
+    ab INTEGER NOT NULL DEFAULT 0,
+    hits INTEGER NOT NULL DEFAULT 0,
+    home_runs INTEGER NOT NULL DEFAULT 0,
+    strikeouts INTEGER NOT NULL DEFAULT 0,
+    walks INTEGER NOT NULL DEFAULT 0,
+    xwoba_sum REAL NOT NULL DEFAULT 0,
+    xwoba_denom INTEGER NOT NULL DEFAULT 0,
+    xwoba REAL,
+    game_pa INTEGER NOT NULL DEFAULT 0,
+    recorded_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+    PRIMARY KEY (game_pk, batter_id, pitcher_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchup_outcomes_game_date ON public.matchup_outcomes (game_date);
+
+COMMENT ON TABLE public.matchup_outcomes IS 'Actual results of each starter/bulk pair in daily_matchups, from the final game''s Statcast play-by-play (scripts/record-matchup-outcomes.ts). Pairs that never faced each other are stored with pa = 0.';
+COMMENT ON COLUMN public.matchup_outcomes.pa IS 'Plate appearances of the batter against this pitcher in the game.';
+COMMENT ON COLUMN public.matchup_outcomes.xwoba_sum IS 'Sum of per-PA xwOBA against this pitcher: estimated_woba_using_speedangle on batted balls, woba_value otherwise.';
+COMMENT ON COLUMN public.matchup_outcomes.xwoba_denom IS 'PAs counted in xwOBA (Statcast woba_denom).';
+COMMENT ON COLUMN public.matchup_outcomes.xwoba IS 'xwoba_sum / xwoba_denom; null without any counted PA.';
+COMMENT ON COLUMN public.matchup_outcomes.game_pa IS 'The batter''s PA in the whole game, against any pitcher (0 = did not bat).';
@@ -0,0 +1,9 @@
+-- Migration script to store the regressed HR rate of weighted (season 0) splits
+-- hrs is an integer count, so a regressed rate can't be carried as hrs / pa
+
+ALTER TABLE public.player_splits
+ADD COLUMN IF NOT EXISTS hr_per_pa NUMERIC(6,5) NULL,
+ADD COLUMN IF NOT EXISTS hr_per_pa_shrinkage NUMERIC(5,4) NULL;
+
+COMMENT ON COLUMN public.player_splits.hr_per_pa IS 'For season 0 rows: recency-weighted HR per PA, regressed toward the league mean like weighted xwOBA (regular splits only). Ingest uses it instead of hrs / pa. NULL for single-season rows.';
+COMMENT ON COLUMN public.player_splits.hr_per_pa_shrinkage IS 'For season 0 rows: share of hr_per_pa that comes from the league mean, K / (total PA + K). 0 = no regression, 1 = league average. NULL for single-season rows.';
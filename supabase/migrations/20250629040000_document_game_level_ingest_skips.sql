@@ -0,0 +1,4 @@
+-- Migration script documenting game-level ingest skips (per-game fetch failures)
+
+COMMENT ON TABLE public.ingest_skips IS 'Every batter/pitcher pair an ingest run could not turn into a matchup, and every per-game fetch that failed, and why.';
+COMMENT ON COLUMN public.ingest_skips.reason IS 'unknown_starter, missing_handedness, unknown_effective_hand, missing_pitcher_split, missing_batter_split or null_stat; game-level (batter and pitcher null): starter_fetch_failed, boxscore_fetch_failed or weather_fetch_failed.';